@@ -0,0 +1,31 @@
+import { notFound } from 'next/navigation';
+import { getAdminUser } from '@/lib/admin';
+import { createAdminClient } from '@/lib/supabase-admin';
+import SuggestionReviewQueue from '@/components/suggestion-review-queue';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminSuggestionsPage() {
+  // Hide the page entirely from non-admins
+  const admin = await getAdminUser();
+  if (!admin) notFound();
+
+  const supabase = createAdminClient();
+  const { data: suggestions, error } = await supabase
+    .from('place_suggestions')
+    .select('*')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .limit(200);
+
+  if (error) {
+    console.error('Error fetching suggestions:', error);
+    return <div>Error loading suggestions.</div>;
+  }
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <SuggestionReviewQueue initialSuggestions={suggestions || []} />
+    </main>
+  );
+}
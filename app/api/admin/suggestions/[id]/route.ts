@@ -0,0 +1,175 @@
+import { NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/admin';
+import { createAdminClient } from '@/lib/supabase-admin';
+import { geocodeSuggestion, suggestionToPlaceInsert, suggestionToPlaceUpdate } from '@/lib/suggestions';
+import { LatLng, Place, SuggestionReviewAction, SuggestionReviewResponse } from '@/lib/types';
+
+interface ReviewBody {
+  action: SuggestionReviewAction;
+  placeId?: string; // Existing place to merge into (merge only)
+  location?: LatLng; // Coordinates for the new place (approve only); geocoded from the address when omitted
+  note?: string;
+}
+
+function isLatLng(value: unknown): value is LatLng {
+  const { lat, lng } = (value ?? {}) as Partial<LatLng>;
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat!) <= 90 && Math.abs(lng!) <= 180;
+}
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const admin = await getAdminUser();
+    if (!admin) {
+      return NextResponse.json({ error: 'Forbidden' } as SuggestionReviewResponse, { status: 403 });
+    }
+
+    const { id } = await params;
+    const body: ReviewBody | null = await req.json().catch(() => null);
+    if (!body || !['approve', 'reject', 'merge'].includes(body.action)) {
+      return NextResponse.json({ error: 'Invalid review action.' } as SuggestionReviewResponse, { status: 400 });
+    }
+    if (body.action === 'merge' && !body.placeId) {
+      return NextResponse.json({ error: 'A place to merge into is required.' } as SuggestionReviewResponse, { status: 400 });
+    }
+
+    const supabase = createAdminClient();
+
+    const { data: suggestion, error: fetchError } = await supabase
+      .from('place_suggestions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) {
+      return NextResponse.json({ error: fetchError.message } as SuggestionReviewResponse, { status: 500 });
+    }
+    if (!suggestion) {
+      return NextResponse.json({ error: 'Suggestion not found.' } as SuggestionReviewResponse, { status: 404 });
+    }
+    if (suggestion.status !== 'pending') {
+      return NextResponse.json(
+        { error: `Suggestion was already ${suggestion.status}.` } as SuggestionReviewResponse,
+        { status: 409 }
+      );
+    }
+
+    // Everything that can be rejected is checked before the suggestion is claimed
+    let location: LatLng | null = null;
+    if (body.action === 'approve') {
+      // A place without coordinates never shows up on the map
+      location = isLatLng(body.location) ? body.location : null;
+      const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
+      if (!location && apiKey) {
+        location = await geocodeSuggestion(suggestion, apiKey);
+      }
+      if (!location) {
+        return NextResponse.json(
+          { error: 'Could not find coordinates for this address. Provide a location to approve it.' } as SuggestionReviewResponse,
+          { status: 422 }
+        );
+      }
+    }
+
+    let existing: Place | null = null;
+    if (body.action === 'merge') {
+      const { data, error } = await supabase
+        .from('places')
+        .select('*')
+        .eq('id', body.placeId!)
+        .maybeSingle();
+      if (error) {
+        return NextResponse.json({ error: error.message } as SuggestionReviewResponse, { status: 500 });
+      }
+      if (!data) {
+        return NextResponse.json({ error: 'Place to merge into not found.' } as SuggestionReviewResponse, { status: 404 });
+      }
+      existing = data;
+    }
+
+    const statusByAction = { approve: 'approved', reject: 'rejected', merge: 'merged' } as const;
+
+    // Claim the suggestion: only one of two concurrent reviews gets the row back
+    const { data: claimed, error: claimError } = await supabase
+      .from('place_suggestions')
+      .update({
+        status: statusByAction[body.action],
+        reviewed_at: new Date().toISOString(),
+        reviewed_by: admin.id,
+        review_note: body.note?.trim().slice(0, 1000) || null,
+      })
+      .eq('id', suggestion.id)
+      .eq('status', 'pending')
+      .select('*')
+      .maybeSingle();
+
+    if (claimError) {
+      return NextResponse.json({ error: claimError.message } as SuggestionReviewResponse, { status: 500 });
+    }
+    if (!claimed) {
+      return NextResponse.json({ error: 'Suggestion was already reviewed.' } as SuggestionReviewResponse, { status: 409 });
+    }
+
+    // Put the suggestion back in the queue when the places write fails
+    const release = async (message: string) => {
+      await supabase
+        .from('place_suggestions')
+        .update({ status: 'pending', reviewed_at: null, reviewed_by: null, review_note: null })
+        .eq('id', suggestion.id);
+      return NextResponse.json({ error: message } as SuggestionReviewResponse, { status: 500 });
+    };
+
+    let place: Place | null = null;
+
+    if (body.action === 'approve') {
+      // Create a new places row from the suggestion
+      const { data, error } = await supabase
+        .from('places')
+        .insert(suggestionToPlaceInsert(suggestion, location!))
+        .select('*')
+        .single();
+      if (error) return release(error.message);
+      place = data;
+    }
+
+    if (existing) {
+      // Fill missing fields on an existing place with the suggestion's data
+      const update = suggestionToPlaceUpdate(existing, suggestion);
+      place = existing;
+      if (Object.keys(update).length > 0) {
+        const { data, error } = await supabase
+          .from('places')
+          .update(update)
+          .eq('id', existing.id)
+          .select('*')
+          .single();
+        if (error) return release(error.message);
+        place = data;
+      }
+    }
+
+    if (!place) {
+      return NextResponse.json({ suggestion: claimed } as SuggestionReviewResponse);
+    }
+
+    const { data: reviewed, error: reviewError } = await supabase
+      .from('place_suggestions')
+      .update({ place_ref: place.id })
+      .eq('id', suggestion.id)
+      .select('*')
+      .single();
+
+    if (reviewError) {
+      return NextResponse.json({ error: reviewError.message } as SuggestionReviewResponse, { status: 500 });
+    }
+
+    return NextResponse.json({ suggestion: reviewed, place } as SuggestionReviewResponse);
+
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Suggestion review API error:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Unexpected server error' } as SuggestionReviewResponse,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/admin';
+import { createAdminClient } from '@/lib/supabase-admin';
+import { SuggestionStatus } from '@/lib/types';
+
+const STATUSES: SuggestionStatus[] = ['pending', 'approved', 'rejected', 'merged'];
+
+export async function GET(req: Request) {
+  try {
+    const admin = await getAdminUser();
+    if (!admin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const requested = searchParams.get('status') as SuggestionStatus | null;
+    const status = requested && STATUSES.includes(requested) ? requested : 'pending';
+
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+      .from('place_suggestions')
+      .select('*')
+      .eq('status', status)
+      .order('created_at', { ascending: status === 'pending' })
+      .limit(200);
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+    return NextResponse.json({ suggestions: data ?? [] });
+
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Admin suggestions API error:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Unexpected server error' },
+      { status: 500 }
+    );
+  }
+}
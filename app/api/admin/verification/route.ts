@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/admin';
+import { runVerificationCheck } from '@/lib/verification';
+
+/**
+ * Scheduled callers (Vercel Cron, or curl locally) send `Authorization: Bearer <CRON_SECRET>`
+ */
+function isCronRequest(req: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && req.headers.get('authorization') === `Bearer ${secret}`;
+}
+
+/**
+ * GET /api/admin/verification - flag places with an expired or stale halal certification.
+ * Runs daily from vercel.json; admins can also trigger it while signed in.
+ */
+export async function GET(req: Request) {
+  try {
+    if (!isCronRequest(req) && !(await getAdminUser())) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const summary = await runVerificationCheck();
+    return NextResponse.json(summary);
+
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Verification check error:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Unexpected server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,16 +1,73 @@
 import { NextResponse } from 'next/server';
-import { chatWithAssistant } from '@/lib/openai-client';
+import { cookies } from 'next/headers';
+import { ChatMessage, chatWithAssistant, resolveToolCalls, streamChatWithAssistant } from '@/lib/assistant';
+import { getLLMProvider } from '@/lib/llm-provider';
 import { ChatAPIResponse } from '@/lib/types';
-import { safeJsonParse } from '@/lib/utils';
+import { describeTokyoNow } from '@/lib/opening-hours';
+import { isCompleteJsonValue } from '@/lib/json-stream';
+import { TOOL_NAMES, validateFilterArguments } from '@/lib/assistant-tools';
+import { encodeSseEvent } from '@/lib/sse';
+import { checkRateLimits, getClientIp, RateLimitRule } from '@/lib/rate-limit';
+import { createClient } from '@/lib/supabase-server';
+import { COOKIE_NAMES, GUEST_CONFIG, RATE_LIMIT_CONFIG } from '@/lib/constants';
+import { rankPlaces } from '@/lib/ranking';
+import { createUnknownPlaceCheck, formatRetrievedPlaces, retrievePlaces } from '@/lib/place-retrieval';
+import { DEFAULT_LOCALE, isLocale, Locale, LOCALE_ENGLISH_NAMES } from '@/lib/i18n';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A search result as summarized by the client for follow-up questions
+interface ContextPlace {
+  id: string;
+  place_id?: string | null; // Google place ID the rating belongs to
+  name: string;
+  cuisine?: string;
+  city?: string;
+  price_level?: string;
+  halal_status?: string;
+  rating?: number;
+  reviews_count?: number;
+}
+
+const QUOTA_MESSAGES = {
+  rate_limited: 'Too many requests. Please slow down.',
+  guest_quota: "You've used all your free queries! Sign in for free to keep chatting and save your favorites.",
+  daily_quota: "You've reached today's chat limit. Please try again later.",
+} as const;
+
+/**
+ * Count this request against the caller's quotas: a per-IP burst limit for everyone,
+ * then a daily quota per signed-in user, or per anonymous cookie and IP for guests.
+ */
+async function checkChatQuota(req: Request) {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  const anonId = (await cookies()).get(COOKIE_NAMES.ANON_ID)?.value;
+  const ip = getClientIp(req);
+
+  const rules: RateLimitRule[] = [
+    { key: `chat:burst:${ip}`, limit: RATE_LIMIT_CONFIG.BURST_PER_MINUTE, windowMs: 60 * 1000, reason: 'rate_limited' },
+  ];
+
+  if (user) {
+    rules.push({ key: `chat:user:${user.id}`, limit: RATE_LIMIT_CONFIG.USER_QUERIES_PER_DAY, windowMs: DAY_MS, reason: 'daily_quota' });
+  } else {
+    rules.push({ key: `chat:guest-ip:${ip}`, limit: RATE_LIMIT_CONFIG.GUEST_QUERIES_PER_IP_PER_DAY, windowMs: DAY_MS, reason: 'guest_quota' });
+    if (anonId) {
+      rules.push({ key: `chat:anon:${anonId}`, limit: GUEST_CONFIG.MAX_FREE_QUERIES, windowMs: RATE_LIMIT_CONFIG.GUEST_WINDOW_MS, reason: 'guest_quota' });
+    }
+  }
+
+  return { ...(await checkRateLimits(rules)), isGuest: !user };
+}
 
 export async function POST(req: Request) {
   try {
-    const openaiKey = process.env.OPENAI_API_KEY;
-    if (!openaiKey) {
-      return NextResponse.json(
-        { error: "Missing OPENAI_API_KEY environment variable." } as ChatAPIResponse,
-        { status: 500 }
-      );
+    // Fails fast on a missing API key or unknown LLM_PROVIDER
+    try {
+      getLLMProvider();
+    } catch (e: unknown) {
+      return NextResponse.json({ error: (e as Error).message } as ChatAPIResponse, { status: 500 });
     }
 
     const body = await req.json().catch(() => null);
@@ -21,13 +78,32 @@ export async function POST(req: Request) {
       );
     }
 
+    // Server-enforced quotas - the localStorage guest counter is only a UI hint
+    const quota = await checkChatQuota(req);
+    if (!quota.allowed) {
+      return NextResponse.json(
+        { error: QUOTA_MESSAGES[quota.reason!], retryAfter: quota.retryAfter, reason: quota.reason } as ChatAPIResponse,
+        { status: 429, headers: { 'Retry-After': String(quota.retryAfter) } }
+      );
+    }
+    const quotaHeaders: Record<string, string> = quota.isGuest
+      ? { 'X-Guest-Queries-Remaining': String(quota.remaining) }
+      : {};
+
     const { messages, context } = body;
+    const locale: Locale = isLocale(body.locale) ? body.locale : DEFAULT_LOCALE;
+
+    // Current Japan time lets the assistant resolve "open now" / "open at" requests
+    let contextMessage = `\n\nCURRENT TIME IN JAPAN: ${describeTokyoNow()}`;
 
-    // Build context message if we have current places
-    let contextMessage = '';
+    // Fallback reply language when the user's own message doesn't make it clear
+    contextMessage += `\n\nINTERFACE LANGUAGE: ${LOCALE_ENGLISH_NAMES[locale]}`;
+
+    // Add current places for follow-up questions
     if (context?.currentPlaces && Array.isArray(context.currentPlaces) && context.currentPlaces.length > 0) {
-      const placesList = context.currentPlaces
-        .map((p: { name: string; cuisine?: string; city?: string; price_level?: string; halal_status?: string; rating?: number; reviews_count?: number }, i: number) => {
+      const currentPlaces: ContextPlace[] = context.currentPlaces;
+      const placesList = currentPlaces
+        .map((p, i) => {
           let info = `${i + 1}. ${p.name} (${p.cuisine || 'Halal'}`;
           if (p.city) info += `, ${p.city}`;
           if (p.rating) info += `, Rating: ${p.rating}/5`;
@@ -38,25 +114,141 @@ export async function POST(req: Request) {
           return info;
         })
         .join('\n');
-      contextMessage = `\n\nCURRENT SEARCH RESULTS (use these for follow-up questions):\n${placesList}`;
+      contextMessage += `\n\nCURRENT SEARCH RESULTS (use these for follow-up questions):\n${placesList}`;
+
+      // Rank server-side so "best rated" answers weigh review counts consistently
+      const rated = currentPlaces.filter((p) => p.rating);
+      if (rated.length > 0) {
+        const ranked = rankPlaces(
+          rated.map((p) => ({ ...p, cuisine_subtype: p.cuisine })),
+          { sort: 'rating', getRating: (p) => ({ place_id: p.place_id || p.id, rating: p.rating, user_ratings_total: p.reviews_count }) }
+        );
+        const rankedList = ranked
+          .map((p, i) => `${i + 1}. ${p.name} (${p.rating}/5${p.reviews_count ? `, ${p.reviews_count} reviews` : ''})`)
+          .join('\n');
+        contextMessage += `\n\nRANKED BY RATING (best first):\n${rankedList}`;
+      }
     }
 
-    // Call OpenAI - it returns JSON with filter and message
-    const completion = await chatWithAssistant(messages, contextMessage);
-    const content = completion.choices[0].message.content || "{}";
+    // Look up the places the latest question is about, so answers aren't limited to what's on screen
+    const retrievedNames: string[] = [];
+    const question = [...messages].reverse().find((m: ChatMessage) => m.role === 'user')?.content;
+    if (typeof question === 'string') {
+      try {
+        const retrieved = await retrievePlaces(question);
+        if (retrieved.length > 0) {
+          retrievedNames.push(...retrieved.map((p) => p.name));
+          contextMessage += `\n\nPLACES IN THE DATABASE (best matches for the latest message):\n${formatRetrievedPlaces(retrieved)}`;
+        }
+      } catch (e: unknown) {
+        const error = e as Error;
+        console.error('Place retrieval failed:', error);
+      }
+    }
 
-    // Parse the JSON response
-    const parsed = safeJsonParse<Record<string, unknown>>(content, { message: content, filter: {} });
+    // Recommendations and actions must name places that exist
+    const findUnknownPlaces = createUnknownPlaceCheck(retrievedNames);
+
+    // Streaming clients get the filter as soon as it is parsed, then the message text
+    if (req.headers.get('accept')?.includes('text/event-stream')) {
+      return await streamReply(messages, contextMessage, findUnknownPlaces, quotaHeaders);
+    }
 
-    // Return the parsed response directly (filter + message)
-    return NextResponse.json(parsed as ChatAPIResponse);
+    // The reply text is the message, tool calls carry filter/recommendation/actions
+    const reply = await chatWithAssistant(messages, contextMessage);
+
+    // Validate tool arguments server-side (with one repair pass)
+    const { result, repairedContent } = await resolveToolCalls(
+      messages, contextMessage, reply.content, reply.toolCalls, findUnknownPlaces
+    );
+
+    return NextResponse.json({
+      message: reply.content || repairedContent || '',
+      ...result,
+    } as ChatAPIResponse, { headers: quotaHeaders });
 
   } catch (e: unknown) {
     const error = e as Error;
-    console.error('OpenAI API Error:', error);
+    console.error('Chat API Error:', error);
     return NextResponse.json(
       { error: error?.message || "Unexpected server error." } as ChatAPIResponse,
       { status: 500 }
     );
   }
 }
+
+/**
+ * Stream the assistant reply as SSE events:
+ * - `filter`: { filter } as soon as a valid set_map_filter call is complete
+ * - `message`: { delta } for each new piece of message text
+ * - `done`: the full validated response (same shape as the JSON endpoint)
+ * - `error`: { error } if the stream fails or tool calls can't be repaired
+ */
+async function streamReply(
+  messages: ChatMessage[],
+  contextMessage: string,
+  findUnknownPlaces: (names: string[]) => Promise<Set<string>>,
+  headers: Record<string, string>
+) {
+  // Create the completion up front so upstream errors still surface as JSON
+  const completion = await streamChatWithAssistant(messages, contextMessage);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let content = '';
+      let filterSent = false;
+
+      try {
+        for await (const event of completion) {
+          if (event.type === 'text') {
+            content += event.delta;
+            controller.enqueue(encodeSseEvent('message', { delta: event.delta }));
+            continue;
+          }
+
+          // Forward the filter the moment its arguments are complete and valid
+          for (const call of event.calls) {
+            if (filterSent || call.name !== TOOL_NAMES.SET_MAP_FILTER || !isCompleteJsonValue(call.arguments)) continue;
+            const filter = validateFilterArguments(call.arguments);
+            if (filter.ok) {
+              filterSent = true;
+              controller.enqueue(encodeSseEvent('filter', { filter: filter.value }));
+            }
+          }
+        }
+
+        const { result, repairedContent } = await resolveToolCalls(
+          messages, contextMessage, content || null, completion.getToolCalls(), findUnknownPlaces
+        );
+
+        if (result.filter && !filterSent) {
+          controller.enqueue(encodeSseEvent('filter', { filter: result.filter }));
+        }
+        if (!content && repairedContent) {
+          content = repairedContent;
+          controller.enqueue(encodeSseEvent('message', { delta: repairedContent }));
+        }
+
+        controller.enqueue(encodeSseEvent('done', { message: content, ...result } as ChatAPIResponse));
+      } catch (e: unknown) {
+        const error = e as Error;
+        console.error('Chat stream error:', error);
+        controller.enqueue(encodeSseEvent('error', { error: error?.message || "Stream interrupted." } as ChatAPIResponse));
+      } finally {
+        controller.close();
+      }
+    },
+    cancel() {
+      completion.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      ...headers,
+    },
+  });
+}
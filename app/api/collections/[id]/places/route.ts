@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { getCollection, validateCollectionPlaces } from '@/lib/collections';
+import { CollectionResponse } from '@/lib/types';
+import { isUuid } from '@/lib/utils';
+
+/**
+ * PUT /api/collections/:id/places - replace the places of a collection.
+ * Body: { places: [{ place_id, note? }] } in display order, so one call
+ * covers adding, removing, reordering and editing notes.
+ */
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to use lists.' } as CollectionResponse, { status: 401 });
+    }
+
+    const existing = isUuid(id) ? await getCollection(supabase, user.id, id) : null;
+    if (!existing) {
+      return NextResponse.json({ error: 'List not found.' } as CollectionResponse, { status: 404 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const places = validateCollectionPlaces(body?.places);
+    if (!places.ok) {
+      return NextResponse.json({ error: places.errors.join('; ') } as CollectionResponse, { status: 400 });
+    }
+
+    // Upsert the new list first, then drop what's no longer in it, so a failure never empties the list
+    if (places.value.length > 0) {
+      const { error: upsertError } = await supabase.from('collection_places').upsert(
+        places.value.map((place, position) => ({
+          collection_id: id,
+          place_id: place.place_id,
+          note: place.note,
+          position,
+        })),
+        { onConflict: 'collection_id,place_id' }
+      );
+      if (upsertError) throw upsertError;
+    }
+
+    let removal = supabase.from('collection_places').delete().eq('collection_id', id);
+    if (places.value.length > 0) {
+      removal = removal.not('place_id', 'in', `(${places.value.map((p) => p.place_id).join(',')})`);
+    }
+    const { error: deleteError } = await removal;
+    if (deleteError) throw deleteError;
+
+    return NextResponse.json({ collection: await getCollection(supabase, user.id, id) } as CollectionResponse);
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Collection places PUT error:', error);
+    return NextResponse.json({ error: 'Could not save list.' } as CollectionResponse, { status: 500 });
+  }
+}
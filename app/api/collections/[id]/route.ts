@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { getCollection, validateCollectionFields } from '@/lib/collections';
+import { CollectionResponse } from '@/lib/types';
+import { isUuid } from '@/lib/utils';
+
+/**
+ * PATCH /api/collections/:id - rename, edit notes or move { name?, notes?, position? }
+ */
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to use lists.' } as CollectionResponse, { status: 401 });
+    }
+    if (!isUuid(id)) {
+      return NextResponse.json({ error: 'List not found.' } as CollectionResponse, { status: 404 });
+    }
+
+    const fields = validateCollectionFields(await req.json().catch(() => null), false);
+    if (!fields.ok) {
+      return NextResponse.json({ error: fields.errors.join('; ') } as CollectionResponse, { status: 400 });
+    }
+
+    const { data: updated, error } = await supabase
+      .from('collections')
+      .update(fields.value)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('id');
+    if (error) throw error;
+    if (!updated?.length) {
+      return NextResponse.json({ error: 'List not found.' } as CollectionResponse, { status: 404 });
+    }
+
+    return NextResponse.json({ collection: await getCollection(supabase, user.id, id) } as CollectionResponse);
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Collection PATCH error:', error);
+    return NextResponse.json({ error: 'Could not update list.' } as CollectionResponse, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/collections/:id - delete a collection (its share link stops working)
+ */
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to use lists.' } as CollectionResponse, { status: 401 });
+    }
+    if (!isUuid(id)) {
+      return NextResponse.json({ error: 'List not found.' } as CollectionResponse, { status: 404 });
+    }
+
+    const { error } = await supabase
+      .from('collections')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+    if (error) throw error;
+
+    return NextResponse.json({} as CollectionResponse);
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Collection DELETE error:', error);
+    return NextResponse.json({ error: 'Could not delete list.' } as CollectionResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { getCollection, listCollections, validateCollectionFields } from '@/lib/collections';
+import { CollectionResponse, CollectionsResponse } from '@/lib/types';
+
+/**
+ * GET /api/collections - the signed-in user's collections with their places
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ collections: [], error: 'Sign in to use lists.' } as CollectionsResponse, { status: 401 });
+    }
+
+    return NextResponse.json({ collections: await listCollections(supabase, user.id) } as CollectionsResponse);
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Collections GET error:', error);
+    return NextResponse.json({ collections: [], error: 'Could not load lists.' } as CollectionsResponse, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/collections - create a collection { name, notes? }, appended after the existing ones
+ */
+export async function POST(req: Request) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to use lists.' } as CollectionResponse, { status: 401 });
+    }
+
+    const fields = validateCollectionFields(await req.json().catch(() => null), true);
+    if (!fields.ok) {
+      return NextResponse.json({ error: fields.errors.join('; ') } as CollectionResponse, { status: 400 });
+    }
+
+    const { data: last } = await supabase
+      .from('collections')
+      .select('position')
+      .eq('user_id', user.id)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data: created, error } = await supabase
+      .from('collections')
+      .insert({
+        user_id: user.id,
+        name: fields.value.name!,
+        notes: fields.value.notes ?? null,
+        position: fields.value.position ?? (last ? last.position + 1 : 0),
+      })
+      .select('id')
+      .single();
+    if (error) throw error;
+
+    return NextResponse.json(
+      { collection: await getCollection(supabase, user.id, created.id) } as CollectionResponse,
+      { status: 201 }
+    );
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Collections POST error:', error);
+    return NextResponse.json({ error: 'Could not create list.' } as CollectionResponse, { status: 500 });
+  }
+}
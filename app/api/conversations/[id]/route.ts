@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { conversationColumns, getConversation, validateConversationFields } from '@/lib/chat-history';
+import { ChatConversationResponse } from '@/lib/types';
+import { isUuid } from '@/lib/utils';
+
+/**
+ * GET /api/conversations/:id - a saved chat with its messages and last filter
+ */
+export async function GET(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to save chats.' } as ChatConversationResponse, { status: 401 });
+    }
+
+    const conversation = isUuid(id) ? await getConversation(supabase, user.id, id) : null;
+    if (!conversation) {
+      return NextResponse.json({ error: 'Chat not found.' } as ChatConversationResponse, { status: 404 });
+    }
+
+    return NextResponse.json({ conversation } as ChatConversationResponse);
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Conversation GET error:', error);
+    return NextResponse.json({ error: 'Could not load chat.' } as ChatConversationResponse, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/conversations/:id - rename or save new messages { title?, messages?, last_filter? }
+ */
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to save chats.' } as ChatConversationResponse, { status: 401 });
+    }
+    if (!isUuid(id)) {
+      return NextResponse.json({ error: 'Chat not found.' } as ChatConversationResponse, { status: 404 });
+    }
+
+    const fields = validateConversationFields(await req.json().catch(() => null), false);
+    if (!fields.ok) {
+      return NextResponse.json({ error: fields.errors.join('; ') } as ChatConversationResponse, { status: 400 });
+    }
+
+    const { data: updated, error } = await supabase
+      .from('chat_conversations')
+      .update(conversationColumns(fields.value))
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('id');
+    if (error) throw error;
+    if (!updated?.length) {
+      return NextResponse.json({ error: 'Chat not found.' } as ChatConversationResponse, { status: 404 });
+    }
+
+    return NextResponse.json({ conversation: await getConversation(supabase, user.id, id) } as ChatConversationResponse);
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Conversation PATCH error:', error);
+    return NextResponse.json({ error: 'Could not save chat.' } as ChatConversationResponse, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/conversations/:id - delete a saved chat
+ */
+export async function DELETE(_req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to save chats.' } as ChatConversationResponse, { status: 401 });
+    }
+    if (!isUuid(id)) {
+      return NextResponse.json({ error: 'Chat not found.' } as ChatConversationResponse, { status: 404 });
+    }
+
+    const { error } = await supabase
+      .from('chat_conversations')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+    if (error) throw error;
+
+    return NextResponse.json({} as ChatConversationResponse);
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Conversation DELETE error:', error);
+    return NextResponse.json({ error: 'Could not delete chat.' } as ChatConversationResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import {
+  conversationColumns,
+  conversationTitle,
+  getConversation,
+  listConversations,
+  validateConversationFields,
+} from '@/lib/chat-history';
+import { ChatConversationResponse, ChatConversationsResponse } from '@/lib/types';
+
+/**
+ * GET /api/conversations - the signed-in user's saved chats, most recent first (without messages)
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ conversations: [], error: 'Sign in to save chats.' } as ChatConversationsResponse, { status: 401 });
+    }
+
+    return NextResponse.json({ conversations: await listConversations(supabase, user.id) } as ChatConversationsResponse);
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Conversations GET error:', error);
+    return NextResponse.json({ conversations: [], error: 'Could not load chats.' } as ChatConversationsResponse, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/conversations - save a new chat { messages, last_filter?, title? };
+ * the title defaults to the first question
+ */
+export async function POST(req: Request) {
+  try {
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to save chats.' } as ChatConversationResponse, { status: 401 });
+    }
+
+    const fields = validateConversationFields(await req.json().catch(() => null), true);
+    if (!fields.ok) {
+      return NextResponse.json({ error: fields.errors.join('; ') } as ChatConversationResponse, { status: 400 });
+    }
+
+    const { data: created, error } = await supabase
+      .from('chat_conversations')
+      .insert({
+        ...conversationColumns(fields.value),
+        user_id: user.id,
+        title: fields.value.title ?? conversationTitle(fields.value.messages ?? []),
+      })
+      .select('id')
+      .single();
+    if (error) throw error;
+
+    return NextResponse.json(
+      { conversation: await getConversation(supabase, user.id, created.id) } as ChatConversationResponse,
+      { status: 201 }
+    );
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Conversations POST error:', error);
+    return NextResponse.json({ error: 'Could not save chat.' } as ChatConversationResponse, { status: 500 });
+  }
+}
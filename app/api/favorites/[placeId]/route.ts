@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { listFavoriteIds } from '@/lib/favorites';
+import { FavoritesResponse } from '@/lib/types';
+
+/**
+ * DELETE /api/favorites/:placeId - remove a place from the signed-in user's favorites
+ */
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ placeId: string }> }
+) {
+  try {
+    const { placeId } = await params;
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ placeIds: [], error: 'Sign in to sync favorites.' } as FavoritesResponse, { status: 401 });
+    }
+
+    const { error } = await supabase
+      .from('user_favorites')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('place_id', placeId);
+    if (error) throw error;
+
+    return NextResponse.json({ placeIds: await listFavoriteIds(supabase, user.id) } as FavoritesResponse);
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Favorites DELETE error:', error);
+    return NextResponse.json({ placeIds: [], error: 'Could not remove favorite.' } as FavoritesResponse, { status: 500 });
+  }
+}
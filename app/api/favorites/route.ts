@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { listFavoriteIds } from '@/lib/favorites';
+import { FavoritesResponse } from '@/lib/types';
+import { isUuid } from '@/lib/utils';
+
+const MAX_FAVORITES_PER_REQUEST = 500;
+
+async function getUserClient() {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  return { supabase, user };
+}
+
+/**
+ * GET /api/favorites - the signed-in user's favorite place IDs
+ */
+export async function GET() {
+  try {
+    const { supabase, user } = await getUserClient();
+    if (!user) {
+      return NextResponse.json({ placeIds: [], error: 'Sign in to sync favorites.' } as FavoritesResponse, { status: 401 });
+    }
+
+    return NextResponse.json({ placeIds: await listFavoriteIds(supabase, user.id) } as FavoritesResponse);
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Favorites GET error:', error);
+    return NextResponse.json({ placeIds: [], error: 'Could not load favorites.' } as FavoritesResponse, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/favorites - add place IDs to the account (used for single adds and
+ * for merging a device's local favorites on login). Returns the merged list.
+ */
+export async function POST(req: Request) {
+  try {
+    const { supabase, user } = await getUserClient();
+    if (!user) {
+      return NextResponse.json({ placeIds: [], error: 'Sign in to sync favorites.' } as FavoritesResponse, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const placeIds: unknown = body?.placeIds;
+    if (
+      !Array.isArray(placeIds) ||
+      placeIds.length > MAX_FAVORITES_PER_REQUEST ||
+      !placeIds.every(isUuid)
+    ) {
+      return NextResponse.json({ placeIds: [], error: 'placeIds must be an array of place IDs.' } as FavoritesResponse, { status: 400 });
+    }
+
+    if (placeIds.length > 0) {
+      // Skip IDs of places that no longer exist instead of failing the whole merge
+      const { data: existing, error: lookupError } = await supabase
+        .from('places')
+        .select('id')
+        .in('id', placeIds);
+      if (lookupError) throw lookupError;
+
+      const rows = (existing ?? []).map((place) => ({ user_id: user.id, place_id: place.id }));
+      if (rows.length > 0) {
+        const { error } = await supabase
+          .from('user_favorites')
+          .upsert(rows, { onConflict: 'user_id,place_id', ignoreDuplicates: true });
+        if (error) throw error;
+      }
+    }
+
+    return NextResponse.json({ placeIds: await listFavoriteIds(supabase, user.id) } as FavoritesResponse);
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Favorites POST error:', error);
+    return NextResponse.json({ placeIds: [], error: 'Could not save favorites.' } as FavoritesResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { autocomplete } from '@/lib/search-index';
+import { AutocompleteResponse } from '@/lib/types';
+
+/**
+ * GET /api/places/autocomplete?q= - place, area and cuisine suggestions for a partial query
+ */
+export async function GET(req: Request) {
+  const query = new URL(req.url).searchParams.get('q')?.trim() ?? '';
+  if (!query) {
+    return NextResponse.json({ suggestions: [] } as AutocompleteResponse);
+  }
+
+  try {
+    return NextResponse.json(
+      { suggestions: await autocomplete(query) } as AutocompleteResponse,
+      { headers: { 'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=3600' } }
+    );
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Autocomplete API error:', error);
+    return NextResponse.json({ suggestions: [], error: 'Could not load suggestions.' } as AutocompleteResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { findPlaces } from '@/lib/place-search';
+import { validatePlaceFilter } from '@/lib/place-filter';
+import { countFacets, matchesFacets, withoutFacets } from '@/lib/facets';
+import { SEARCH_CONFIG } from '@/lib/constants';
+import { FacetsResponse } from '@/lib/types';
+
+/**
+ * POST /api/places/facets - distinct cuisines, areas, prices, tags and halal statuses
+ * with counts under the given filter ({ filter })
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    const validation = validatePlaceFilter(body?.filter);
+    if (!validation.ok) {
+      return NextResponse.json({ facets: {}, total: 0, error: validation.errors.join('; ') } as FacetsResponse, { status: 400 });
+    }
+
+    // Favorites live on the client and the order doesn't change counts
+    const filter = { ...validation.value, favorites: null, sort: null };
+
+    // One query without the facets; each facet is then counted with the others applied
+    const result = await findPlaces(withoutFacets(filter), SEARCH_CONFIG.FACET_MAX_ROWS);
+    if (!result.ok) {
+      return NextResponse.json({ facets: {}, total: 0, error: result.error } as FacetsResponse, { status: result.status });
+    }
+
+    return NextResponse.json({
+      facets: countFacets(result.places, filter, SEARCH_CONFIG.MAX_FACET_VALUES),
+      total: result.places.filter((place) => matchesFacets(place, filter)).length,
+    } as FacetsResponse);
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Facets API error:', error);
+    return NextResponse.json({ facets: {}, total: 0, error: 'Could not load filters.' } as FacetsResponse, { status: 500 });
+  }
+}
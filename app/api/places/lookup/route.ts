@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { fetchPlacesByIds } from '@/lib/place-tiles';
+import { PlacesSearchResponse } from '@/lib/types';
+
+const MAX_IDS_PER_REQUEST = 500;
+
+/**
+ * POST /api/places/lookup - places by ID ({ ids }), for favorites and lists
+ * whose places are outside the tiles loaded so far
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    const ids: unknown = body?.ids;
+    if (!Array.isArray(ids) || ids.length > MAX_IDS_PER_REQUEST) {
+      return NextResponse.json(
+        { places: [], error: `ids must be an array of at most ${MAX_IDS_PER_REQUEST} place IDs.` } as PlacesSearchResponse,
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ places: await fetchPlacesByIds(ids) } as PlacesSearchResponse);
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Lookup API error:', error);
+    return NextResponse.json({ places: [], error: 'Could not load places.' } as PlacesSearchResponse, { status: 500 });
+  }
+}
@@ -1,68 +1,54 @@
 import { NextResponse } from 'next/server';
+import { filterKnownPlaceIds, getRatings } from '@/lib/ratings';
+import { checkRateLimits, getClientIp } from '@/lib/rate-limit';
+import { RATE_LIMIT_CONFIG, RATINGS_CONFIG } from '@/lib/constants';
+import { RatingsResponse } from '@/lib/types';
 
-// Google Places API endpoint for fetching ratings
-// This uses the Places API (New) which supports batch requests
-
-interface PlaceRating {
-  place_id: string;
-  rating?: number;
-  user_ratings_total?: number;
-}
+// Google ratings for places, served from the server-side cache (see lib/ratings.ts)
+// and refreshed from Places API (New) once they expire. Every refresh is billed,
+// so callers are rate-limited and only IDs of known places are looked up.
 
 export async function POST(req: Request) {
   try {
     const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY;
     if (!apiKey) {
-      return NextResponse.json({ error: 'Google API key not configured' }, { status: 500 });
+      return NextResponse.json({ ratings: [], error: 'Google API key not configured' } as RatingsResponse, { status: 500 });
     }
 
-    const body = await req.json();
-    const placeIds: string[] = body.placeIds || [];
-
-    if (!placeIds.length) {
-      return NextResponse.json({ ratings: [] });
+    const limit = await checkRateLimits([
+      { key: `ratings:${getClientIp(req)}`, limit: RATE_LIMIT_CONFIG.RATINGS_PER_MINUTE, windowMs: 60 * 1000, reason: 'rate_limited' },
+    ]);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { ratings: [], error: 'Too many requests. Please try again shortly.' } as RatingsResponse,
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+      );
     }
 
-    // Limit to 10 places to avoid rate limits
-    const limitedIds = placeIds.slice(0, 10);
+    const body = await req.json();
+    const placeIds: unknown = body?.placeIds;
 
-    // Fetch ratings for each place using Places API
-    const ratings: PlaceRating[] = await Promise.all(
-      limitedIds.map(async (placeId) => {
-        try {
-          // Use Places API (New) - Place Details
-          const response = await fetch(
-            `https://places.googleapis.com/v1/places/${placeId}?fields=rating,userRatingCount&key=${apiKey}`,
-            {
-              headers: {
-                'X-Goog-Api-Key': apiKey,
-                'X-Goog-FieldMask': 'rating,userRatingCount',
-              },
-            }
-          );
+    if (!Array.isArray(placeIds) || !placeIds.every((id) => typeof id === 'string')) {
+      return NextResponse.json({ ratings: [], error: 'placeIds must be an array of strings' } as RatingsResponse, { status: 400 });
+    }
 
-          if (!response.ok) {
-            console.error(`Failed to fetch rating for ${placeId}:`, response.status);
-            return { place_id: placeId };
-          }
+    const uniqueIds = [...new Set(placeIds.filter(Boolean))];
+    if (uniqueIds.length > RATINGS_CONFIG.MAX_IDS_PER_REQUEST) {
+      return NextResponse.json(
+        { ratings: [], error: `At most ${RATINGS_CONFIG.MAX_IDS_PER_REQUEST} places per request` } as RatingsResponse,
+        { status: 400 }
+      );
+    }
 
-          const data = await response.json();
-          return {
-            place_id: placeId,
-            rating: data.rating,
-            user_ratings_total: data.userRatingCount,
-          };
-        } catch (e) {
-          console.error(`Error fetching rating for ${placeId}:`, e);
-          return { place_id: placeId };
-        }
-      })
-    );
+    const knownIds = await filterKnownPlaceIds(uniqueIds);
+    if (!knownIds.length) {
+      return NextResponse.json({ ratings: [] } as RatingsResponse);
+    }
 
-    return NextResponse.json({ ratings });
+    return NextResponse.json({ ratings: await getRatings(knownIds, apiKey) } as RatingsResponse);
   } catch (e: unknown) {
     const error = e as Error;
     console.error('Ratings API error:', error);
-    return NextResponse.json({ error: error.message }, { status: 500 });
+    return NextResponse.json({ ratings: [], error: error.message } as RatingsResponse, { status: 500 });
   }
 }
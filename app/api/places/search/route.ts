@@ -1,96 +1,34 @@
 import { NextResponse } from 'next/server';
-import { supabase } from '@/lib/supabase';
-import { PlaceFilter, PlacesSearchResponse } from '@/lib/types';
-import { API_CONFIG } from '@/lib/constants';
-import { sanitizeInput, hasNonEmptyValues } from '@/lib/utils';
+import { PlaceFilter, PlacesSearchResponse, PlaceWithDistance } from '@/lib/types';
+import { getCachedRatings } from '@/lib/ratings';
+import { rankPlaces } from '@/lib/ranking';
+import { findPlaces } from '@/lib/place-search';
+
+/**
+ * Order results with lib/ranking.ts, using cached Google ratings only. Searches never
+ * call Google themselves: unrated places rank on the rest of their score until the
+ * ratings endpoint has cached them.
+ */
+async function rankResults(places: PlaceWithDistance[], filter: PlaceFilter): Promise<PlaceWithDistance[]> {
+  const placeIds = places.map((p) => p.place_id).filter((id): id is string => !!id);
+  const ratings = await getCachedRatings(placeIds);
+  const getRating = (place: PlaceWithDistance) => (place.place_id ? ratings.get(place.place_id) : undefined);
+
+  return rankPlaces(places, { sort: filter.sort, filter, getRating });
+}
 
 export async function POST(req: Request) {
   try {
     const body = await req.json();
     const filter: PlaceFilter = body?.filter || {};
 
-    // If empty filter => return all
-    if (!hasNonEmptyValues(filter)) {
-      const { data, error } = await supabase
-        .from('places')
-        .select('*')
-        .limit(API_CONFIG.MAX_PLACES_LIMIT);
-
-      if (error) {
-        return NextResponse.json({ error: error.message } as PlacesSearchResponse, { status: 500 });
-      }
-      return NextResponse.json({ places: data ?? [] } as PlacesSearchResponse);
-    }
-
-    // Build query with AND logic for different filter types
-    let query = supabase.from('places').select('*');
-
-    // Cuisine filter (cuisine_subtype OR cuisine_category) - applied as AND
-    const cuisineSubtype = sanitizeInput(filter.cuisine_subtype);
-    const cuisineCategory = sanitizeInput(filter.cuisine_category);
-
-    if (cuisineSubtype || cuisineCategory) {
-      const cuisineConditions: string[] = [];
-      if (cuisineSubtype) {
-        cuisineConditions.push(`cuisine_subtype.ilike.%${cuisineSubtype}%`);
-      }
-      if (cuisineCategory) {
-        cuisineConditions.push(`cuisine_category.ilike.%${cuisineCategory}%`);
-      }
-      query = query.or(cuisineConditions.join(','));
-    }
-
-    // Location/keyword filter (name OR address OR city) - applied as AND with cuisine
-    const keyword = sanitizeInput(filter.keyword);
-    if (keyword) {
-      query = query.or(
-        `name.ilike.%${keyword}%,address.ilike.%${keyword}%,city.ilike.%${keyword}%`
-      );
-    }
-
-    // Tag filter - applied as AND
-    const tag = sanitizeInput(filter.tag);
-    if (tag) {
-      query = query.contains('tags', [tag]);
-    }
-
-    // Price filter - applied as AND
-    const priceLevel = sanitizeInput(filter.price_level);
-    if (priceLevel) {
-      query = query.ilike('price_level', `%${priceLevel}%`);
-    }
-
-    // Halal status filter - applied as AND
-    const halalStatus = sanitizeInput(filter.halal_status);
-    if (halalStatus) {
-      query = query.ilike('halal_status', `%${halalStatus}%`);
+    // An empty filter returns all places (up to the limit)
+    const result = await findPlaces(filter);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error } as PlacesSearchResponse, { status: result.status });
     }
 
-    // Handle search_terms array (legacy support) - loose OR search
-    if (filter.search_terms && Array.isArray(filter.search_terms) && filter.search_terms.length > 0) {
-      const orConditions: string[] = [];
-      for (const term of filter.search_terms) {
-        const t = sanitizeInput(term);
-        if (!t) continue;
-        orConditions.push(
-          `name.ilike.%${t}%`,
-          `address.ilike.%${t}%`,
-          `city.ilike.%${t}%`,
-          `cuisine_subtype.ilike.%${t}%`,
-          `cuisine_category.ilike.%${t}%`
-        );
-      }
-      if (orConditions.length > 0) {
-        query = query.or(orConditions.join(','));
-      }
-    }
-
-    const { data, error } = await query.limit(API_CONFIG.MAX_PLACES_LIMIT);
-
-    if (error) {
-      return NextResponse.json({ error: error.message } as PlacesSearchResponse, { status: 500 });
-    }
-    return NextResponse.json({ places: data ?? [] } as PlacesSearchResponse);
+    return NextResponse.json({ places: await rankResults(result.places, filter) } as PlacesSearchResponse);
 
   } catch (e: unknown) {
     const error = e as Error;
@@ -1,4 +1,6 @@
 import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase-server';
+import { PlaceSuggestionInsert } from '@/lib/types';
 
 interface SuggestionData {
   name: string;
@@ -24,8 +26,12 @@ export async function POST(req: Request) {
       );
     }
 
+    // Attribute the suggestion to the signed-in user, if any
+    const supabase = await createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
     // Sanitize and prepare data
-    const suggestionData = {
+    const suggestionData: PlaceSuggestionInsert = {
       name: body.name.trim().slice(0, 200),
       address: body.address.trim().slice(0, 500),
       city: body.city?.trim().slice(0, 100) || null,
@@ -34,20 +40,21 @@ export async function POST(req: Request) {
       phone: body.phone?.trim().slice(0, 50) || null,
       website: body.website?.trim().slice(0, 500) || null,
       notes: body.notes?.trim().slice(0, 1000) || null,
-      submitter_email: body.submitterEmail?.trim().slice(0, 200) || null,
+      submitter_email: body.submitterEmail?.trim().slice(0, 200) || user?.email || null,
+      submitted_by: user?.id ?? null,
       status: 'pending',
-      created_at: new Date().toISOString(),
     };
 
-    // Log the suggestion for now
-    // TODO: Set up a place_suggestions table in Supabase and insert there
-    // For now, we log it so you can see submissions in server logs
-    console.log('=== NEW PLACE SUGGESTION ===');
-    console.log(JSON.stringify(suggestionData, null, 2));
-    console.log('============================');
+    // Suggestions land in the moderation queue at /admin/suggestions
+    const { error } = await supabase.from('place_suggestions').insert(suggestionData);
 
-    // In production, you'd insert into Supabase:
-    // const { error } = await supabase.from('place_suggestions').insert(suggestionData);
+    if (error) {
+      console.error('Failed to save suggestion:', error);
+      return NextResponse.json(
+        { error: 'Could not save your suggestion. Please try again.' },
+        { status: 500 }
+      );
+    }
 
     return NextResponse.json({ success: true, message: 'Suggestion submitted successfully' });
 
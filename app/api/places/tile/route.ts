@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { fetchTilePlaces } from '@/lib/place-tiles';
+import { parseTile, tileKey } from '@/lib/tiles';
+import { PlaceTileResponse } from '@/lib/types';
+
+/**
+ * GET /api/places/tile?z=&x=&y= - places inside one map tile.
+ * Cacheable by CDNs, since the same tiles are requested by every visitor.
+ */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const tile = parseTile(searchParams.get('z'), searchParams.get('x'), searchParams.get('y'));
+
+  if (!tile) {
+    return NextResponse.json(
+      { tile: '', places: [], complete: false, error: 'Invalid tile coordinates.' } as PlaceTileResponse,
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { places, complete } = await fetchTilePlaces(tile);
+    return NextResponse.json(
+      { tile: tileKey(tile), places, complete } as PlaceTileResponse,
+      { headers: { 'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400' } }
+    );
+  } catch (e: unknown) {
+    const error = e as Error;
+    console.error('Tile API error:', error);
+    return NextResponse.json(
+      { tile: tileKey(tile), places: [], complete: false, error: 'Could not load places.' } as PlaceTileResponse,
+      { status: 500 }
+    );
+  }
+}
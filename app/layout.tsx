@@ -2,6 +2,10 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { AuthProvider } from "@/contexts/auth-context";
+import { FavoritesProvider } from "@/contexts/favorites-context";
+import { ChatHistoryProvider } from "@/contexts/chat-history-context";
+import { LocaleProvider } from "@/contexts/locale-context";
+import { APP_INFO } from "@/lib/constants";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -14,6 +18,7 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
+  metadataBase: new URL(APP_INFO.SITE_URL),
   title: "Tokyo Halal Map - Find Halal Restaurants in Japan",
   description: "AI-powered search for certified halal restaurants in Tokyo and across Japan. Find ramen, yakiniku, sushi and more.",
 };
@@ -28,9 +33,15 @@ export default function RootLayout({
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        <AuthProvider>
-          {children}
-        </AuthProvider>
+        <LocaleProvider>
+          <AuthProvider>
+            <FavoritesProvider>
+              <ChatHistoryProvider>
+                {children}
+              </ChatHistoryProvider>
+            </FavoritesProvider>
+          </AuthProvider>
+        </LocaleProvider>
       </body>
     </html>
   );
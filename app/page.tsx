@@ -1,18 +1,42 @@
-
-import { supabase } from '@/lib/supabase';
+import { unstable_cache } from 'next/cache';
+import { decodeViewState } from '@/lib/deep-link';
+import { MAP_CONFIG } from '@/lib/constants';
+import { fetchPlacesByIds, fetchTilePlaces } from '@/lib/place-tiles';
+import { Tile, tileKey, tilesForBounds, viewportBounds } from '@/lib/tiles';
+import { Place } from '@/lib/types';
 import MapWrapper from '@/components/map-wrapper';
 
-export const revalidate = 3600; // Revalidate every hour
+// The page reads query params (deep links), so cache each tile's places for an hour
+const getTilePlaces = unstable_cache(
+  async (tile: Tile) => fetchTilePlaces(tile),
+  ['place-tile'],
+  { revalidate: 3600 }
+);
+
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  // Restore filters, selected place and viewport from a shared link
+  const initialView = decodeViewState(await searchParams);
+
+  // Server-render only the places in the initial viewport; the map loads more tiles as it moves
+  const zoom = initialView.zoom ?? MAP_CONFIG.DEFAULT_ZOOM;
+  const tiles = tilesForBounds(viewportBounds(initialView.center ?? MAP_CONFIG.DEFAULT_CENTER, zoom), zoom);
 
-export default async function Home() {
-  // Fetch data server-side
-  const { data: places, error } = await supabase
-    .from('places')
-    .select('*')
-    .not('lat', 'is', null)
-    .not('lng', 'is', null);
+  let initialPlaces: Place[];
+  let initialTileKeys: string[];
+  try {
+    const results = await Promise.all(tiles.map((tile) => getTilePlaces(tile)));
+    initialPlaces = results.flatMap((result) => result.places);
+    initialTileKeys = tiles.filter((_, i) => results[i].complete).map(tileKey);
 
-  if (error) {
+    // A deep-linked place may sit outside the initial viewport
+    if (initialView.placeId && !initialPlaces.some((p) => p.id === initialView.placeId)) {
+      initialPlaces.push(...(await fetchPlacesByIds([initialView.placeId])));
+    }
+  } catch (error) {
     console.error('Error fetching places:', error);
     return <div>Error loading data.</div>;
   }
@@ -20,7 +44,7 @@ export default async function Home() {
   return (
     <main className="flex min-h-screen flex-col items-center justify-between">
       <div className="z-10 w-full items-center justify-between font-mono text-sm">
-        <MapWrapper initialPlaces={places || []} />
+        <MapWrapper initialPlaces={initialPlaces} initialTileKeys={initialTileKeys} initialView={initialView} />
       </div>
 
     </main>
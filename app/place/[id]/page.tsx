@@ -0,0 +1,177 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { MapPin, Phone, Globe, Utensils, Clock, ArrowLeft } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { APP_INFO, getHalalStatusConfig } from '@/lib/constants';
+import { parseOpeningHours } from '@/lib/opening-hours';
+import { buildRestaurantJsonLd, describePlace, getPlaceUrl, WEEKDAY_LABELS } from '@/lib/place-seo';
+import { isUuid, safeHttpUrl } from '@/lib/utils';
+import { Weekday } from '@/lib/types';
+import PlacePageMap from '@/components/place-page-map';
+
+export const revalidate = 3600; // Revalidate every hour
+
+// Shared between generateMetadata and the page within one request
+const getPlace = cache(async (id: string) => {
+  if (!isUuid(id)) return null;
+
+  const { data, error } = await supabase.from('places').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data;
+});
+
+export async function generateMetadata({ params }: { params: Promise<{ id: string }> }): Promise<Metadata> {
+  const { id } = await params;
+  const place = await getPlace(id).catch(() => null);
+  if (!place) return { title: APP_INFO.NAME };
+
+  const title = `${place.name} - Halal ${place.cuisine_subtype || place.cuisine_category || 'Restaurant'} | ${APP_INFO.NAME}`;
+  const description = describePlace(place);
+
+  return {
+    title,
+    description,
+    alternates: { canonical: getPlaceUrl(place) },
+    openGraph: {
+      type: 'website',
+      title,
+      description,
+      url: getPlaceUrl(place),
+      siteName: APP_INFO.NAME,
+    },
+    twitter: { card: 'summary', title, description },
+  };
+}
+
+export default async function PlacePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  let place;
+  try {
+    place = await getPlace(id);
+  } catch (e) {
+    console.error('Error fetching place:', e);
+    return <div>Error loading place.</div>;
+  }
+  if (!place) notFound();
+
+  const statusConfig = getHalalStatusConfig(place.halal_status, place.verification_issue);
+  const hours = parseOpeningHours(place.opening_hours);
+  const jsonLd = JSON.stringify(buildRestaurantJsonLd(place)).replace(/</g, '\\u003c');
+  const websiteUrl = safeHttpUrl(place.website_url);
+  const mapsUrl = safeHttpUrl(place.google_maps_url);
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: jsonLd }} />
+
+      <div className="max-w-3xl mx-auto p-6">
+        <Link href={`/?place=${place.id}`} className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline mb-4">
+          <ArrowLeft className="w-4 h-4" />
+          View on the map
+        </Link>
+
+        <article className="bg-white rounded-2xl shadow-sm overflow-hidden">
+          <div className="h-64 bg-gray-200">
+            <PlacePageMap place={place} />
+          </div>
+
+          <div className="p-6 space-y-4">
+            <header>
+              <h1 className="text-2xl font-bold text-gray-900">{place.name}</h1>
+              <p className="text-gray-600 flex items-center gap-1 mt-1">
+                <Utensils className="w-4 h-4" />
+                {[place.cuisine_subtype, place.cuisine_category].filter(Boolean).join(' · ') || 'Restaurant'}
+                {place.price_level && <span className="ml-2 text-gray-500">{place.price_level}</span>}
+              </p>
+            </header>
+
+            {/* Halal status */}
+            <div
+              className="rounded-xl p-4 border"
+              style={{ backgroundColor: `${statusConfig.color}14`, borderColor: statusConfig.borderColor }}
+            >
+              <span
+                className="inline-block px-2.5 py-0.5 rounded-full text-xs font-semibold text-white"
+                style={{ backgroundColor: statusConfig.color }}
+              >
+                {statusConfig.label}
+              </span>
+              <p className="text-sm text-gray-700 mt-2">{statusConfig.description}</p>
+            </div>
+
+            <dl className="space-y-3 text-sm text-gray-700">
+              {place.address && (
+                <div className="flex gap-3">
+                  <dt><MapPin className="w-4 h-4 text-gray-400 mt-0.5" aria-label="Address" /></dt>
+                  <dd>{place.address}</dd>
+                </div>
+              )}
+              {place.phone && (
+                <div className="flex gap-3">
+                  <dt><Phone className="w-4 h-4 text-gray-400 mt-0.5" aria-label="Phone" /></dt>
+                  <dd><a href={`tel:${place.phone}`} className="text-blue-600 hover:underline">{place.phone}</a></dd>
+                </div>
+              )}
+              {websiteUrl && (
+                <div className="flex gap-3">
+                  <dt><Globe className="w-4 h-4 text-gray-400 mt-0.5" aria-label="Website" /></dt>
+                  <dd>
+                    <a href={websiteUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+                      {websiteUrl}
+                    </a>
+                  </dd>
+                </div>
+              )}
+              {hours && (
+                <div className="flex gap-3">
+                  <dt><Clock className="w-4 h-4 text-gray-400 mt-0.5" aria-label="Opening hours" /></dt>
+                  <dd>
+                    <table className="text-sm">
+                      <tbody>
+                        {(Object.keys(WEEKDAY_LABELS) as Weekday[]).map((day) => (
+                          <tr key={day}>
+                            <td className="pr-4 text-gray-500">{WEEKDAY_LABELS[day]}</td>
+                            <td>
+                              {hours.weekly[day]?.length
+                                ? hours.weekly[day]!.map((r) => `${r.open}–${r.close}`).join(', ')
+                                : 'Closed'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <p className="text-xs text-gray-400 mt-1">Japan time</p>
+                  </dd>
+                </div>
+              )}
+            </dl>
+
+            {place.tags && place.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1.5">
+                {place.tags.map((tag) => (
+                  <span key={tag} className="bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full text-xs">
+                    {tag}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {mapsUrl && (
+              <a
+                href={mapsUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-block px-4 py-2 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-700 transition"
+              >
+                Directions
+              </a>
+            )}
+          </div>
+        </article>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,9 @@
+import type { MetadataRoute } from 'next';
+import { APP_INFO } from '@/lib/constants';
+
+export default function robots(): MetadataRoute.Robots {
+  return {
+    rules: { userAgent: '*', allow: '/', disallow: ['/api/', '/admin/'] },
+    sitemap: new URL('/sitemap.xml', APP_INFO.SITE_URL).toString(),
+  };
+}
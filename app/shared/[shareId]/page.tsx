@@ -0,0 +1,41 @@
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getSharedCollection } from '@/lib/collections';
+import { APP_INFO } from '@/lib/constants';
+import SharedCollectionView from '@/components/shared-collection-view';
+
+export const dynamic = 'force-dynamic';
+
+// Shared between generateMetadata and the page within one request
+const loadSharedCollection = cache(getSharedCollection);
+
+export async function generateMetadata({ params }: { params: Promise<{ shareId: string }> }): Promise<Metadata> {
+  const { shareId } = await params;
+  const shared = await loadSharedCollection(shareId).catch(() => null);
+  if (!shared) return { title: APP_INFO.NAME };
+
+  return {
+    title: `${shared.collection.name} - ${APP_INFO.NAME}`,
+    description: shared.collection.notes || `${shared.places.length} halal-friendly places in Japan`,
+  };
+}
+
+export default async function SharedCollectionPage({ params }: { params: Promise<{ shareId: string }> }) {
+  const { shareId } = await params;
+
+  let shared;
+  try {
+    shared = await loadSharedCollection(shareId);
+  } catch (e) {
+    console.error('Error fetching shared list:', e);
+    return <div>Error loading list.</div>;
+  }
+  if (!shared) notFound();
+
+  return (
+    <main className="min-h-screen">
+      <SharedCollectionView collection={shared.collection} places={shared.places} />
+    </main>
+  );
+}
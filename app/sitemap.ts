@@ -0,0 +1,38 @@
+import type { MetadataRoute } from 'next';
+import { supabase } from '@/lib/supabase';
+import { API_CONFIG, APP_INFO } from '@/lib/constants';
+import { getPlaceUrl } from '@/lib/place-seo';
+
+export const revalidate = 3600; // Revalidate every hour
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const places: { id: string; created_at: string }[] = [];
+
+  // Paged, since a single response stops at DB_PAGE_SIZE rows
+  for (let from = 0; ; from += API_CONFIG.DB_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('places')
+      .select('id, created_at')
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + API_CONFIG.DB_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching places for sitemap:', error);
+      break;
+    }
+
+    places.push(...(data ?? []));
+    if (!data || data.length < API_CONFIG.DB_PAGE_SIZE) break;
+  }
+
+  return [
+    { url: APP_INFO.SITE_URL, changeFrequency: 'daily', priority: 1 },
+    ...places.map((place) => ({
+      url: getPlaceUrl(place),
+      lastModified: place.created_at,
+      changeFrequency: 'weekly' as const,
+      priority: 0.8,
+    })),
+  ];
+}
@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { X, Mail, Chrome, Loader2 } from 'lucide-react';
 import { useAuth } from '@/contexts/auth-context';
+import { useTranslation } from '@/contexts/locale-context';
 
 interface AuthModalProps {
   isOpen: boolean;
@@ -20,6 +21,7 @@ export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
   const [message, setMessage] = useState<string | null>(null);
 
   const { signInWithGoogle, signInWithEmail, signUpWithEmail } = useAuth();
+  const { t } = useTranslation();
 
   if (!isOpen) return null;
 
@@ -42,11 +44,11 @@ export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
         if (error) {
           setError(error.message);
         } else {
-          setMessage('Check your email for a confirmation link!');
+          setMessage(t('auth.checkEmail'));
         }
       }
     } catch {
-      setError('An unexpected error occurred');
+      setError(t('auth.error.unexpected'));
     } finally {
       setIsSubmitting(false);
     }
@@ -57,7 +59,7 @@ export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
     try {
       await signInWithGoogle();
     } catch {
-      setError('Failed to sign in with Google');
+      setError(t('auth.error.google'));
     }
   };
 
@@ -68,17 +70,16 @@ export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
         <div className="flex items-center justify-between p-4 border-b border-gray-100 bg-gradient-to-r from-blue-50 to-white">
           <div>
             <h2 className="text-lg font-semibold text-gray-800">
-              {mode === 'signin' ? 'Welcome Back' : 'Create Account'}
+              {mode === 'signin' ? t('auth.welcomeBack') : t('auth.createAccount')}
             </h2>
             <p className="text-xs text-gray-500">
-              {mode === 'signin'
-                ? 'Sign in to use the AI chat feature'
-                : 'Sign up to start finding halal food'}
+              {mode === 'signin' ? t('auth.signIn.subtitle') : t('auth.signUp.subtitle')}
             </p>
           </div>
           <button
             onClick={onClose}
             className="p-1.5 hover:bg-gray-100 rounded-full transition"
+            aria-label={t('common.close')}
           >
             <X className="w-5 h-5 text-gray-500" />
           </button>
@@ -107,14 +108,14 @@ export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
           >
             <Chrome className="w-5 h-5 text-blue-500" />
             <span className="text-sm font-medium text-gray-700">
-              Continue with Google
+              {t('auth.continueWithGoogle')}
             </span>
           </button>
 
           {/* Divider */}
           <div className="flex items-center gap-4 my-4">
             <div className="flex-1 h-px bg-gray-200" />
-            <span className="text-xs text-gray-400">or</span>
+            <span className="text-xs text-gray-400">{t('auth.or')}</span>
             <div className="flex-1 h-px bg-gray-200" />
           </div>
 
@@ -123,7 +124,7 @@ export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
             <div>
               <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1.5">
                 <Mail className="w-4 h-4 text-gray-400" />
-                Email
+                {t('auth.email')}
               </label>
               <input
                 type="email"
@@ -137,13 +138,13 @@ export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
 
             <div>
               <label className="text-sm font-medium text-gray-700 mb-1.5 block">
-                Password
+                {t('auth.password')}
               </label>
               <input
                 type="password"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
-                placeholder={mode === 'signup' ? 'Create a password' : 'Enter your password'}
+                placeholder={mode === 'signup' ? t('auth.password.create') : t('auth.password.enter')}
                 className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition"
                 required
                 minLength={6}
@@ -158,10 +159,10 @@ export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
               {isSubmitting ? (
                 <>
                   <Loader2 className="w-4 h-4 animate-spin" />
-                  {mode === 'signin' ? 'Signing in...' : 'Creating account...'}
+                  {mode === 'signin' ? t('auth.signingIn') : t('auth.creatingAccount')}
                 </>
               ) : (
-                mode === 'signin' ? 'Sign In' : 'Create Account'
+                mode === 'signin' ? t('auth.signIn') : t('auth.createAccount')
               )}
             </button>
           </form>
@@ -171,7 +172,7 @@ export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
         <div className="p-4 bg-gray-50 border-t border-gray-100 text-center">
           {mode === 'signin' ? (
             <p className="text-sm text-gray-600">
-              Don&apos;t have an account?{' '}
+              {t('auth.noAccount')}{' '}
               <button
                 onClick={() => {
                   setMode('signup');
@@ -180,12 +181,12 @@ export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
                 }}
                 className="text-blue-600 font-medium hover:underline"
               >
-                Sign up
+                {t('auth.signUp')}
               </button>
             </p>
           ) : (
             <p className="text-sm text-gray-600">
-              Already have an account?{' '}
+              {t('auth.haveAccount')}{' '}
               <button
                 onClick={() => {
                   setMode('signin');
@@ -194,7 +195,7 @@ export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
                 }}
                 className="text-blue-600 font-medium hover:underline"
               >
-                Sign in
+                {t('auth.signInLink')}
               </button>
             </p>
           )}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, MessageSquare, Pencil, Trash2, X } from 'lucide-react';
+import { ChatConversationSummary } from '@/lib/types';
+import { Locale } from '@/lib/i18n';
+import { useTranslation } from '@/contexts/locale-context';
+
+interface ChatHistoryPanelProps {
+  conversations: ChatConversationSummary[];
+  activeId: string | null;
+  isGuest: boolean;
+  onResume: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+function formatUpdatedAt(value: string, locale: Locale): string {
+  const date = new Date(value);
+  const today = new Date();
+  return date.toDateString() === today.toDateString()
+    ? date.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(locale, { month: 'short', day: 'numeric' });
+}
+
+/**
+ * Past chats, most recent first: resume, rename or delete
+ */
+export default function ChatHistoryPanel({ conversations, activeId, isGuest, onResume, onRename, onDelete }: ChatHistoryPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const { t, locale } = useTranslation();
+
+  const startRename = (conversation: ChatConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const submitRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingId && draftTitle.trim()) onRename(editingId, draftTitle);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4">
+      {isGuest && (
+        <p className="text-xs text-gray-500 mb-3">{t('history.guestNote')}</p>
+      )}
+
+      {conversations.length === 0 ? (
+        <p className="text-center text-gray-400 text-sm mt-8">{t('history.empty')}</p>
+      ) : (
+        <ul className="space-y-1">
+          {conversations.map((conversation) => (
+            <li
+              key={conversation.id}
+              className={`group flex items-center gap-2 rounded-xl px-3 py-2 ${
+                conversation.id === activeId ? 'bg-blue-50 border border-blue-100' : 'hover:bg-gray-50 border border-transparent'
+              }`}
+            >
+              <MessageSquare className="w-4 h-4 text-gray-400 shrink-0" />
+
+              {editingId === conversation.id ? (
+                <form onSubmit={submitRename} className="flex-1 flex items-center gap-1">
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Escape' && setEditingId(null)}
+                    maxLength={100}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm rounded-lg border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-200"
+                    aria-label={t('history.chatTitle')}
+                  />
+                  <button type="submit" className="p-1 text-blue-600 hover:bg-blue-100 rounded-full" title={t('history.saveTitle')}>
+                    <Check className="w-3.5 h-3.5" />
+                  </button>
+                  <button type="button" onClick={() => setEditingId(null)} className="p-1 text-gray-400 hover:bg-gray-100 rounded-full" title={t('common.cancel')}>
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <button onClick={() => onResume(conversation.id)} className="flex-1 min-w-0 text-start">
+                    <div className="text-sm text-gray-800 truncate">{conversation.title}</div>
+                    <div className="text-[11px] text-gray-400">{formatUpdatedAt(conversation.updated_at, locale)}</div>
+                  </button>
+                  <button
+                    onClick={() => startRename(conversation)}
+                    className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100 transition"
+                    title={t('history.rename')}
+                  >
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => onDelete(conversation.id)}
+                    className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100 transition"
+                    title={t('common.delete')}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
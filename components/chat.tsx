@@ -1,19 +1,33 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
-import { Send, Sparkles, Trash2, MapPin, MessageCircle } from 'lucide-react';
-import { Place, PlaceFilter, ChatMessage } from '@/lib/types';
-import { API_CONFIG, APP_INFO, GUEST_CONFIG } from '@/lib/constants';
+import { useState, useRef, useEffect, useEffectEvent } from 'react';
+import { Send, Sparkles, SquarePen, MapPin, MessageCircle, History } from 'lucide-react';
+import { Place, PlaceFilter, ChatMessage, ChatAPIResponse, AssistantAction } from '@/lib/types';
+import { API_CONFIG, APP_INFO, GUEST_CONFIG, getHalalStatusConfig } from '@/lib/constants';
 import { hasNonEmptyValues, safeJsonParse } from '@/lib/utils';
+import { readSseEvents } from '@/lib/sse';
 import { guestQueries } from '@/lib/storage';
 import { useAuth } from '@/contexts/auth-context';
+import { useFavorites } from '@/contexts/favorites-context';
+import { useChatHistory } from '@/contexts/chat-history-context';
+import { useTranslation } from '@/contexts/locale-context';
+import { MessageKey } from '@/lib/i18n';
 import AuthModal from './auth-modal';
+import ChatHistoryPanel from './chat-history-panel';
 
 interface PlaceWithRating extends Place {
   google_rating?: number;
   google_ratings_total?: number;
 }
 
+// Server quota errors, shown in the interface language
+const QUOTA_MESSAGES: Record<string, MessageKey> = {
+  guest_quota: 'chat.guestQuotaReached',
+  daily_quota: 'chat.dailyQuotaReached',
+};
+
+const QUICK_QUESTIONS: MessageKey[] = ['chat.quick.ramen', 'chat.quick.yakiniku', 'chat.quick.spicy', 'chat.quick.cheap'];
+
 interface ChatInterfaceProps {
   places: Place[];
   placesWithRatings: PlaceWithRating[];
@@ -27,31 +41,174 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [isRetrying, setIsRetrying] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [lastFilter, setLastFilter] = useState<PlaceFilter>({});
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [guestQueriesRemaining, setGuestQueriesRemaining] = useState<number>(GUEST_CONFIG.MAX_FREE_QUERIES);
+  const [showHistory, setShowHistory] = useState(false);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const restoredRef = useRef(false);
+  const savedSnapshotRef = useRef('');
 
   const { user, isLoading: authLoading } = useAuth();
+  const { t, locale } = useTranslation();
+  const favorites = useFavorites();
+  const history = useChatHistory();
+  const { activeId, load: loadConversation, save: saveConversation, setActiveId } = history;
+
+  // Reopen the active conversation after a reload or when the panel mounts again
+  // (the map already shows its filter, so only the chat itself is restored)
+  useEffect(() => {
+    if (authLoading || restoredRef.current) return;
+    restoredRef.current = true;
+    if (!activeId) return;
+
+    loadConversation(activeId).then((conversation) => {
+      if (!conversation) return;
+      savedSnapshotRef.current = JSON.stringify([conversation.messages, conversation.last_filter]);
+      setMessages(conversation.messages);
+      setLastFilter(conversation.last_filter);
+    });
+  }, [authLoading, activeId, loadConversation]);
+
+  // Save once each exchange has finished
+  useEffect(() => {
+    if (loading || !restoredRef.current || messages.length === 0) return;
+    const snapshot = JSON.stringify([messages, lastFilter]);
+    if (snapshot === savedSnapshotRef.current) return;
+    savedSnapshotRef.current = snapshot;
+    saveConversation(messages, lastFilter);
+  }, [messages, lastFilter, loading, saveConversation]);
 
   // Initialize guest query count from localStorage
   useEffect(() => {
     setGuestQueriesRemaining(guestQueries.getRemainingCount());
   }, []);
 
-  const handleClear = () => {
+  const resetChat = (next: { messages: ChatMessage[]; lastFilter: PlaceFilter }) => {
     // Abort any pending request
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
-    setMessages([]);
-    setLastFilter({});
+    savedSnapshotRef.current = JSON.stringify([next.messages, next.lastFilter]);
+    setMessages(next.messages);
+    setLastFilter(next.lastFilter);
     setLoading(false);
     setIsRetrying(false);
+  };
+
+  // Signing out ends the account's conversation; the guest starts a new one
+  const signedInUserRef = useRef<string | null>(null);
+  const endSignedOutChat = useEffectEvent(() => {
+    resetChat({ messages: [], lastFilter: {} });
+    setActiveId(null);
+    onFilterChange({});
+  });
+  useEffect(() => {
+    if (authLoading) return;
+    const previous = signedInUserRef.current;
+    signedInUserRef.current = user?.id ?? null;
+    if (previous && previous !== user?.id) endSignedOutChat();
+  }, [authLoading, user]);
+
+  // Start a new chat; the current one stays in the history
+  const handleClear = () => {
+    resetChat({ messages: [], lastFilter: {} });
+    setActiveId(null);
+    setShowHistory(false);
     onFilterChange({});
   };
 
+  // Continue a past chat, with the map back on its last search
+  const handleResume = async (id: string) => {
+    setShowHistory(false);
+    if (id === activeId) return;
+
+    const conversation = await loadConversation(id);
+    if (!conversation) return;
+    resetChat({ messages: conversation.messages, lastFilter: conversation.last_filter });
+    setActiveId(id);
+    onFilterChange(conversation.last_filter);
+  };
+
+  const handleDelete = (id: string) => {
+    if (id === activeId) resetChat({ messages: [], lastFilter: {} });
+    history.remove(id);
+  };
+
+  // Carry out UI actions the assistant requested through tool calls
+  const runActions = (actions: AssistantAction[] = []) => {
+    for (const action of actions) {
+      if (action.type === 'open_place_details') {
+        onSelectPlace(action.place_name);
+      } else if (action.type === 'add_to_favorites') {
+        const place = places.find((p) => p.name === action.place_name);
+        if (place) favorites.add(place.id);
+      }
+    }
+  };
+
+  /**
+   * Consume a streamed reply: apply the filter as soon as it arrives so the map
+   * updates while the message text is still being written.
+   */
+  const consumeReplyStream = async (body: ReadableStream<Uint8Array>) => {
+    let started = false;
+    let appliedFilter = false;
+    let content = '';
+
+    // The streamed reply is always the last message; create it on the first event
+    const updateReply = (patch: Partial<ChatMessage>) => {
+      const isFirst = !started;
+      started = true;
+      setIsStreaming(true);
+      setMessages((prev) =>
+        isFirst
+          ? [...prev, { role: 'assistant', content: '', ...patch }]
+          : [...prev.slice(0, -1), { ...prev[prev.length - 1], ...patch }]
+      );
+    };
+
+    const applyFilter = (filter: PlaceFilter) => {
+      if (appliedFilter || !hasNonEmptyValues(filter)) return;
+      appliedFilter = true;
+      onFilterChange(filter);
+      setLastFilter(filter);
+      updateReply({ showPlaces: true });
+    };
+
+    for await (const { event, data } of readSseEvents(body)) {
+      const payload = safeJsonParse<ChatAPIResponse & { delta?: string }>(data, {});
+
+      if (event === 'filter') {
+        applyFilter(payload.filter || {});
+      } else if (event === 'message' && payload.delta) {
+        content += payload.delta;
+        updateReply({ content });
+      } else if (event === 'error') {
+        throw new Error(payload.error || t('chat.error.generic'));
+      } else if (event === 'done') {
+        applyFilter(payload.filter || {});
+        const message = typeof payload.message === 'string' && payload.message.trim()
+          ? payload.message
+          : content.trim() || t('chat.mapUpdated');
+        updateReply({
+          content: message,
+          recommendedPlace: typeof payload.recommended_place === 'string' ? payload.recommended_place : undefined,
+        });
+        runActions(payload.actions);
+      }
+    }
+
+    if (!started) {
+      setMessages((prev) => [
+        ...prev,
+        { role: 'assistant', content: t('chat.error.noResponse') },
+      ]);
+    }
+  };
+
   const processMessage = async (messageMessages: ChatMessage[]) => {
     // Create new AbortController for this request
     abortControllerRef.current = new AbortController();
@@ -64,11 +221,14 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
       const placesContext = sourcePlaces.slice(0, API_CONFIG.MAX_DISPLAY_PLACES).map((p) => {
         const placeWithRating = p as PlaceWithRating;
         return {
+          id: p.id,
+          place_id: p.place_id,
           name: p.name,
           cuisine: p.cuisine_subtype || p.cuisine_category,
           city: p.city,
           price_level: p.price_level,
-          halal_status: p.halal_status,
+          // An expired or stale certification is described by its lowered status
+          halal_status: p.verification_issue ? getHalalStatusConfig(p.halal_status, p.verification_issue).value : p.halal_status,
           rating: placeWithRating.google_rating,
           reviews_count: placeWithRating.google_ratings_total,
         };
@@ -76,45 +236,69 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
 
       const response = await fetch('/api/chat', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
         body: JSON.stringify({
           messages: messageMessages.map((m) => ({ role: m.role, content: m.content })),
           context: { lastFilter, currentPlaces: placesContext },
+          locale,
         }),
         signal: abortControllerRef.current.signal,
       });
 
       clearTimeout(timeoutId);
 
+      // The server owns the guest quota; keep the local counter in step with it
+      const guestRemaining = response.headers.get('X-Guest-Queries-Remaining');
+      if (guestRemaining !== null) {
+        guestQueries.syncRemaining(Number(guestRemaining));
+        setGuestQueriesRemaining(guestQueries.getRemainingCount());
+      }
+
+      // Streamed reply (errors and rate limits still come back as JSON)
+      if (response.ok && response.body && response.headers.get('content-type')?.includes('text/event-stream')) {
+        await consumeReplyStream(response.body);
+        return;
+      }
+
       // Read raw text first so we can handle non-JSON server responses safely
       const rawText = await response.text();
 
       const data: Record<string, unknown> = safeJsonParse(rawText, {});
       if (Object.keys(data).length === 0 && rawText && rawText !== '{}') {
         console.error('API returned non-JSON response:', rawText);
-        throw new Error('Server returned an invalid response.');
+        throw new Error(t('chat.error.invalidResponse'));
       }
 
-      // Handle 429 retry logic
+      // Handle 429: quotas need sign-in or a later visit, short bursts are retried
       if (response.status === 429) {
+        if (data?.reason === 'guest_quota' || data?.reason === 'daily_quota') {
+          if (data.reason === 'guest_quota') {
+            guestQueries.syncRemaining(0);
+            setGuestQueriesRemaining(0);
+            setShowAuthModal(true);
+          }
+          setMessages((prev) => [...prev, { role: 'assistant', content: t(QUOTA_MESSAGES[data.reason as string]) }]);
+          return;
+        }
+
         const waitSeconds = (data?.retryAfter as number) || 10;
 
         setMessages((prev) => [
           ...prev,
-          { role: 'assistant', content: `Server overloaded. Retrying in ${waitSeconds}s...` },
+          { role: 'assistant', content: t('chat.retryingIn', { seconds: waitSeconds }) },
         ]);
 
         setIsRetrying(true);
         await new Promise((resolve) => setTimeout(resolve, waitSeconds * 1000));
         setIsRetrying(false);
 
-        setMessages((prev) => [...prev, { role: 'assistant', content: 'Retrying now...' }]);
+        setMessages((prev) => [...prev, { role: 'assistant', content: t('chat.retryingNow') }]);
         await processMessage(messageMessages);
         return;
       }
 
       if (!response.ok) {
-        throw new Error((data?.error as string) || `Failed to connect to AI service. (${response.status})`);
+        throw new Error((data?.error as string) || t('chat.error.connect', { status: response.status }));
       }
 
       // Parse response - support both formats
@@ -138,7 +322,7 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
         console.warn('Empty/invalid AI response object from API:', data);
         setMessages((prev) => [
           ...prev,
-          { role: 'assistant', content: "I didn't get a response. Please try again." },
+          { role: 'assistant', content: t('chat.error.noResponse') },
         ]);
         return;
       }
@@ -147,7 +331,7 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
       const filter = (parsed.filter || {}) as PlaceFilter;
       const message = typeof parsed.message === 'string' && (parsed.message as string).trim()
         ? (parsed.message as string)
-        : "Okay, I've updated the map.";
+        : t('chat.mapUpdated');
       const recommendedPlace = typeof parsed.recommended_place === 'string' ? parsed.recommended_place : undefined;
 
       // Check if filter has actual content (not empty)
@@ -169,24 +353,27 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
           recommendedPlace: recommendedPlace,
         },
       ]);
+
+      runActions(Array.isArray(parsed.actions) ? (parsed.actions as AssistantAction[]) : []);
     } catch (e: unknown) {
       const error = e as Error;
       if (error.name === 'AbortError') {
         setMessages((prev) => [
           ...prev,
-          { role: 'assistant', content: 'Request timed out. Please try again.' },
+          { role: 'assistant', content: t('chat.error.timeout') },
         ]);
       } else {
         console.error(error);
         setMessages((prev) => [
           ...prev,
-          { role: 'assistant', content: `Error: ${error.message || 'Something went wrong.'}` },
+          { role: 'assistant', content: t('chat.error.prefix', { message: error.message || t('chat.error.generic') }) },
         ]);
       }
     } finally {
       clearTimeout(timeoutId);
       setLoading(false);
       setIsRetrying(false);
+      setIsStreaming(false);
     }
   };
 
@@ -213,7 +400,7 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
       setMessages((prev) => [
         ...prev,
         { role: 'user', content: userMessage },
-        { role: 'assistant', content: "You've used all your free queries! Sign in for free to keep chatting and save your favorites." },
+        { role: 'assistant', content: t('chat.guestQuotaReached') },
       ]);
       setShowAuthModal(true);
       return;
@@ -242,7 +429,7 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
       setMessages((prev) => [
         ...prev,
         { role: 'user', content: question },
-        { role: 'assistant', content: "You've used all your free queries! Sign in for free to keep chatting and save your favorites." },
+        { role: 'assistant', content: t('chat.guestQuotaReached') },
       ]);
       setShowAuthModal(true);
       return;
@@ -264,20 +451,30 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
   return (
     <>
     <div className={`flex flex-col h-full bg-gradient-to-b from-white to-gray-50 z-50 ${
-      isMobile ? 'w-full' : 'w-96 border-l border-gray-200 shadow-2xl'
+      isMobile ? 'w-full' : 'w-96 border-s border-gray-200 shadow-2xl'
     }`}>
       <div className="p-4 border-b border-gray-100 flex items-center justify-between bg-gradient-to-r from-white/90 to-blue-50/50 backdrop-blur-md z-10 sticky top-0">
         <div>
           <h1 className="font-bold text-lg text-gray-900 leading-tight">{APP_INFO.NAME}</h1>
-          <p className="text-xs text-gray-500">{APP_INFO.DESCRIPTION}</p>
+          <p className="text-xs text-gray-500">{t('app.description')}</p>
         </div>
         <div className="flex gap-2 items-center">
+          <button
+            onClick={() => setShowHistory((show) => !show)}
+            className={`p-2 rounded-full transition ${
+              showHistory ? 'bg-blue-100 text-blue-600' : 'hover:bg-gray-100 text-gray-400 hover:text-blue-600'
+            }`}
+            title={t('chat.history')}
+            aria-pressed={showHistory}
+          >
+            <History className="w-4 h-4" />
+          </button>
           <button
             onClick={handleClear}
-            className="p-2 hover:bg-gray-100 rounded-full text-gray-400 hover:text-red-500 transition"
-            title="Clear Chat & Reset Map"
+            className="p-2 hover:bg-gray-100 rounded-full text-gray-400 hover:text-blue-600 transition"
+            title={t('chat.newChat')}
           >
-            <Trash2 className="w-4 h-4" />
+            <SquarePen className="w-4 h-4" />
           </button>
           <div className="bg-blue-50 p-2 rounded-full">
             <Sparkles className="w-4 h-4 text-blue-500" />
@@ -298,8 +495,8 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
             <MessageCircle className="w-3.5 h-3.5" />
             <span>
               {guestQueriesRemaining > 0
-                ? `${guestQueriesRemaining} free ${guestQueriesRemaining === 1 ? 'query' : 'queries'} left`
-                : 'Sign in for unlimited queries'}
+                ? t('chat.guestQueriesLeft', { count: guestQueriesRemaining })
+                : t('chat.signInForUnlimited')}
             </span>
           </div>
           <button
@@ -310,29 +507,34 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
                 : 'text-amber-700 hover:text-amber-800'
             }`}
           >
-            {guestQueriesRemaining > 0 ? 'Sign In' : 'Sign In Free'}
+            {guestQueriesRemaining > 0 ? t('auth.signIn') : t('chat.signInFree')}
           </button>
         </div>
       )}
 
+      {showHistory ? (
+        <ChatHistoryPanel
+          conversations={history.conversations}
+          activeId={activeId}
+          isGuest={!user}
+          onResume={handleResume}
+          onRename={history.rename}
+          onDelete={handleDelete}
+        />
+      ) : (
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.length === 0 && (
           <div className="mt-8 px-2">
-            <p className="text-center text-gray-400 text-sm mb-4">Ask me about halal food in Tokyo!</p>
+            <p className="text-center text-gray-400 text-sm mb-4">{t('chat.welcome')}</p>
             <div className="grid gap-2">
-              {[
-                'Best ramen in Shinjuku 🍜',
-                'Halal yakiniku near Shibuya 🥩',
-                'Spicy food in Tokyo 🌶️',
-                'Cheap lunch places 💴',
-              ].map((question, i) => (
+              {QUICK_QUESTIONS.map((key) => (
                 <button
-                  key={i}
-                  onClick={() => handleQuickQuestion(question)}
+                  key={key}
+                  onClick={() => handleQuickQuestion(t(key))}
                   disabled={isDisabled}
-                  className="p-3 bg-blue-50 hover:bg-blue-100 text-blue-700 text-sm rounded-xl transition text-left w-full border border-blue-100 hover:border-blue-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  className="p-3 bg-blue-50 hover:bg-blue-100 text-blue-700 text-sm rounded-xl transition text-start w-full border border-blue-100 hover:border-blue-200 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {question}
+                  {t(key)}
                 </button>
               ))}
             </div>
@@ -346,7 +548,7 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
           const displayPlaces = shouldShowPlaces
             ? places.slice(0, API_CONFIG.MAX_DISPLAY_PLACES).map((p) => ({
                 name: p.name,
-                cuisine: p.cuisine_subtype || p.cuisine_category || 'Halal',
+                cuisine: p.cuisine_subtype || p.cuisine_category || t('places.cuisineFallback'),
               }))
             : [];
 
@@ -358,20 +560,23 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
 
           return (
             <div key={i} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
-              <div
-                className={`max-w-[85%] rounded-2xl px-4 py-2 text-sm ${
-                  m.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800'
-                }`}
-              >
-                {m.content}
-              </div>
+              {/* Streamed replies can apply a filter before any text arrives */}
+              {m.content && (
+                <div
+                  className={`max-w-[85%] rounded-2xl px-4 py-2 text-sm whitespace-pre-wrap ${
+                    m.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800'
+                  }`}
+                >
+                  {m.content}
+                </div>
+              )}
 
               {/* Show recommended place card for follow-up answers */}
               {recommendedPlaceData && !m.showPlaces && (
                 <div className="mt-2 w-[85%]">
                   <button
                     onClick={() => onSelectPlace(recommendedPlaceData.name)}
-                    className="w-full text-left p-3 bg-blue-50 hover:bg-blue-100 border border-blue-200 rounded-xl transition flex items-start gap-3 group"
+                    className="w-full text-start p-3 bg-blue-50 hover:bg-blue-100 border border-blue-200 rounded-xl transition flex items-start gap-3 group"
                   >
                     <div className="bg-blue-100 p-2 rounded-lg group-hover:bg-blue-200 transition">
                       <MapPin className="w-5 h-5 text-blue-600" />
@@ -379,18 +584,18 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
                     <div className="flex-1 min-w-0">
                       <div className="text-sm font-semibold text-gray-900 truncate">{recommendedPlaceData.name}</div>
                       <div className="text-xs text-gray-600">
-                        {recommendedPlaceData.cuisine_subtype || recommendedPlaceData.cuisine_category || 'Halal'}
+                        {recommendedPlaceData.cuisine_subtype || recommendedPlaceData.cuisine_category || t('places.cuisineFallback')}
                         {recommendedPlaceData.city && ` • ${recommendedPlaceData.city}`}
                       </div>
                       {(recommendedPlaceData as PlaceWithRating).google_rating && (
                         <div className="text-xs text-yellow-600 font-medium mt-1">
                           ⭐ {(recommendedPlaceData as PlaceWithRating).google_rating}/5
                           {(recommendedPlaceData as PlaceWithRating).google_ratings_total &&
-                            ` (${(recommendedPlaceData as PlaceWithRating).google_ratings_total} reviews)`}
+                            ` (${t('places.reviews', { count: (recommendedPlaceData as PlaceWithRating).google_ratings_total! })})`}
                         </div>
                       )}
                     </div>
-                    <div className="text-blue-500 text-xs font-medium self-center">View →</div>
+                    <div className="text-blue-500 text-xs font-medium self-center">{t('common.view')}</div>
                   </button>
                 </div>
               )}
@@ -399,7 +604,7 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
               {m.showPlaces && placesLoading && (
                 <div className="mt-2 w-[85%] flex items-center gap-2 text-gray-500 text-sm py-2">
                   <div className="animate-spin rounded-full h-3 w-3 border-2 border-gray-400 border-t-transparent"></div>
-                  Loading places...
+                  {t('chat.loadingPlaces')}
                 </div>
               )}
 
@@ -415,7 +620,7 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
                       <button
                         key={idx}
                         onClick={() => onSelectPlace(place.name)}
-                        className="w-full text-left p-3 bg-blue-50 hover:bg-blue-100 border border-blue-200 rounded-xl transition flex items-start gap-3 group"
+                        className="w-full text-start p-3 bg-blue-50 hover:bg-blue-100 border border-blue-200 rounded-xl transition flex items-start gap-3 group"
                       >
                         <div className="bg-blue-100 p-2 rounded-lg group-hover:bg-blue-200 transition">
                           <MapPin className="w-5 h-5 text-blue-600" />
@@ -430,11 +635,11 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
                             <div className="text-xs text-yellow-600 font-medium mt-1">
                               ⭐ {placeWithRating.google_rating}/5
                               {placeWithRating.google_ratings_total &&
-                                ` (${placeWithRating.google_ratings_total} reviews)`}
+                                ` (${t('places.reviews', { count: placeWithRating.google_ratings_total })})`}
                             </div>
                           )}
                         </div>
-                        <div className="text-blue-500 text-xs font-medium self-center">View →</div>
+                        <div className="text-blue-500 text-xs font-medium self-center">{t('common.view')}</div>
                       </button>
                     );
                   })}
@@ -444,15 +649,16 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
           );
         })}
 
-        {loading && (
+        {loading && !isStreaming && (
           <div className="flex items-start">
             <div className="bg-gray-100 text-gray-700 rounded-2xl px-4 py-2 text-sm flex items-center gap-2">
               <div className="animate-spin rounded-full h-3 w-3 border-2 border-gray-400 border-t-transparent"></div>
-              {isRetrying ? 'Retrying...' : 'Thinking...'}
+              {isRetrying ? t('chat.retrying') : t('chat.thinking')}
             </div>
           </div>
         )}
       </div>
+      )}
 
       <form onSubmit={handleSubmit} className="p-4 border-t border-gray-100 bg-white">
         <div className="flex items-center gap-2">
@@ -461,11 +667,12 @@ export default function ChatInterface({ places, placesWithRatings, placesLoading
             onChange={(e) => setInput(e.target.value)}
             disabled={isDisabled}
             className="flex-1 px-4 py-2 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-200 text-sm disabled:bg-gray-50 disabled:cursor-not-allowed"
-            placeholder={isRetrying ? 'Please wait...' : 'Ask a question...'}
+            placeholder={isRetrying ? t('chat.pleaseWait') : t('chat.placeholder')}
           />
           <button
             type="submit"
             disabled={isDisabled}
+            aria-label={t('chat.send')}
             className="p-3 rounded-xl bg-blue-600 text-white hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
           >
             <Send className="w-4 h-4" />
@@ -1,64 +1,398 @@
 'use client';
 
-import { useMemo } from 'react';
-import { X, MapPin, Star } from 'lucide-react';
-import { Place } from '@/lib/types';
-import { favorites } from '@/lib/storage';
+import { useEffect, useEffectEvent, useMemo, useState } from 'react';
+import { X, MapPin, Star, CloudOff, Plus, Share2, Trash2, ChevronUp, ChevronDown, ListPlus, Pencil } from 'lucide-react';
+import { CollectionWithPlaces, CollectionResponse, CollectionsResponse, Place } from '@/lib/types';
+import { useAuth } from '@/contexts/auth-context';
+import { useFavorites } from '@/contexts/favorites-context';
+import { useTranslation } from '@/contexts/locale-context';
 
 interface FavoritesPanelProps {
   places: Place[];
+  onMissingPlaces?: (ids: string[]) => void; // Ask for saved places that aren't loaded on the map yet
   onSelectPlace: (place: Place) => void;
   onClose: () => void;
 }
 
-export default function FavoritesPanel({ places, onSelectPlace, onClose }: FavoritesPanelProps) {
+const FAVORITES_TAB = 'favorites';
+
+export default function FavoritesPanel({ places, onMissingPlaces, onSelectPlace, onClose }: FavoritesPanelProps) {
+  const { user } = useAuth();
+  const { favoriteIds, isSynced } = useFavorites();
+  const { t } = useTranslation();
+  const [collections, setCollections] = useState<CollectionWithPlaces[]>([]);
+  const [activeTab, setActiveTab] = useState<string>(FAVORITES_TAB);
+  const [newListName, setNewListName] = useState<string | null>(null);
+  const [addMenuFor, setAddMenuFor] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeCollection = collections.find((c) => c.id === activeTab) ?? null;
+
+  // Lists need an account; load them when the panel opens
+  useEffect(() => {
+    if (!user) return;
+
+    fetch('/api/collections')
+      .then(async (res) => {
+        const data: CollectionsResponse = await res.json();
+        if (!res.ok) throw new Error(data.error || t('favorites.error.load'));
+        setCollections(data.collections);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : t('favorites.error.load')));
+  }, [user, t]);
+
+  // Saved places outside the loaded map tiles
+  const missingIds = useMemo(() => {
+    const saved = new Set([...favoriteIds, ...(activeCollection?.places.map((p) => p.place_id) ?? [])]);
+    return [...saved].filter((id) => !places.some((p) => p.id === id));
+  }, [favoriteIds, activeCollection, places]);
+
+  // Only a change in the missing set asks again, not a new callback from the parent
+  const requestMissingPlaces = useEffectEvent((ids: string[]) => onMissingPlaces?.(ids));
+  const missingKey = missingIds.join(',');
+  useEffect(() => {
+    if (missingKey) requestMissingPlaces(missingKey.split(','));
+  }, [missingKey]);
+
   // Use useMemo instead of useState + useEffect to avoid cascading re-renders
   const favoritePlaces = useMemo(() => {
-    const favIds = favorites.getAll();
-    return places.filter(p => favIds.includes(p.id));
-  }, [places]);
+    return places.filter(p => favoriteIds.includes(p.id));
+  }, [places, favoriteIds]);
+
+  const listPlaces = useMemo(() => {
+    if (!activeCollection) return [];
+    const byId = new Map(places.map((p) => [p.id, p]));
+    return activeCollection.places.flatMap((item) => {
+      const place = byId.get(item.place_id);
+      return place ? [{ place, note: item.note }] : [];
+    });
+  }, [places, activeCollection]);
+
+  const replaceCollection = (collection: CollectionWithPlaces) => {
+    setCollections((prev) => prev.map((c) => (c.id === collection.id ? collection : c)));
+  };
+
+  const request = async (url: string, init: RequestInit): Promise<CollectionResponse> => {
+    setError(null);
+    const res = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json' } });
+    const data: CollectionResponse = await res.json();
+    if (!res.ok) throw new Error(data.error || t('chat.error.generic'));
+    return data;
+  };
+
+  const handleCreateList = async () => {
+    const name = newListName?.trim();
+    if (!name) return;
+
+    try {
+      const { collection } = await request('/api/collections', { method: 'POST', body: JSON.stringify({ name }) });
+      if (collection) {
+        setCollections((prev) => [...prev, collection]);
+        setActiveTab(collection.id);
+      }
+      setNewListName(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t('favorites.error.create'));
+    }
+  };
+
+  const updateList = async (collection: CollectionWithPlaces, fields: { name?: string; notes?: string | null }) => {
+    try {
+      const data = await request(`/api/collections/${collection.id}`, { method: 'PATCH', body: JSON.stringify(fields) });
+      if (data.collection) replaceCollection(data.collection);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t('favorites.error.update'));
+    }
+  };
+
+  const handleRename = (collection: CollectionWithPlaces) => {
+    const name = window.prompt(t('favorites.renameList'), collection.name)?.trim();
+    if (name && name !== collection.name) updateList(collection, { name });
+  };
+
+  const handleDelete = async (collection: CollectionWithPlaces) => {
+    if (!window.confirm(t('favorites.confirmDelete', { name: collection.name }))) return;
+
+    try {
+      await request(`/api/collections/${collection.id}`, { method: 'DELETE' });
+      setCollections((prev) => prev.filter((c) => c.id !== collection.id));
+      setActiveTab(FAVORITES_TAB);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : t('favorites.error.delete'));
+    }
+  };
+
+  // Save the full ordered list; the UI updates right away and rolls back on failure
+  const savePlaces = async (collection: CollectionWithPlaces, items: { place_id: string; note: string | null }[]) => {
+    replaceCollection({
+      ...collection,
+      places: items.map((item, position) => ({
+        collection_id: collection.id,
+        place_id: item.place_id,
+        note: item.note,
+        position,
+        created_at: collection.places.find((p) => p.place_id === item.place_id)?.created_at ?? new Date().toISOString(),
+      })),
+    });
+
+    try {
+      const data = await request(`/api/collections/${collection.id}/places`, {
+        method: 'PUT',
+        body: JSON.stringify({ places: items }),
+      });
+      if (data.collection) replaceCollection(data.collection);
+    } catch (e) {
+      replaceCollection(collection);
+      setError(e instanceof Error ? e.message : t('favorites.error.save'));
+    }
+  };
+
+  const itemsOf = (collection: CollectionWithPlaces) =>
+    collection.places.map((p) => ({ place_id: p.place_id, note: p.note }));
+
+  const addToList = (collection: CollectionWithPlaces, placeId: string) => {
+    setAddMenuFor(null);
+    if (collection.places.some((p) => p.place_id === placeId)) return;
+    savePlaces(collection, [...itemsOf(collection), { place_id: placeId, note: null }]);
+  };
+
+  const moveInList = (collection: CollectionWithPlaces, index: number, direction: number) => {
+    const items = itemsOf(collection);
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+    [items[index], items[target]] = [items[target], items[index]];
+    savePlaces(collection, items);
+  };
+
+  const editNote = (collection: CollectionWithPlaces, placeId: string) => {
+    const current = collection.places.find((p) => p.place_id === placeId)?.note ?? '';
+    const note = window.prompt(t('favorites.notePrompt'), current);
+    if (note === null || note === current) return;
+    savePlaces(collection, itemsOf(collection).map((item) => (item.place_id === placeId ? { ...item, note: note.trim() || null } : item)));
+  };
+
+  const removeFromList = (collection: CollectionWithPlaces, placeId: string) => {
+    savePlaces(collection, itemsOf(collection).filter((item) => item.place_id !== placeId));
+  };
+
+  const handleShare = async (collection: CollectionWithPlaces) => {
+    const url = `${window.location.origin}/shared/${collection.share_id}`;
+
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: collection.name, url });
+      } catch {
+        // User cancelled or share failed - copy to clipboard instead
+        await navigator.clipboard.writeText(url);
+        alert(t('more.linkCopied'));
+      }
+    } else {
+      await navigator.clipboard.writeText(url);
+      alert(t('more.linkCopied'));
+    }
+  };
+
+  const renderPlaceButton = (place: Place) => (
+    <button
+      onClick={() => {
+        onSelectPlace(place);
+        onClose();
+      }}
+      className="flex-1 min-w-0 text-start p-2 hover:bg-blue-50 rounded-xl transition flex items-start gap-3 group"
+    >
+      <div className="mt-1 bg-blue-100 p-1.5 rounded-full text-blue-600 group-hover:bg-blue-200 transition">
+        <MapPin className="w-3 h-3" />
+      </div>
+      <div className="min-w-0">
+        <div className="font-medium text-gray-900 group-hover:text-blue-700">{place.name}</div>
+        <div className="text-xs text-gray-500">{place.cuisine_subtype || place.cuisine_category}</div>
+      </div>
+    </button>
+  );
 
   return (
     <div className="absolute top-16 left-1/2 transform -translate-x-1/2 z-20 w-80 bg-white/95 backdrop-blur-md rounded-2xl shadow-2xl border border-white/20 flex flex-col max-h-[60vh] animate-in fade-in slide-in-from-top-4 duration-200">
       <div className="p-4 border-b border-gray-100 flex items-center justify-between bg-white/50 rounded-t-2xl">
         <h3 className="font-bold text-gray-800 flex items-center gap-2">
           <Star className="w-4 h-4 text-rose-500 fill-current" />
-          My Favorites
+          {t('favorites.title')}
         </h3>
-        <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded-full transition">
+        <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded-full transition" aria-label={t('common.close')}>
           <X className="w-4 h-4 text-gray-500" />
         </button>
       </div>
 
-      <div className="overflow-y-auto p-2">
-        {favoritePlaces.length === 0 ? (
-          <div className="p-8 text-center text-gray-400 text-sm">
-            <p>No favorites yet!</p>
-            <p className="text-xs mt-2">Click the heart icon on a place to save it.</p>
-          </div>
-        ) : (
-          <div className="space-y-1">
-            {favoritePlaces.map(place => (
-              <button
-                key={place.id}
-                onClick={() => {
-                  onSelectPlace(place);
-                  onClose();
-                }}
-                className="w-full text-left p-2 hover:bg-blue-50 rounded-xl transition flex items-start gap-3 group"
-              >
-                <div className="mt-1 bg-blue-100 p-1.5 rounded-full text-blue-600 group-hover:bg-blue-200 transition">
-                  <MapPin className="w-3 h-3" />
-                </div>
-                <div>
-                  <div className="font-medium text-gray-900 group-hover:text-blue-700">{place.name}</div>
-                  <div className="text-xs text-gray-500">{place.cuisine_subtype || place.cuisine_category}</div>
-                </div>
-              </button>
-            ))}
-          </div>
+      {/* List switcher */}
+      <div className="px-3 py-2 border-b border-gray-100 flex gap-1.5 overflow-x-auto">
+        {[{ id: FAVORITES_TAB, name: t('favorites.all') }, ...collections].map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`px-3 py-1 text-xs font-medium rounded-full border whitespace-nowrap transition ${
+              activeTab === tab.id
+                ? 'bg-blue-100 border-blue-300 text-blue-800'
+                : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {tab.name}
+          </button>
+        ))}
+        {user && (
+          <button
+            onClick={() => setNewListName('')}
+            className="px-2 py-1 text-xs font-medium rounded-full border border-dashed border-gray-300 text-gray-600 hover:bg-gray-50 flex items-center gap-1 whitespace-nowrap"
+            title={t('favorites.newList')}
+          >
+            <Plus className="w-3 h-3" />
+            {t('favorites.newList')}
+          </button>
         )}
       </div>
+
+      {newListName !== null && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCreateList();
+          }}
+          className="px-3 py-2 border-b border-gray-100 flex gap-2"
+        >
+          <input
+            autoFocus
+            value={newListName}
+            onChange={(e) => setNewListName(e.target.value)}
+            placeholder={t('favorites.newList.placeholder')}
+            maxLength={100}
+            className="flex-1 px-2 py-1 text-sm border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button type="submit" className="px-3 py-1 text-xs font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+            {t('favorites.create')}
+          </button>
+          <button type="button" onClick={() => setNewListName(null)} className="p-1 text-gray-400 hover:text-gray-600" aria-label={t('common.cancel')}>
+            <X className="w-4 h-4" />
+          </button>
+        </form>
+      )}
+
+      {user && !isSynced && (
+        <div className="px-4 py-2 text-xs text-amber-700 bg-amber-50 flex items-center gap-2">
+          <CloudOff className="w-3 h-3" />
+          {t('favorites.offline')}
+        </div>
+      )}
+
+      {error && (
+        <div className="px-4 py-2 text-xs text-red-700 bg-red-50">{error}</div>
+      )}
+
+      {activeCollection ? (
+        <>
+          <div className="px-4 py-2 border-b border-gray-100">
+            <div className="flex items-center gap-1">
+              <span className="flex-1 font-medium text-sm text-gray-800 truncate">{activeCollection.name}</span>
+              <button onClick={() => handleShare(activeCollection)} className="p-1.5 hover:bg-gray-100 rounded-full" title={t('favorites.shareList')}>
+                <Share2 className="w-3.5 h-3.5 text-gray-600" />
+              </button>
+              <button onClick={() => handleRename(activeCollection)} className="p-1.5 hover:bg-gray-100 rounded-full" title={t('favorites.renameList')}>
+                <Pencil className="w-3.5 h-3.5 text-gray-600" />
+              </button>
+              <button onClick={() => handleDelete(activeCollection)} className="p-1.5 hover:bg-red-50 rounded-full" title={t('favorites.deleteList')}>
+                <Trash2 className="w-3.5 h-3.5 text-red-500" />
+              </button>
+            </div>
+            <textarea
+              key={activeCollection.id}
+              defaultValue={activeCollection.notes ?? ''}
+              onBlur={(e) => {
+                const notes = e.target.value.trim() || null;
+                if (notes !== activeCollection.notes) updateList(activeCollection, { notes });
+              }}
+              placeholder={t('favorites.listNotes')}
+              rows={2}
+              maxLength={1000}
+              className="mt-1 w-full text-xs text-gray-600 bg-transparent resize-none focus:outline-none focus:bg-white focus:ring-1 focus:ring-blue-300 rounded p-1"
+            />
+          </div>
+
+          <div className="overflow-y-auto p-2">
+            {listPlaces.length === 0 ? (
+              <div className="p-8 text-center text-gray-400 text-sm">
+                <p>{t('favorites.listEmpty')}</p>
+                <p className="text-xs mt-2">{t('favorites.listEmpty.hint')}</p>
+              </div>
+            ) : (
+              <div className="space-y-1">
+                {listPlaces.map(({ place, note }, index) => (
+                  <div key={place.id} className="flex items-start gap-1">
+                    <div className="flex-1 min-w-0">
+                      {renderPlaceButton(place)}
+                      <button
+                        onClick={() => editNote(activeCollection, place.id)}
+                        className="ms-11 -mt-1 mb-1 text-xs text-start text-gray-500 italic hover:text-blue-600"
+                      >
+                        {note || t('favorites.addNote')}
+                      </button>
+                    </div>
+                    <div className="flex flex-col pt-1">
+                      <button onClick={() => moveInList(activeCollection, index, -1)} disabled={index === 0} className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30" title={t('favorites.moveUp')}>
+                        <ChevronUp className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => moveInList(activeCollection, index, 1)} disabled={index === listPlaces.length - 1} className="p-0.5 text-gray-400 hover:text-gray-700 disabled:opacity-30" title={t('favorites.moveDown')}>
+                        <ChevronDown className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <button onClick={() => removeFromList(activeCollection, place.id)} className="p-1.5 mt-1 text-gray-400 hover:text-red-500" title={t('favorites.removeFromList')}>
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      ) : (
+        <div className="overflow-y-auto p-2">
+          {favoritePlaces.length === 0 ? (
+            <div className="p-8 text-center text-gray-400 text-sm">
+              <p>{t('favorites.empty')}</p>
+              <p className="text-xs mt-2">{t('favorites.empty.hint')}</p>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {favoritePlaces.map(place => (
+                <div key={place.id} className="relative flex items-start gap-1">
+                  {renderPlaceButton(place)}
+                  {collections.length > 0 && (
+                    <button
+                      onClick={() => setAddMenuFor(addMenuFor === place.id ? null : place.id)}
+                      className="p-1.5 mt-1.5 text-gray-400 hover:text-blue-600"
+                      title={t('favorites.addToList')}
+                    >
+                      <ListPlus className="w-4 h-4" />
+                    </button>
+                  )}
+                  {addMenuFor === place.id && (
+                    <div className="absolute end-0 top-9 z-10 w-44 bg-white rounded-xl shadow-lg border border-gray-100 py-1">
+                      {collections.map((collection) => (
+                        <button
+                          key={collection.id}
+                          onClick={() => addToList(collection, place.id)}
+                          className="w-full text-start px-3 py-1.5 text-xs text-gray-700 hover:bg-blue-50 truncate"
+                        >
+                          {collection.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+          {!user && (
+            <p className="px-2 pt-2 text-xs text-gray-400 text-center">{t('favorites.signInForLists')}</p>
+          )}
+        </div>
+      )}
     </div>
   );
 }
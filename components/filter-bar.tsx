@@ -1,56 +1,210 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { X, Utensils, Shield, Clock, Wine } from 'lucide-react';
-import { PlaceFilter } from '@/lib/types';
-import { HALAL_STATUS } from '@/lib/constants';
+import { useState, useEffect, useRef } from 'react';
+import { X, Utensils, Shield, Clock, LocateFixed, Search, MapPin, Map as MapIcon, Banknote, Tags, Check, Ban } from 'lucide-react';
+import { AutocompleteResponse, AutocompleteSuggestion, FacetField, FacetsResponse, PlaceFilter } from '@/lib/types';
+import { CERTIFYING_BODIES, GEO_CONFIG, SEARCH_CONFIG, getHalalStatusConfig } from '@/lib/constants';
+import { UNVERIFIED_HALAL_STATUS } from '@/lib/facets';
+import { MessageKey, Translate, halalFlagMessage, halalStatusMessages } from '@/lib/i18n';
+import { useTranslation } from '@/contexts/locale-context';
 
 interface FilterBarProps {
   activeFilters: PlaceFilter;
   onFilterChange: (filter: PlaceFilter) => void;
+  onSelectPlace?: (placeId: string) => void; // A place picked from search suggestions
 }
 
-// Available cuisine types for quick filtering
-const CUISINE_OPTIONS = [
-  { value: 'Ramen', label: 'Ramen', emoji: '🍜' },
-  { value: 'Yakiniku', label: 'Yakiniku', emoji: '🥩' },
-  { value: 'Sushi', label: 'Sushi', emoji: '🍣' },
-  { value: 'Curry', label: 'Curry', emoji: '🍛' },
-  { value: 'Indian', label: 'Indian', emoji: '🫓' },
-  { value: 'Middle Eastern', label: 'Middle Eastern', emoji: '🧆' },
+// Facet dropdowns, filled from /api/places/facets. `legacy` are the loosely matched fields
+// the assistant may set, shown as active on the same chip.
+const FACET_MENUS: {
+  id: string;
+  label: MessageKey;
+  icon: React.ReactNode;
+  color: FilterChipProps['color'];
+  sections: { field: FacetField; title?: MessageKey }[];
+  legacy: (keyof PlaceFilter)[];
+}[] = [
+  {
+    id: 'halal',
+    label: 'filters.halal',
+    icon: <Shield className="w-3.5 h-3.5" />,
+    color: 'green',
+    sections: [
+      { field: 'halal_statuses', title: 'filters.halal.status' },
+      { field: 'certifying_bodies', title: 'filters.halal.body' },
+      { field: 'halal_flags', title: 'filters.halal.flags' },
+    ],
+    legacy: ['halal_status'],
+  },
+  {
+    id: 'cuisine',
+    label: 'filters.cuisine',
+    icon: <Utensils className="w-3.5 h-3.5" />,
+    color: 'blue',
+    sections: [{ field: 'cuisine_categories', title: 'filters.cuisine.category' }, { field: 'cuisine_subtypes', title: 'filters.cuisine.dish' }],
+    legacy: ['cuisine_category', 'cuisine_subtype', 'cuisines'],
+  },
+  {
+    id: 'area',
+    label: 'filters.area',
+    icon: <MapIcon className="w-3.5 h-3.5" />,
+    color: 'blue',
+    sections: [{ field: 'cities' }],
+    legacy: ['keyword'],
+  },
+  {
+    id: 'price',
+    label: 'filters.price',
+    icon: <Banknote className="w-3.5 h-3.5" />,
+    color: 'amber',
+    sections: [{ field: 'price_levels' }],
+    legacy: ['price_level'],
+  },
+  {
+    id: 'features',
+    label: 'filters.features',
+    icon: <Tags className="w-3.5 h-3.5" />,
+    color: 'purple',
+    sections: [{ field: 'tags' }],
+    legacy: ['tag'],
+  },
 ];
 
-export default function FilterBar({ activeFilters, onFilterChange }: FilterBarProps) {
-  const [showCuisineMenu, setShowCuisineMenu] = useState(false);
+function facetValueLabel(field: FacetField, value: string, t: Translate): string {
+  if (field === 'halal_statuses') return t(halalStatusMessages(value === UNVERIFIED_HALAL_STATUS ? null : value).label);
+  if (field === 'halal_flags') {
+    const key = halalFlagMessage(value);
+    return key ? t(key) : value;
+  }
+  if (field === 'certifying_bodies') return CERTIFYING_BODIES[value] ?? value;
+  if (field === 'tags') return value.replace(/-/g, ' ');
+  return value;
+}
+
+export default function FilterBar({ activeFilters, onFilterChange, onSelectPlace }: FilterBarProps) {
+  const [openMenu, setOpenMenu] = useState<string | null>(null);
+  const [facets, setFacets] = useState<FacetsResponse['facets']>({});
+  const [isLocating, setIsLocating] = useState(false);
+  const [locationError, setLocationError] = useState(false);
+  const { t, locale } = useTranslation();
 
   // Check if any filter is active
   const hasActiveFilters = Object.values(activeFilters).some(v => v !== null && v !== undefined && v !== '');
 
-  // Close cuisine menu when clicking outside
+  // Close facet menus when clicking outside
   useEffect(() => {
-    const handleClickOutside = () => setShowCuisineMenu(false);
-    if (showCuisineMenu) {
+    const handleClickOutside = () => setOpenMenu(null);
+    if (openMenu) {
       document.addEventListener('click', handleClickOutside);
       return () => document.removeEventListener('click', handleClickOutside);
     }
-  }, [showCuisineMenu]);
+  }, [openMenu]);
 
-  const toggleFilter = (key: keyof PlaceFilter, value: string | null) => {
+  // Facet values and counts follow the active filter
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch('/api/places/facets', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ filter: activeFilters }),
+        });
+        const data: FacetsResponse = await res.json();
+        if (!res.ok) throw new Error(data.error || res.statusText);
+        if (!cancelled) setFacets(data.facets);
+      } catch (e) {
+        console.error('Failed to load filter facets:', e);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeFilters]);
+
+  const toggleFilter = (key: keyof PlaceFilter, value: string | boolean | null) => {
     const newFilters: PlaceFilter = { ...activeFilters };
     if (newFilters[key] === value) {
       // Toggle off if already selected
       delete newFilters[key];
     } else {
-      // Type-safe assignment
-      if (key === 'search_terms') {
-        // search_terms is string[], handled separately
-        return;
-      }
       (newFilters as Record<string, string | boolean | null | undefined>)[key] = value;
     }
     onFilterChange(newFilters);
   };
 
+  // Add or remove one value of a multi-select facet
+  const toggleFacetValue = (field: FacetField, value: string) => {
+    const selected = activeFilters[field] ?? [];
+    const values = selected.includes(value) ? selected.filter((v) => v !== value) : [...selected, value];
+    const newFilters: PlaceFilter = { ...activeFilters, [field]: values };
+    if (values.length === 0) delete newFilters[field];
+    onFilterChange(newFilters);
+  };
+
+  const clearMenu = (menu: (typeof FACET_MENUS)[number]) => {
+    const newFilters: PlaceFilter = { ...activeFilters };
+    for (const { field } of menu.sections) delete newFilters[field];
+    for (const key of menu.legacy) delete newFilters[key];
+    onFilterChange(newFilters);
+  };
+
+  // Toggle a radius search around the user's current position
+  const toggleNearMe = () => {
+    if (activeFilters.near) {
+      const newFilters: PlaceFilter = { ...activeFilters };
+      delete newFilters.near;
+      onFilterChange(newFilters);
+      return;
+    }
+
+    if (!navigator.geolocation) {
+      setLocationError(true);
+      return;
+    }
+
+    setIsLocating(true);
+    setLocationError(false);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        onFilterChange({
+          ...activeFilters,
+          near: {
+            lat: position.coords.latitude,
+            lng: position.coords.longitude,
+            radius_m: GEO_CONFIG.DEFAULT_RADIUS_M,
+          },
+        });
+      },
+      (err) => {
+        console.error('Geolocation failed:', err);
+        setIsLocating(false);
+        setLocationError(true);
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  // Places open directly; areas and cuisines replace the typed query with a filter
+  const applySuggestion = (suggestion: AutocompleteSuggestion) => {
+    if (suggestion.type === 'place') {
+      onSelectPlace?.(suggestion.id);
+      return;
+    }
+
+    const field: FacetField = suggestion.type === 'area' ? 'cities' : 'cuisine_subtypes';
+    const selected = activeFilters[field] ?? [];
+    const newFilters: PlaceFilter = {
+      ...activeFilters,
+      [field]: selected.includes(suggestion.label) ? selected : [...selected, suggestion.label],
+    };
+    delete newFilters.query;
+    onFilterChange(newFilters);
+  };
+
+  const excluded = Object.values(activeFilters.exclude ?? {}).flat();
+
   const clearFilters = () => {
     onFilterChange({});
   };
@@ -64,74 +218,124 @@ export default function FilterBar({ activeFilters, onFilterChange }: FilterBarPr
 
   return (
     <div className="absolute top-16 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 flex-wrap justify-center max-w-[90vw] md:max-w-none">
-      {/* Halal Certified Only */}
-      <FilterChip
-        active={isFilterActive('halal_status', HALAL_STATUS.CERTIFIED.value)}
-        onClick={() => toggleFilter('halal_status' as keyof PlaceFilter, HALAL_STATUS.CERTIFIED.value)}
-        icon={<Shield className="w-3.5 h-3.5" />}
-        label="Certified Only"
-        color="green"
+      {/* Free-text search - fuzzy, understands kana and romaji */}
+      <SearchBox
+        key={activeFilters.query ?? ''}
+        initialQuery={activeFilters.query ?? ''}
+        onSearch={(query) => {
+          const newFilters: PlaceFilter = { ...activeFilters, query };
+          if (!query) delete newFilters.query;
+          onFilterChange(newFilters);
+        }}
+        onSelectSuggestion={applySuggestion}
       />
 
-      {/* Cuisine Type Dropdown */}
-      <div className="relative">
-        <FilterChip
-          active={isFilterActive('cuisine_subtype') || isFilterActive('cuisine_category')}
-          onClick={(e) => {
-            e.stopPropagation();
-            setShowCuisineMenu(!showCuisineMenu);
-          }}
-          icon={<Utensils className="w-3.5 h-3.5" />}
-          label={
-            activeFilters.cuisine_subtype ||
-            activeFilters.cuisine_category ||
-            'Cuisine'
-          }
-          color="blue"
-          hasDropdown
-        />
-
-        {showCuisineMenu && (
-          <div
-            className="absolute top-full left-0 mt-1 bg-white rounded-xl shadow-lg border border-gray-200 py-1 min-w-[160px] z-20"
-            onClick={(e) => e.stopPropagation()}
-          >
-            {CUISINE_OPTIONS.map((cuisine) => (
-              <button
-                key={cuisine.value}
-                onClick={() => {
-                  toggleFilter('cuisine_subtype' as keyof PlaceFilter, cuisine.value);
-                  setShowCuisineMenu(false);
-                }}
-                className={`w-full text-left px-3 py-2 text-sm hover:bg-gray-50 flex items-center gap-2 ${
-                  activeFilters.cuisine_subtype === cuisine.value ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
-                }`}
+      {/* Facet dropdowns - multi-select, with counts under the current filter */}
+      {FACET_MENUS.map((menu) => {
+        const selected = menu.sections.flatMap(({ field }) =>
+          (activeFilters[field] ?? []).map((value) => facetValueLabel(field, value, t))
+        );
+        const legacyValues = menu.legacy.flatMap((key) => {
+          const value = activeFilters[key];
+          if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+          return typeof value === 'string' && value ? [value] : [];
+        });
+        const labels = [...selected, ...legacyValues];
+
+        return (
+          <div key={menu.id} className="relative">
+            <FilterChip
+              active={labels.length > 0}
+              onClick={(e) => {
+                e.stopPropagation();
+                setOpenMenu(openMenu === menu.id ? null : menu.id);
+              }}
+              icon={menu.icon}
+              label={labels.length === 0 ? t(menu.label) : labels.length === 1 ? labels[0] : `${labels[0]} +${labels.length - 1}`}
+              color={menu.color}
+              hasDropdown
+            />
+
+            {openMenu === menu.id && (
+              <div
+                className="absolute top-full start-0 mt-1 bg-white rounded-xl shadow-lg border border-gray-200 py-1 min-w-[200px] max-h-80 overflow-y-auto z-20"
+                onClick={(e) => e.stopPropagation()}
               >
-                <span>{cuisine.emoji}</span>
-                <span>{cuisine.label}</span>
-              </button>
-            ))}
+                {menu.sections.map(({ field, title }) => (
+                  <div key={field}>
+                    {title && (
+                      <div className="px-3 pt-2 pb-1 text-[10px] font-semibold uppercase tracking-wide text-gray-400">{t(title)}</div>
+                    )}
+                    {(facets[field] ?? []).map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => toggleFacetValue(field, option.value)}
+                        className={`w-full text-start px-3 py-2 text-sm hover:bg-gray-50 flex items-center gap-2 ${
+                          option.selected ? 'bg-blue-50 text-blue-700' : option.count === 0 ? 'text-gray-400' : 'text-gray-700'
+                        }`}
+                      >
+                        <span className={`w-3.5 h-3.5 rounded border flex items-center justify-center ${
+                          option.selected ? 'bg-blue-600 border-blue-600' : 'border-gray-300'
+                        }`}>
+                          {option.selected && <Check className="w-2.5 h-2.5 text-white" />}
+                        </span>
+                        <span className="flex-1 truncate capitalize">{facetValueLabel(field, option.value, t)}</span>
+                        <span className="text-xs text-gray-400">{option.count}</span>
+                      </button>
+                    ))}
+                    {!facets[field]?.length && (
+                      <div className="px-3 py-2 text-xs text-gray-400">{t('filters.noOptions')}</div>
+                    )}
+                  </div>
+                ))}
+                {labels.length > 0 && (
+                  <button
+                    onClick={() => clearMenu(menu)}
+                    className="w-full text-start px-3 py-2 text-xs text-red-600 hover:bg-red-50 border-t border-gray-100"
+                  >
+                    {t('filters.clearMenu', { name: t(menu.label).toLocaleLowerCase(locale) })}
+                  </button>
+                )}
+              </div>
+            )}
           </div>
-        )}
-      </div>
+        );
+      })}
 
-      {/* No Alcohol tag filter */}
+      {/* Exclusions - set by the assistant ("not Indian"), removable here */}
+      {excluded.length > 0 && (
+        <button
+          onClick={() => {
+            const newFilters: PlaceFilter = { ...activeFilters };
+            delete newFilters.exclude;
+            onFilterChange(newFilters);
+          }}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full border shadow-sm transition bg-red-50 border-red-200 text-red-800 hover:bg-red-100"
+          title={t('filters.removeExclusions')}
+        >
+          <Ban className="w-3.5 h-3.5" />
+          <span className="max-w-[120px] truncate">{t('filters.excluded', { values: excluded.join(', ') })}</span>
+          <X className="w-3 h-3" />
+        </button>
+      )}
+
+      {/* Near Me - radius search around the user's location */}
       <FilterChip
-        active={isFilterActive('tag', 'no-alcohol')}
-        onClick={() => toggleFilter('tag' as keyof PlaceFilter, 'no-alcohol')}
-        icon={<Wine className="w-3.5 h-3.5" />}
-        label="No Alcohol"
-        color="purple"
+        active={isFilterActive('near')}
+        onClick={toggleNearMe}
+        icon={<LocateFixed className={`w-3.5 h-3.5 ${isLocating ? 'animate-pulse' : ''}`} />}
+        label={locationError ? t('filters.noLocation') : t('filters.nearMe')}
+        color="blue"
+        disabled={isLocating}
       />
 
-      {/* Open Now - placeholder for future implementation */}
+      {/* Open Now - evaluated against opening hours in Japan time */}
       <FilterChip
-        active={false}
-        onClick={() => {}}
+        active={isFilterActive('open_now')}
+        onClick={() => toggleFilter('open_now', true)}
         icon={<Clock className="w-3.5 h-3.5" />}
-        label="Open Now"
-        color="gray"
-        disabled
+        label={t('filters.openNow')}
+        color="amber"
       />
 
       {/* Clear All Filters */}
@@ -141,19 +345,187 @@ export default function FilterBar({ activeFilters, onFilterChange }: FilterBarPr
           className="flex items-center gap-1 px-2 py-1.5 text-xs text-red-600 hover:bg-red-50 rounded-full transition"
         >
           <X className="w-3 h-3" />
-          Clear
+          {t('filters.clear')}
         </button>
       )}
     </div>
   );
 }
 
+// Keyed by the active query, so a query set elsewhere (chat, cleared filters) resets the input
+function SearchBox({
+  initialQuery,
+  onSearch,
+  onSelectSuggestion,
+}: {
+  initialQuery: string;
+  onSearch: (query: string) => void;
+  onSelectSuggestion: (suggestion: AutocompleteSuggestion) => void;
+}) {
+  const [value, setValue] = useState(initialQuery);
+  const { t } = useTranslation();
+  const [suggestions, setSuggestions] = useState<AutocompleteSuggestion[]>([]);
+  const [highlighted, setHighlighted] = useState(-1);
+  const [isOpen, setIsOpen] = useState(false);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const latestQuery = useRef('');
+
+  useEffect(() => () => {
+    if (timer.current) clearTimeout(timer.current);
+  }, []);
+
+  const requestSuggestions = (text: string) => {
+    if (timer.current) clearTimeout(timer.current);
+    latestQuery.current = text;
+    if (!text.trim()) {
+      setSuggestions([]);
+      return;
+    }
+
+    timer.current = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/places/autocomplete?q=${encodeURIComponent(text)}`);
+        const data: AutocompleteResponse = await res.json();
+        // Drop answers to text the user has already typed past
+        if (latestQuery.current !== text) return;
+        setSuggestions(data.suggestions ?? []);
+        setHighlighted(-1);
+      } catch (e) {
+        console.error('Autocomplete failed:', e);
+      }
+    }, SEARCH_CONFIG.AUTOCOMPLETE_DEBOUNCE_MS);
+  };
+
+  const choose = (suggestion: AutocompleteSuggestion) => {
+    setValue(suggestion.type === 'place' ? suggestion.label : '');
+    setIsOpen(false);
+    setSuggestions([]);
+    latestQuery.current = '';
+    onSelectSuggestion(suggestion);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setHighlighted((i) => Math.min(i + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted((i) => Math.max(i - 1, -1));
+    } else if (e.key === 'Enter' && isOpen && highlighted >= 0) {
+      e.preventDefault();
+      choose(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const showSuggestions = isOpen && suggestions.length > 0;
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        setIsOpen(false);
+        onSearch(value.trim());
+      }}
+      className="relative flex items-center gap-1.5 ps-3 pe-1.5 py-1 bg-white border border-gray-200 rounded-full shadow-sm focus-within:border-blue-300"
+    >
+      <Search className="w-3.5 h-3.5 text-gray-400" />
+      <input
+        type="search"
+        value={value}
+        onChange={(e) => {
+          setValue(e.target.value);
+          setIsOpen(true);
+          requestSuggestions(e.target.value);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        placeholder={t('search.placeholder')}
+        aria-label={t('search.label')}
+        role="combobox"
+        aria-expanded={showSuggestions}
+        aria-controls="search-suggestions"
+        aria-activedescendant={showSuggestions && highlighted >= 0 ? `search-suggestion-${highlighted}` : undefined}
+        autoComplete="off"
+        className="w-36 md:w-48 text-xs text-gray-800 placeholder:text-gray-400 bg-transparent outline-none"
+      />
+      {initialQuery && (
+        <button
+          type="button"
+          onClick={() => onSearch('')}
+          className="p-0.5 hover:bg-gray-100 rounded-full"
+          aria-label={t('search.clear')}
+        >
+          <X className="w-3 h-3 text-gray-500" />
+        </button>
+      )}
+
+      {showSuggestions && (
+        <ul
+          id="search-suggestions"
+          role="listbox"
+          className="absolute top-full start-0 mt-1 w-72 bg-white rounded-xl shadow-lg border border-gray-200 py-1 z-30"
+        >
+          {suggestions.map((suggestion, i) => (
+            <li
+              key={suggestion.type === 'place' ? suggestion.id : `${suggestion.type}:${suggestion.label}`}
+              id={`search-suggestion-${i}`}
+              role="option"
+              aria-selected={i === highlighted}
+              // mousedown, not click: the input's blur would close the list first
+              onMouseDown={(e) => {
+                e.preventDefault();
+                choose(suggestion);
+              }}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`px-3 py-2 text-sm flex items-center gap-2 cursor-pointer ${
+                i === highlighted ? 'bg-blue-50 text-blue-800' : 'text-gray-700'
+              }`}
+            >
+              <SuggestionRow suggestion={suggestion} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </form>
+  );
+}
+
+function SuggestionRow({ suggestion }: { suggestion: AutocompleteSuggestion }) {
+  const { t } = useTranslation();
+
+  if (suggestion.type === 'place') {
+    return (
+      <>
+        <MapPin className="w-3.5 h-3.5 shrink-0" style={{ color: getHalalStatusConfig(suggestion.halal_status, suggestion.verification_issue).color }} />
+        <span className="truncate flex-1">{suggestion.label}</span>
+        {suggestion.city && <span className="text-xs text-gray-400 truncate max-w-[90px]">{suggestion.city}</span>}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {suggestion.type === 'area'
+        ? <MapIcon className="w-3.5 h-3.5 shrink-0 text-gray-400" />
+        : <Utensils className="w-3.5 h-3.5 shrink-0 text-gray-400" />}
+      <span className="truncate flex-1">{suggestion.label}</span>
+      <span className="text-xs text-gray-400 whitespace-nowrap">
+        {suggestion.type === 'area' ? t('filters.area') : t('filters.cuisine')} · {suggestion.count}
+      </span>
+    </>
+  );
+}
+
 interface FilterChipProps {
   active: boolean;
   onClick: (e: React.MouseEvent) => void;
   icon: React.ReactNode;
   label: string;
-  color: 'green' | 'blue' | 'purple' | 'gray';
+  color: 'green' | 'blue' | 'purple' | 'amber' | 'gray';
   hasDropdown?: boolean;
   disabled?: boolean;
 }
@@ -169,6 +541,9 @@ function FilterChip({ active, onClick, icon, label, color, hasDropdown, disabled
     purple: active
       ? 'bg-purple-100 border-purple-300 text-purple-800'
       : 'bg-white border-gray-200 text-gray-700 hover:border-purple-300 hover:bg-purple-50',
+    amber: active
+      ? 'bg-amber-100 border-amber-300 text-amber-800'
+      : 'bg-white border-gray-200 text-gray-700 hover:border-amber-300 hover:bg-amber-50',
     gray: 'bg-white border-gray-200 text-gray-400 cursor-not-allowed',
   };
 
@@ -183,7 +558,7 @@ function FilterChip({ active, onClick, icon, label, color, hasDropdown, disabled
       {icon}
       <span className="max-w-[80px] truncate">{label}</span>
       {hasDropdown && (
-        <svg className="w-3 h-3 ml-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <svg className="w-3 h-3 ms-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
         </svg>
       )}
@@ -1,17 +1,20 @@
 'use client';
 
 import { useState } from 'react';
-import { Heart, Tag, Sparkles, Menu, User, LogOut } from 'lucide-react';
+import { Heart, Tag, Sparkles, Menu, User, LogOut, List } from 'lucide-react';
 import { useAuth } from '@/contexts/auth-context';
+import { useTranslation } from '@/contexts/locale-context';
 import AuthModal from './auth-modal';
 
 interface FloatingMenuProps {
+    onToggleResults: () => void;
     onToggleFavorites: () => void;
     onToggleMore: () => void;
 }
 
-export default function FloatingMenu({ onToggleFavorites, onToggleMore }: FloatingMenuProps) {
+export default function FloatingMenu({ onToggleResults, onToggleFavorites, onToggleMore }: FloatingMenuProps) {
     const { user, isLoading, signOut } = useAuth();
+    const { t } = useTranslation();
     const [showAuthModal, setShowAuthModal] = useState(false);
     const [showUserMenu, setShowUserMenu] = useState(false);
 
@@ -31,17 +34,22 @@ export default function FloatingMenu({ onToggleFavorites, onToggleMore }: Floati
     return (
         <>
         <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-10 flex gap-2 bg-gradient-to-b from-white/95 to-blue-50/90 backdrop-blur-xl p-1.5 rounded-full shadow-2xl shadow-blue-900/10 border border-white/50 ring-1 ring-black/5">
+            <MenuButton
+                icon={<List className="w-4 h-4 text-blue-600" />}
+                label={t('menu.list')}
+                onClick={onToggleResults}
+            />
             <MenuButton
                 icon={<Heart className="w-4 h-4 text-rose-500" />}
-                label="Favorites"
+                label={t('menu.favorites')}
                 onClick={onToggleFavorites}
             />
             <div className="w-px h-6 bg-gray-200 my-auto mx-1"></div>
-            <MenuButton icon={<Tag className="w-4 h-4 text-amber-500" />} label="Promos" />
-            <MenuButton icon={<Sparkles className="w-4 h-4 text-indigo-500" />} label="Featured" />
+            <MenuButton icon={<Tag className="w-4 h-4 text-amber-500" />} label={t('menu.promos')} />
+            <MenuButton icon={<Sparkles className="w-4 h-4 text-indigo-500" />} label={t('menu.featured')} />
             <MenuButton
                 icon={<Menu className="w-4 h-4 text-gray-600" />}
-                label="More"
+                label={t('menu.more')}
                 onClick={onToggleMore}
             />
             <div className="w-px h-6 bg-gray-200 my-auto mx-1"></div>
@@ -63,7 +71,7 @@ export default function FloatingMenu({ onToggleFavorites, onToggleMore }: Floati
                 ) : (
                     <>
                         <User className="w-4 h-4 text-gray-500 group-hover:scale-110 transition-transform" />
-                        <span className="text-sm font-medium text-gray-700">Sign In</span>
+                        <span className="text-sm font-medium text-gray-700">{t('auth.signIn')}</span>
                     </>
                 )}
             </button>
@@ -71,17 +79,17 @@ export default function FloatingMenu({ onToggleFavorites, onToggleMore }: Floati
 
         {/* User Dropdown Menu */}
         {showUserMenu && user && (
-            <div className="absolute top-16 right-4 bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden z-20 w-48 animate-in fade-in slide-in-from-top-2">
+            <div className="absolute top-16 end-4 bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden z-20 w-48 animate-in fade-in slide-in-from-top-2">
                 <div className="p-3 border-b border-gray-100">
                     <p className="text-sm font-medium text-gray-800 truncate">{user.email}</p>
-                    <p className="text-xs text-gray-500">Signed in</p>
+                    <p className="text-xs text-gray-500">{t('auth.signedIn')}</p>
                 </div>
                 <button
                     onClick={handleSignOut}
                     className="w-full flex items-center gap-2 px-3 py-2.5 text-sm text-red-600 hover:bg-red-50 transition"
                 >
                     <LogOut className="w-4 h-4" />
-                    Sign Out
+                    {t('auth.signOut')}
                 </button>
             </div>
         )}
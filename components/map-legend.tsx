@@ -3,6 +3,8 @@
 import { useState } from 'react';
 import { ChevronDown, ChevronUp, Info } from 'lucide-react';
 import { HALAL_STATUS } from '@/lib/constants';
+import { halalStatusMessages } from '@/lib/i18n';
+import { useTranslation } from '@/contexts/locale-context';
 
 interface MapLegendProps {
   className?: string;
@@ -10,6 +12,7 @@ interface MapLegendProps {
 
 export default function MapLegend({ className = '' }: MapLegendProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const { t } = useTranslation();
 
   const legendItems = [
     HALAL_STATUS.CERTIFIED,
@@ -19,18 +22,18 @@ export default function MapLegend({ className = '' }: MapLegendProps) {
 
   return (
     <div
-      className={`absolute bottom-4 left-4 z-10 bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden transition-all duration-200 ${className}`}
+      className={`absolute bottom-4 start-4 z-10 bg-white rounded-xl shadow-lg border border-gray-200 overflow-hidden transition-all duration-200 ${className}`}
     >
       {/* Header - always visible */}
       <button
         onClick={() => setIsExpanded(!isExpanded)}
         className="w-full flex items-center justify-between gap-3 px-3 py-2 hover:bg-gray-50 transition"
         aria-expanded={isExpanded}
-        aria-label="Toggle map legend"
+        aria-label={t('legend.toggle')}
       >
         <div className="flex items-center gap-2">
           <Info className="w-4 h-4 text-gray-500" />
-          <span className="text-sm font-medium text-gray-700">Map Legend</span>
+          <span className="text-sm font-medium text-gray-700">{t('legend.title')}</span>
         </div>
         {isExpanded ? (
           <ChevronDown className="w-4 h-4 text-gray-400" />
@@ -54,8 +57,8 @@ export default function MapLegend({ className = '' }: MapLegendProps) {
                 aria-hidden="true"
               />
               <div className="flex-1 min-w-0">
-                <div className="text-xs font-medium text-gray-800">{item.label}</div>
-                <div className="text-[10px] text-gray-500 leading-tight">{item.description}</div>
+                <div className="text-xs font-medium text-gray-800">{t(halalStatusMessages(item.value).label)}</div>
+                <div className="text-[10px] text-gray-500 leading-tight">{t(halalStatusMessages(item.value).description)}</div>
               </div>
             </div>
           ))}
@@ -63,7 +66,7 @@ export default function MapLegend({ className = '' }: MapLegendProps) {
           {/* Additional info */}
           <div className="pt-2 border-t border-gray-100 mt-2">
             <p className="text-[10px] text-gray-400 leading-tight">
-              Tap any pin for details. Certified restaurants are verified by official halal certification bodies.
+              {t('legend.help')}
             </p>
           </div>
         </div>
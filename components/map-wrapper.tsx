@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useEffectEvent } from 'react';
 import { APIProvider } from '@vis.gl/react-google-maps';
 import { MessageCircle, X, ChevronUp } from 'lucide-react';
 import RestaurantMap from '@/components/map';
@@ -11,29 +11,57 @@ import FavoritesPanel from '@/components/favorites-panel';
 import MoreMenuPanel from '@/components/more-menu-panel';
 import MapLegend from '@/components/map-legend';
 import FilterBar from '@/components/filter-bar';
-import { Place, PlaceFilter } from '@/lib/types';
-import { favorites } from '@/lib/storage';
+import ResultsListPanel from '@/components/results-list-panel';
+import { Place, PlaceFilter, PlaceSort, NearFilter, LatLng, BoundsFilter, PlacesSearchResponse, PlaceRating, RatingsResponse } from '@/lib/types';
+import { encodeViewState, MapViewState } from '@/lib/deep-link';
+import { TILE_CONFIG, RATINGS_CONFIG } from '@/lib/constants';
+import { tilesForBounds } from '@/lib/tiles';
+import { createTileCache } from '@/lib/tile-cache';
+import { hasNonEmptyValues } from '@/lib/utils';
+import { useFavorites } from '@/contexts/favorites-context';
+import { useTranslation } from '@/contexts/locale-context';
 
-interface PlaceRating {
-  place_id: string;
-  rating?: number;
-  user_ratings_total?: number;
+interface MapWrapperProps {
+  initialPlaces: Place[];     // Places in the initial viewport
+  initialTileKeys?: string[]; // Tiles those places came from
+  initialView?: MapViewState; // Restored from a shared link
 }
 
-interface MapWrapperProps {
-  initialPlaces: Place[];
+// Add places not seen yet; keeps the same array when nothing is new
+function mergePlaces(current: Place[], incoming: Place[]): Place[] {
+  const known = new Set(current.map((p) => p.id));
+  const added = incoming.filter((p) => {
+    if (known.has(p.id)) return false;
+    known.add(p.id);
+    return true;
+  });
+  return added.length > 0 ? [...current, ...added] : current;
 }
 
-export default function MapWrapper({ initialPlaces }: MapWrapperProps) {
-  const [places, setPlaces] = useState<Place[]>(initialPlaces);
-  const [selectedPlace, setSelectedPlace] = useState<Place | null>(null);
+export default function MapWrapper({ initialPlaces, initialTileKeys = [], initialView }: MapWrapperProps) {
+  // Places loaded so far (viewport tiles, favorites); search results replace them on the map while filtering
+  const [loadedPlaces, setLoadedPlaces] = useState<Place[]>(initialPlaces);
+  const [searchResults, setSearchResults] = useState<Place[] | null>(null);
+  const [tileCache] = useState(() => createTileCache(initialTileKeys));
+  const viewportTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [selectedPlace, setSelectedPlace] = useState<Place | null>(
+    () => initialPlaces.find((p) => p.id === initialView?.placeId) ?? null
+  );
+  const [showResults, setShowResults] = useState(false);
+  const [highlightedPlace, setHighlightedPlace] = useState<Place | null>(null);
   const [showFavorites, setShowFavorites] = useState(false);
   const [showMore, setShowMore] = useState(false);
   const [isFiltering, setIsFiltering] = useState(false);
   const [searchError, setSearchError] = useState<string | null>(null);
-  const [activeFilters, setActiveFilters] = useState<PlaceFilter>({});
+  const [activeFilters, setActiveFilters] = useState<PlaceFilter>(initialView?.filter ?? {});
+  const [searchArea, setSearchArea] = useState<NearFilter | null>(initialView?.filter.near ?? null);
+  const [mapView, setMapView] = useState<{ center: LatLng; zoom: number } | null>(null);
   const [isMobile, setIsMobile] = useState(false);
   const [showMobileChat, setShowMobileChat] = useState(false);
+  const { favoriteIds } = useFavorites();
+  const { t } = useTranslation();
+
+  const places = searchResults ?? loadedPlaces;
 
   // Detect mobile viewport
   useEffect(() => {
@@ -45,51 +73,96 @@ export default function MapWrapper({ initialPlaces }: MapWrapperProps) {
 
   // Cache for Google Places ratings
   const ratingsCache = useRef<Map<string, PlaceRating>>(new Map());
+  const [ratings, setRatings] = useState<Map<string, PlaceRating>>(new Map());
   const [placesWithRatings, setPlacesWithRatings] = useState<(Place & { google_rating?: number; google_ratings_total?: number })[]>([]);
 
   // Fetch ratings for places from Google Places API
+  const ratingsRun = useRef(0);
   const fetchRatings = async (placesToFetch: Place[]) => {
-    // Get place_ids that we don't have cached
-    const uncachedPlaces = placesToFetch.filter(
-      (p) => p.place_id && !ratingsCache.current.has(p.place_id)
-    );
+    const run = ++ratingsRun.current; // A newer search stops this one's remaining batches
 
-    if (uncachedPlaces.length > 0) {
+    // Merge ratings into places
+    const publish = () => {
+      setRatings(new Map(ratingsCache.current));
+      setPlacesWithRatings(placesToFetch.map((p) => {
+        const cached = p.place_id ? ratingsCache.current.get(p.place_id) : undefined;
+        return {
+          ...p,
+          google_rating: cached?.rating,
+          google_ratings_total: cached?.user_ratings_total,
+        };
+      }));
+    };
+
+    // Get place_ids that we don't have cached, best results first
+    const placeIds = [...new Set(placesToFetch.map((p) => p.place_id).filter(Boolean) as string[])]
+      .filter((id) => !ratingsCache.current.has(id));
+    publish();
+
+    // Every result is rated, one batch at a time; the endpoint is rate-limited, so a 429 waits and retries
+    for (let i = 0; i < placeIds.length && run === ratingsRun.current; ) {
       try {
-        const placeIds = uncachedPlaces.map((p) => p.place_id).filter(Boolean) as string[];
         const response = await fetch('/api/places/ratings', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ placeIds }),
+          body: JSON.stringify({ placeIds: placeIds.slice(i, i + RATINGS_CONFIG.MAX_IDS_PER_REQUEST) }),
         });
 
-        if (response.ok) {
-          const data = await response.json();
-          const ratings: PlaceRating[] = data.ratings || [];
+        if (response.status === 429) {
+          const retryAfter = Number(response.headers.get('Retry-After')) || 60;
+          await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000));
+          continue;
+        }
+        if (!response.ok) return;
 
-          // Cache the results
-          ratings.forEach((r) => {
-            if (r.place_id) {
-              ratingsCache.current.set(r.place_id, r);
-            }
-          });
+        const data: RatingsResponse = await response.json();
+        for (const rating of data.ratings || []) {
+          if (rating.place_id) ratingsCache.current.set(rating.place_id, rating);
         }
+        if (run === ratingsRun.current) publish();
       } catch (e) {
         console.error('Failed to fetch ratings:', e);
+        return;
       }
+      i += RATINGS_CONFIG.MAX_IDS_PER_REQUEST;
     }
+  };
 
-    // Merge ratings into places
-    const enriched = placesToFetch.map((p) => {
-      const cached = p.place_id ? ratingsCache.current.get(p.place_id) : undefined;
-      return {
-        ...p,
-        google_rating: cached?.rating,
-        google_ratings_total: cached?.user_ratings_total,
-      };
-    });
-
-    setPlacesWithRatings(enriched);
+  /**
+   * Make sure the given places are loaded (e.g. favorites outside the viewed tiles).
+   * Returns every loaded place, including the ones fetched here.
+   */
+  const ensurePlaces = async (ids: string[]): Promise<Place[]> => {
+    const missing = ids.filter((id) => !loadedPlaces.some((p) => p.id === id));
+    if (missing.length === 0) return loadedPlaces;
+
+    try {
+      const res = await fetch('/api/places/lookup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: missing }),
+      });
+      const data: PlacesSearchResponse = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to load places');
+
+      const merged = mergePlaces(loadedPlaces, data.places);
+      setLoadedPlaces((prev) => mergePlaces(prev, data.places));
+      return merged;
+    } catch (e) {
+      console.error('ensurePlaces error:', e);
+      return loadedPlaces;
+    }
+  };
+
+  // Load the tiles of the viewport once the map has been still for a moment
+  const handleViewChange = (center: LatLng, zoom: number, bounds: BoundsFilter) => {
+    setMapView({ center, zoom });
+
+    if (viewportTimer.current) clearTimeout(viewportTimer.current);
+    viewportTimer.current = setTimeout(async () => {
+      const incoming = await tileCache.load(tilesForBounds(bounds, zoom));
+      if (incoming.length > 0) setLoadedPlaces((prev) => mergePlaces(prev, incoming));
+    }, TILE_CONFIG.FETCH_DEBOUNCE_MS);
   };
 
   /**
@@ -98,18 +171,23 @@ export default function MapWrapper({ initialPlaces }: MapWrapperProps) {
    * - We POST to /api/places/search to query DB
    */
   const handleFilter = async (filter: PlaceFilter) => {
-    // If filter is empty => reset to all places
-    if (!filter || Object.keys(filter).length === 0) {
-      setPlaces(initialPlaces);
+    // Keep the filter bar (and the URL) in step with filters from chat too
+    setActiveFilters(filter || {});
+
+    // If filter is empty (or only sorts) => back to the places loaded for the map
+    if (!filter || !hasNonEmptyValues({ ...filter, sort: null })) {
+      setSearchResults(null);
+      setSearchArea(null);
       setSearchError(null);
       return;
     }
 
-    // Favorites: client-side (localStorage)
+    setSearchArea(filter.near ?? null);
+
+    // Favorites: client-side (synced list, or the local copy when offline)
     if (filter.favorites) {
-      const favIds = favorites.getAll();
-      const favPlaces = initialPlaces.filter((p) => favIds.includes(p.id));
-      setPlaces(favPlaces);
+      const known = await ensurePlaces(favoriteIds);
+      setSearchResults(known.filter((p) => favoriteIds.includes(p.id)));
       setSearchError(null);
       return;
     }
@@ -129,15 +207,15 @@ export default function MapWrapper({ initialPlaces }: MapWrapperProps) {
 
       if (!res.ok) {
         console.error('places/search failed:', data?.error || res.statusText);
-        setSearchError('Search failed. Please try again.');
+        setSearchError(t('map.error.search'));
         return;
       }
 
       const newPlaces: Place[] = Array.isArray(data?.places) ? data.places : [];
-      setPlaces(newPlaces);
+      setSearchResults(newPlaces);
 
-      // Fetch Google ratings for the top places (for AI context)
-      fetchRatings(newPlaces.slice(0, 10));
+      // Fetch Google ratings for the results (for AI context)
+      fetchRatings(newPlaces);
 
       // Close sidebar if selected place is no longer visible
       if (selectedPlace && !newPlaces.some((p) => p.id === selectedPlace.id)) {
@@ -145,20 +223,58 @@ export default function MapWrapper({ initialPlaces }: MapWrapperProps) {
       }
     } catch (e) {
       console.error('handleFilter error:', e);
-      setSearchError('Network error. Please check your connection.');
+      setSearchError(t('map.error.network'));
     } finally {
       setIsFiltering(false);
     }
   };
 
+  // Re-run the search so the server ranks the full result set, not just what's loaded
+  const handleSortChange = (sort: PlaceSort) => {
+    const next: PlaceFilter = { ...activeFilters, sort };
+    if (sort === 'relevance') delete next.sort; // The default; keeps shared links short
+    handleFilter(next);
+  };
+
+  // Places picked from search suggestions may be outside the loaded tiles
+  const handleSelectPlaceById = async (id: string) => {
+    const known = await ensurePlaces([id]);
+    const place = known.find((p) => p.id === id);
+    if (place) setSelectedPlace(place);
+  };
+
   const handleSelectPlaceByName = (placeName: string) => {
     // search in current places first (because places is now DB-driven)
-    const place = places.find((p) => p.name === placeName) || initialPlaces.find((p) => p.name === placeName);
+    const place = places.find((p) => p.name === placeName) || loadedPlaces.find((p) => p.name === placeName);
     if (place) setSelectedPlace(place);
   };
 
   const dismissError = () => setSearchError(null);
 
+  // Apply the filter from a shared link once on load
+  const restoredFilter = useRef(false);
+  const restoreSharedFilter = useEffectEvent(() => {
+    if (initialView && hasNonEmptyValues(initialView.filter)) {
+      handleFilter(initialView.filter);
+    }
+  });
+  useEffect(() => {
+    if (restoredFilter.current) return;
+    restoredFilter.current = true;
+    restoreSharedFilter();
+  }, []);
+
+  // Mirror the current view in the URL so copying or sharing it opens the same view
+  useEffect(() => {
+    const query = encodeViewState({
+      filter: activeFilters,
+      placeId: selectedPlace?.id,
+      center: mapView?.center,
+      zoom: mapView?.zoom,
+    }).toString();
+    window.history.replaceState(null, '', query ? `?${query}` : window.location.pathname);
+  }, [activeFilters, selectedPlace, mapView]);
+
   return (
     <APIProvider apiKey={process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || ''} libraries={['places']}>
       <div className="flex flex-col md:flex-row h-screen w-full overflow-hidden">
@@ -168,6 +284,7 @@ export default function MapWrapper({ initialPlaces }: MapWrapperProps) {
 
           <div className="flex-1 relative">
             <FloatingMenu
+              onToggleResults={() => setShowResults(!showResults)}
               onToggleFavorites={() => {
                 setShowFavorites(!showFavorites);
                 setShowMore(false);
@@ -180,7 +297,8 @@ export default function MapWrapper({ initialPlaces }: MapWrapperProps) {
 
             {showFavorites && (
               <FavoritesPanel
-                places={initialPlaces}
+                places={loadedPlaces}
+                onMissingPlaces={ensurePlaces}
                 onSelectPlace={(place) => {
                   setSelectedPlace(place);
                   setShowFavorites(false);
@@ -189,6 +307,23 @@ export default function MapWrapper({ initialPlaces }: MapWrapperProps) {
               />
             )}
 
+            {showResults && (
+              <ResultsListPanel
+                places={places}
+                ratings={ratings}
+                filter={activeFilters}
+                origin={searchArea ?? mapView?.center}
+                isLoading={isFiltering}
+                onSortChange={handleSortChange}
+                onSelectPlace={setSelectedPlace}
+                onHoverPlace={setHighlightedPlace}
+                onClose={() => {
+                  setShowResults(false);
+                  setHighlightedPlace(null);
+                }}
+              />
+            )}
+
             {showMore && (
               <MoreMenuPanel onClose={() => setShowMore(false)} />
             )}
@@ -200,7 +335,7 @@ export default function MapWrapper({ initialPlaces }: MapWrapperProps) {
                 onClick={dismissError}
               >
                 <span>{searchError}</span>
-                <button className="text-white/80 hover:text-white ml-2">&times;</button>
+                <button className="text-white/80 hover:text-white ms-2" aria-label={t('common.close')}>&times;</button>
               </div>
             )}
 
@@ -217,16 +352,19 @@ export default function MapWrapper({ initialPlaces }: MapWrapperProps) {
             {/* Quick Filter Bar */}
             <FilterBar
               activeFilters={activeFilters}
-              onFilterChange={(filter) => {
-                setActiveFilters(filter);
-                handleFilter(filter);
-              }}
+              onFilterChange={handleFilter}
+              onSelectPlace={handleSelectPlaceById}
             />
 
             <RestaurantMap
               places={places}
               selectedPlace={selectedPlace}
               onSelectPlace={setSelectedPlace}
+              searchArea={searchArea}
+              initialCenter={initialView?.center}
+              initialZoom={initialView?.zoom}
+              onViewChange={handleViewChange}
+              highlightedPlace={highlightedPlace}
             />
           </div>
         </div>
@@ -246,10 +384,10 @@ export default function MapWrapper({ initialPlaces }: MapWrapperProps) {
         {isMobile && !showMobileChat && (
           <button
             onClick={() => setShowMobileChat(true)}
-            className="fixed bottom-6 right-4 z-50 flex items-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-full shadow-lg hover:bg-blue-700 transition"
+            className="fixed bottom-6 end-4 z-50 flex items-center gap-2 px-4 py-3 bg-blue-600 text-white rounded-full shadow-lg hover:bg-blue-700 transition"
           >
             <MessageCircle className="w-5 h-5" />
-            <span className="text-sm font-medium">Ask AI</span>
+            <span className="text-sm font-medium">{t('map.askAI')}</span>
           </button>
         )}
 
@@ -271,7 +409,7 @@ export default function MapWrapper({ initialPlaces }: MapWrapperProps) {
                   className="flex items-center gap-2 px-4 py-1 text-gray-500 hover:text-gray-700"
                 >
                   <ChevronUp className="w-5 h-5 rotate-180" />
-                  <span className="text-sm">Close</span>
+                  <span className="text-sm">{t('common.close')}</span>
                 </button>
               </div>
 
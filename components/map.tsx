@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import {
     Map,
     AdvancedMarker,
@@ -8,67 +8,71 @@ import {
     InfoWindow,
     useMap
 } from '@vis.gl/react-google-maps';
-import { Place } from '@/lib/types';
-import { MAP_CONFIG, getHalalStatusConfig } from '@/lib/constants';
+import { MarkerClusterer, Marker, Cluster } from '@googlemaps/markerclusterer';
+import { Place, NearFilter, LatLng, BoundsFilter } from '@/lib/types';
+import { MAP_CONFIG, HALAL_STATUS, getHalalStatusConfig } from '@/lib/constants';
+import { boundsAround } from '@/lib/geo';
+import { safeHttpUrl } from '@/lib/utils';
+import { halalStatusMessages, Translate } from '@/lib/i18n';
+import { useTranslation } from '@/contexts/locale-context';
+import { formatCertificateDate, lastVerifiedOn } from '@/lib/certification';
+import VerificationWarning from '@/components/verification-warning';
 
 interface MapProps {
     places: Place[];
     selectedPlace: Place | null;
     onSelectPlace: (place: Place | null) => void;
+    searchArea?: NearFilter | null;
+    fitToPlaces?: boolean; // Frame all places on load (shared lists)
+    initialCenter?: LatLng | null;
+    initialZoom?: number | null;
+    onViewChange?: (center: LatLng, zoom: number, bounds: BoundsFilter) => void; // Called when the map comes to rest
+    highlightedPlace?: Place | null; // Drawn enlarged above clusters, e.g. while hovering its row in the results list
 }
 
-// Maximum markers to show at low zoom levels to reduce clutter
-const MAX_MARKERS_LOW_ZOOM = 100;
-const LOW_ZOOM_THRESHOLD = 12;
-
-export default function RestaurantMap({ places, selectedPlace, onSelectPlace }: MapProps) {
-    const defaultCenter = MAP_CONFIG.DEFAULT_CENTER;
+export default function RestaurantMap({
+    places,
+    selectedPlace,
+    onSelectPlace,
+    searchArea,
+    fitToPlaces = false,
+    initialCenter,
+    initialZoom,
+    onViewChange,
+    highlightedPlace,
+}: MapProps) {
+    const defaultCenter = initialCenter ?? MAP_CONFIG.DEFAULT_CENTER;
+    const defaultZoom = initialZoom ?? MAP_CONFIG.DEFAULT_ZOOM;
     const [hoveredPlace, setHoveredPlace] = useState<Place | null>(null);
-    const [currentZoom, setCurrentZoom] = useState<number>(MAP_CONFIG.DEFAULT_ZOOM);
 
     const activePlace = hoveredPlace || selectedPlace;
 
-    // At low zoom levels, prioritize certified places and limit count to reduce clutter
-    const visiblePlaces = useMemo(() => {
-        if (currentZoom >= LOW_ZOOM_THRESHOLD) {
-            return places;
-        }
-
-        // At low zoom, prioritize certified, then muslim-friendly, limit total
-        const certified = places.filter(p => p.halal_status?.toLowerCase().includes('fully'));
-        const muslimFriendly = places.filter(p => p.halal_status?.toLowerCase().includes('muslim'));
-
-        // Combine and limit
-        const combined = [...certified, ...muslimFriendly];
-        return combined.slice(0, MAX_MARKERS_LOW_ZOOM);
-    }, [places, currentZoom]);
-
-    const handleZoomChanged = useCallback((zoom: number) => {
-        setCurrentZoom(zoom);
-    }, []);
-
     return (
         <div className="h-full w-full">
             <Map
                 defaultCenter={defaultCenter}
-                defaultZoom={MAP_CONFIG.DEFAULT_ZOOM}
+                defaultZoom={defaultZoom}
                 mapId="Restaurant-Map-ID"
                 fullscreenControl={false}
                 gestureHandling={'greedy'}
-                onZoomChanged={(e) => handleZoomChanged(e.detail.zoom)}
+                onIdle={(e) => {
+                    const center = e.map.getCenter();
+                    const zoom = e.map.getZoom();
+                    const bounds = e.map.getBounds()?.toJSON();
+                    if (onViewChange && center && zoom !== undefined && bounds) {
+                        onViewChange({ lat: center.lat(), lng: center.lng() }, zoom, bounds);
+                    }
+                }}
             >
-                {visiblePlaces.map((place) => {
-                    if (!place.lat || !place.lng) return null;
-                    return (
-                        <RestaurantMarker
-                            key={place.id}
-                            place={place}
-                            onClick={(p) => onSelectPlace(p)}
-                            onMouseEnter={(p) => setHoveredPlace(p)}
-                            onMouseLeave={() => setHoveredPlace(null)}
-                        />
-                    );
-                })}
+                <ClusteredMarkers
+                    places={places}
+                    onSelectPlace={onSelectPlace}
+                    onHoverPlace={setHoveredPlace}
+                />
+
+                {highlightedPlace && highlightedPlace.lat && highlightedPlace.lng && (
+                    <HighlightMarker place={highlightedPlace} onClick={() => onSelectPlace(highlightedPlace)} />
+                )}
 
                 {activePlace && activePlace.lat && activePlace.lng && (
                     <InfoWindow
@@ -85,15 +89,41 @@ export default function RestaurantMap({ places, selectedPlace, onSelectPlace }:
                     </InfoWindow>
                 )}
 
-                <MapUpdater places={places} selectedPlace={selectedPlace} />
+                <MapUpdater places={places} selectedPlace={selectedPlace} searchArea={searchArea ?? null} fitToPlaces={fitToPlaces} />
             </Map>
         </div>
     );
 }
 
-function MapUpdater({ places, selectedPlace }: { places: Place[], selectedPlace: Place | null }) {
+function MapUpdater({ places, selectedPlace, searchArea, fitToPlaces }: { places: Place[], selectedPlace: Place | null, searchArea: NearFilter | null, fitToPlaces: boolean }) {
     const map = useMap();
 
+    // Frame a fixed set of places, e.g. a shared list
+    useEffect(() => {
+        if (!map || !fitToPlaces) return;
+        const located = places.filter((p) => p.lat && p.lng);
+        if (located.length === 0) return;
+
+        if (located.length === 1) {
+            map.panTo({ lat: located[0].lat!, lng: located[0].lng! });
+            map.setZoom(15);
+            return;
+        }
+
+        map.fitBounds({
+            north: Math.max(...located.map((p) => p.lat!)),
+            south: Math.min(...located.map((p) => p.lat!)),
+            east: Math.max(...located.map((p) => p.lng!)),
+            west: Math.min(...located.map((p) => p.lng!)),
+        }, 48);
+    }, [places, fitToPlaces, map]);
+
+    // Frame the radius of a location search
+    useEffect(() => {
+        if (!map || !searchArea) return;
+        map.fitBounds(boundsAround(searchArea));
+    }, [searchArea, map]);
+
     useEffect(() => {
         if (!map) return;
 
@@ -112,13 +142,16 @@ function MapUpdater({ places, selectedPlace }: { places: Place[], selectedPlace:
 
 // Improved info popup for pin click
 function PlaceInfoPopup({ place, onViewDetails }: { place: Place; onViewDetails: () => void }) {
-    const statusConfig = getHalalStatusConfig(place.halal_status);
+    const { t, locale } = useTranslation();
+    const statusConfig = getHalalStatusConfig(place.halal_status, place.verification_issue);
+    const verified = lastVerifiedOn(place);
+    const mapsUrl = safeHttpUrl(place.google_maps_url);
 
     return (
         <div className="p-2 max-w-xs min-w-[200px]">
             <h3 className="font-bold text-base leading-tight mb-1">{place.name}</h3>
             <p className="text-sm text-gray-600 mb-2">
-                {place.cuisine_subtype || place.cuisine_category || 'Restaurant'}
+                {place.cuisine_subtype || place.cuisine_category || t('map.restaurant')}
             </p>
 
             {/* Halal status badge */}
@@ -127,7 +160,7 @@ function PlaceInfoPopup({ place, onViewDetails }: { place: Place; onViewDetails:
                     className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium text-white"
                     style={{ backgroundColor: statusConfig.color }}
                 >
-                    {statusConfig.label}
+                    {t(halalStatusMessages(place.halal_status, place.verification_issue).label)}
                 </span>
                 {place.price_level && (
                     <span className="bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full text-xs">
@@ -136,6 +169,13 @@ function PlaceInfoPopup({ place, onViewDetails }: { place: Place; onViewDetails:
                 )}
             </div>
 
+            {verified && (
+                <p className="text-[11px] text-gray-500 mb-2">
+                    {t('certification.lastVerified')}: {formatCertificateDate(verified, locale)}
+                </p>
+            )}
+            <VerificationWarning place={place} className="mb-2" />
+
             {/* Address */}
             {place.address && (
                 <p className="text-xs text-gray-500 mb-2 line-clamp-2">{place.address}</p>
@@ -147,16 +187,16 @@ function PlaceInfoPopup({ place, onViewDetails }: { place: Place; onViewDetails:
                     onClick={onViewDetails}
                     className="flex-1 text-center py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 rounded transition"
                 >
-                    View Details
+                    {t('map.viewDetails')}
                 </button>
-                {place.google_maps_url && (
+                {mapsUrl && (
                     <a
-                        href={place.google_maps_url}
+                        href={mapsUrl}
                         target="_blank"
                         rel="noopener noreferrer"
                         className="flex-1 text-center py-1.5 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded transition"
                     >
-                        Directions
+                        {t('map.directions')}
                     </a>
                 )}
             </div>
@@ -164,22 +204,156 @@ function PlaceInfoPopup({ place, onViewDetails }: { place: Place; onViewDetails:
     );
 }
 
+// Halal status shown on a cluster: the most common one, ties going to the more trusted status
+function getDominantStatusConfig(statuses: (string | null | undefined)[]) {
+    const counts = new globalThis.Map<string, number>();
+    for (const status of statuses) {
+        const { value } = getHalalStatusConfig(status);
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+
+    return Object.values(HALAL_STATUS).reduce((best, config) =>
+        (counts.get(config.value) ?? 0) > (counts.get(best.value) ?? 0) ? config : best
+    );
+}
+
+function renderCluster(
+    { count, position, markers }: Cluster,
+    statusOf: (marker: Marker) => string | null | undefined,
+    t: Translate
+) {
+    const statusConfig = getDominantStatusConfig(markers.map(statusOf));
+    const size = Math.round(Math.min(56, 28 + Math.log2(count) * 5));
+
+    const content = document.createElement('div');
+    content.textContent = String(count);
+    content.style.cssText = [
+        `width:${size}px`,
+        `height:${size}px`,
+        'border-radius:50%',
+        `background:${statusConfig.color}`,
+        `border:3px solid ${statusConfig.borderColor}`,
+        'box-shadow:0 2px 6px rgba(0,0,0,0.3)',
+        'color:#fff',
+        'font:600 13px/1 sans-serif',
+        'display:flex',
+        'align-items:center',
+        'justify-content:center',
+    ].join(';');
+
+    return new google.maps.marker.AdvancedMarkerElement({
+        position,
+        content,
+        title: t('map.clusterTitle', { count, status: t(halalStatusMessages(statusConfig.value).label) }),
+        zIndex: Number(google.maps.Marker.MAX_ZINDEX) + count,
+    });
+}
+
+/**
+ * Markers grouped into clusters with count badges. Clicking a cluster zooms into
+ * its bounds, so every place can be reached at any zoom level.
+ */
+function ClusteredMarkers({
+    places,
+    onSelectPlace,
+    onHoverPlace,
+}: {
+    places: Place[];
+    onSelectPlace: (place: Place) => void;
+    onHoverPlace: (place: Place | null) => void;
+}) {
+    const map = useMap();
+    const { t } = useTranslation();
+    const [markers, setMarkers] = useState<Record<string, google.maps.marker.AdvancedMarkerElement>>({});
+    const [clusterer, setClusterer] = useState<MarkerClusterer | null>(null);
+
+    // Read by the cluster renderer, so neither a language switch nor new markers rebuild the clusterer
+    const statusByMarker = useRef(new globalThis.Map<Marker, string | null>());
+    const tRef = useRef(t);
+
+    useEffect(() => {
+        if (!map) return;
+        const instance = new MarkerClusterer({
+            map,
+            renderer: { render: (cluster) => renderCluster(cluster, (marker) => statusByMarker.current.get(marker), tRef.current) },
+            onClusterClick: (_event, cluster, clusterMap) => {
+                if (cluster.bounds) clusterMap.fitBounds(cluster.bounds, 48);
+            },
+        });
+        setClusterer(instance);
+        return () => {
+            instance.setMap(null);
+            setClusterer(null);
+        };
+    }, [map]);
+
+    // Redraw the cluster titles in the new language
+    useEffect(() => {
+        tRef.current = t;
+        clusterer?.render();
+    }, [clusterer, t]);
+
+    useEffect(() => {
+        if (!clusterer) return;
+        clusterer.clearMarkers(true);
+        clusterer.addMarkers(Object.values(markers));
+    }, [clusterer, markers]);
+
+    const setMarkerRef = useCallback((marker: google.maps.marker.AdvancedMarkerElement | null, place: Place) => {
+        if (marker) statusByMarker.current.set(marker, getHalalStatusConfig(place.halal_status, place.verification_issue).value);
+
+        setMarkers((prev) => {
+            if (marker ? prev[place.id] === marker : !prev[place.id]) return prev;
+            if (marker) return { ...prev, [place.id]: marker };
+
+            const next = { ...prev };
+            delete next[place.id];
+            return next;
+        });
+    }, []);
+
+    return (
+        <>
+            {places.map((place) => {
+                if (!place.lat || !place.lng) return null;
+                return (
+                    <RestaurantMarker
+                        key={place.id}
+                        place={place}
+                        markerRef={setMarkerRef}
+                        onClick={onSelectPlace}
+                        onMouseEnter={onHoverPlace}
+                        onMouseLeave={() => onHoverPlace(null)}
+                    />
+                );
+            })}
+        </>
+    );
+}
+
 function RestaurantMarker({
     place,
+    markerRef,
     onClick,
     onMouseEnter,
     onMouseLeave
 }: {
     place: Place;
+    markerRef: (marker: google.maps.marker.AdvancedMarkerElement | null, place: Place) => void;
     onClick: (p: Place) => void;
     onMouseEnter: (p: Place) => void;
     onMouseLeave: () => void;
 }) {
     // Use centralized halal status config for consistent colors
-    const statusConfig = getHalalStatusConfig(place.halal_status);
+    const statusConfig = getHalalStatusConfig(place.halal_status, place.verification_issue);
+    const ref = useCallback(
+        (marker: google.maps.marker.AdvancedMarkerElement | null) => markerRef(marker, place),
+        [markerRef, place]
+    );
 
     return (
         <AdvancedMarker
+            ref={ref}
             position={{ lat: place.lat!, lng: place.lng! }}
             onClick={() => onClick(place)}
             onMouseEnter={() => onMouseEnter(place)}
@@ -193,3 +367,23 @@ function RestaurantMarker({
         </AdvancedMarker>
     );
 }
+
+// Enlarged pin outside the clusterer, so the place stands out even inside a cluster
+function HighlightMarker({ place, onClick }: { place: Place; onClick: () => void }) {
+    const statusConfig = getHalalStatusConfig(place.halal_status, place.verification_issue);
+
+    return (
+        <AdvancedMarker
+            position={{ lat: place.lat!, lng: place.lng! }}
+            zIndex={1000}
+            onClick={onClick}
+        >
+            <Pin
+                background={statusConfig.color}
+                borderColor={statusConfig.borderColor}
+                glyphColor={'#fff'}
+                scale={1.5}
+            />
+        </AdvancedMarker>
+    );
+}
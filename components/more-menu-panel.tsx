@@ -1,7 +1,9 @@
 'use client';
 
 import { useState } from 'react';
-import { X, Info, Share2, MessageSquare, Globe, ExternalLink, PlusCircle } from 'lucide-react';
+import { X, Info, Share2, MessageSquare, Globe, ExternalLink, PlusCircle, Check } from 'lucide-react';
+import { LOCALES, LOCALE_NAMES } from '@/lib/i18n';
+import { useTranslation } from '@/contexts/locale-context';
 import SuggestPlaceModal from './suggest-place-modal';
 
 interface MoreMenuPanelProps {
@@ -10,11 +12,16 @@ interface MoreMenuPanelProps {
 
 export default function MoreMenuPanel({ onClose }: MoreMenuPanelProps) {
   const [showSuggestModal, setShowSuggestModal] = useState(false);
+  const [showLanguages, setShowLanguages] = useState(false);
+  const { t, locale, setLocale } = useTranslation();
+
   const handleShare = async () => {
+    // MapWrapper keeps the URL in sync with filters, selected place and viewport
+    const url = window.location.href;
     const shareData = {
       title: 'Tokyo Halal Map',
-      text: 'Find halal restaurants in Tokyo and Japan!',
-      url: window.location.href,
+      text: t('more.shareText'),
+      url,
     };
 
     if (navigator.share) {
@@ -22,13 +29,13 @@ export default function MoreMenuPanel({ onClose }: MoreMenuPanelProps) {
         await navigator.share(shareData);
       } catch (err) {
         // User cancelled or share failed - copy to clipboard instead
-        await navigator.clipboard.writeText(window.location.href);
-        alert('Link copied to clipboard!');
+        await navigator.clipboard.writeText(url);
+        alert(t('more.linkCopied'));
       }
     } else {
       // Fallback: copy to clipboard
-      await navigator.clipboard.writeText(window.location.href);
-      alert('Link copied to clipboard!');
+      await navigator.clipboard.writeText(url);
+      alert(t('more.linkCopied'));
     }
   };
 
@@ -42,10 +49,11 @@ export default function MoreMenuPanel({ onClose }: MoreMenuPanelProps) {
     <div className="absolute top-16 left-1/2 transform -translate-x-1/2 w-72 bg-white rounded-2xl shadow-2xl border border-gray-100 z-50 overflow-hidden animate-in fade-in slide-in-from-top-2">
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-gray-100 bg-gradient-to-r from-gray-50 to-white">
-        <h2 className="text-lg font-semibold text-gray-800">More</h2>
+        <h2 className="text-lg font-semibold text-gray-800">{t('menu.more')}</h2>
         <button
           onClick={onClose}
           className="p-1.5 hover:bg-gray-100 rounded-full transition"
+          aria-label={t('common.close')}
         >
           <X className="w-5 h-5 text-gray-500" />
         </button>
@@ -55,40 +63,58 @@ export default function MoreMenuPanel({ onClose }: MoreMenuPanelProps) {
       <div className="p-2">
         <MenuItem
           icon={<PlusCircle className="w-5 h-5 text-emerald-500" />}
-          label="Suggest a Place"
-          description="Add a restaurant to our map"
+          label={t('more.suggest')}
+          description={t('more.suggest.description')}
           onClick={() => setShowSuggestModal(true)}
         />
 
         <MenuItem
           icon={<Share2 className="w-5 h-5 text-blue-500" />}
-          label="Share"
-          description="Share this map with friends"
+          label={t('more.share')}
+          description={t('more.share.description')}
           onClick={handleShare}
         />
 
         <MenuItem
           icon={<MessageSquare className="w-5 h-5 text-green-500" />}
-          label="Feedback"
-          description="Help us improve"
+          label={t('more.feedback')}
+          description={t('more.feedback.description')}
           onClick={handleFeedback}
         />
 
         <MenuItem
           icon={<Globe className="w-5 h-5 text-purple-500" />}
-          label="Language"
-          description="English"
-          onClick={() => {}}
-          disabled
-          badge="Coming Soon"
+          label={t('more.language')}
+          description={LOCALE_NAMES[locale]}
+          onClick={() => setShowLanguages((show) => !show)}
         />
 
+        {showLanguages && (
+          <div className="ms-14 mb-1 space-y-0.5" role="listbox" aria-label={t('more.language')}>
+            {LOCALES.map((option) => (
+              <button
+                key={option}
+                role="option"
+                aria-selected={option === locale}
+                lang={option}
+                onClick={() => setLocale(option)}
+                className={`w-full flex items-center justify-between px-3 py-1.5 text-sm rounded-lg transition text-start ${
+                  option === locale ? 'bg-purple-50 text-purple-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {LOCALE_NAMES[option]}
+                {option === locale && <Check className="w-4 h-4" />}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="border-t border-gray-100 my-2" />
 
         <MenuItem
           icon={<Info className="w-5 h-5 text-gray-500" />}
-          label="About"
-          description="Tokyo Halal Map v1.0"
+          label={t('more.about')}
+          description={t('more.about.description', { version: '1.0' })}
           onClick={() => {}}
         />
 
@@ -103,9 +129,9 @@ export default function MoreMenuPanel({ onClose }: MoreMenuPanelProps) {
           </div>
           <div className="flex-1">
             <div className="text-sm font-medium text-gray-800 group-hover:text-amber-600 transition">
-              Visit Halalicious
+              {t('more.website')}
             </div>
-            <div className="text-xs text-gray-500">Our main website</div>
+            <div className="text-xs text-gray-500">{t('more.website.description')}</div>
           </div>
         </a>
       </div>
@@ -113,7 +139,7 @@ export default function MoreMenuPanel({ onClose }: MoreMenuPanelProps) {
       {/* Footer */}
       <div className="p-3 bg-gray-50 border-t border-gray-100">
         <p className="text-xs text-gray-400 text-center">
-          Made with love for the Muslim community in Japan
+          {t('more.footer')}
         </p>
       </div>
     </div>
@@ -140,7 +166,7 @@ function MenuItem({ icon, label, description, onClick, disabled, badge }: MenuIt
     <button
       onClick={onClick}
       disabled={disabled}
-      className={`w-full flex items-center gap-3 p-3 rounded-xl transition text-left ${
+      className={`w-full flex items-center gap-3 p-3 rounded-xl transition text-start ${
         disabled ? 'opacity-60 cursor-not-allowed' : 'hover:bg-gray-50'
       }`}
     >
@@ -3,33 +3,41 @@
 import { useEffect, useState, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import { useMapsLibrary } from '@vis.gl/react-google-maps';
-import { X, Star, Clock, MapPin, Globe, Phone, Utensils, User, Heart, ChevronLeft, ChevronRight, Image as ImageIcon } from 'lucide-react';
-import { Place, PlaceDetails } from '@/lib/types';
-import { favorites } from '@/lib/storage';
+import { X, Star, Clock, MapPin, Globe, Phone, Utensils, User, Heart, ChevronLeft, ChevronRight, Image as ImageIcon, BadgeCheck, WineOff, Beef, Moon, FileText } from 'lucide-react';
+import { HalalFlag, Place, PlaceDetails } from '@/lib/types';
+import { CERTIFYING_BODIES, getHalalStatusConfig } from '@/lib/constants';
+import { certificationScopeMessage, halalFlagMessage, halalStatusMessages } from '@/lib/i18n';
+import { formatCertificateDate, lastVerifiedOn } from '@/lib/certification';
+import { safeHttpUrl } from '@/lib/utils';
+import { useFavorites } from '@/contexts/favorites-context';
+import { useTranslation } from '@/contexts/locale-context';
+import VerificationWarning from '@/components/verification-warning';
 
 interface PlaceDetailSidebarProps {
   place: Place | null;
   onClose: () => void;
 }
 
+const HALAL_FLAG_ICONS: Record<HalalFlag, React.ReactNode> = {
+  no_alcohol: <WineOff className="w-3.5 h-3.5" />,
+  halal_meat_only: <Beef className="w-3.5 h-3.5" />,
+  prayer_space: <Moon className="w-3.5 h-3.5" />,
+};
+
 export default function PlaceDetailSidebar({ place, onClose }: PlaceDetailSidebarProps) {
   const placesLib = useMapsLibrary('places');
   const [details, setDetails] = useState<PlaceDetails | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
 
   // Persist the last valid place to show during closing animation
   const [displayPlace, setDisplayPlace] = useState<Place | null>(place);
   const [selectedPhotoIndex, setSelectedPhotoIndex] = useState<number | null>(null);
 
   // Favorites state
-  const [isFavorite, setIsFavorite] = useState(false);
-
-  useEffect(() => {
-    if (displayPlace) {
-      setIsFavorite(favorites.isFavorite(displayPlace.id));
-    }
-  }, [displayPlace]);
+  const favorites = useFavorites();
+  const isFavorite = displayPlace ? favorites.isFavorite(displayPlace.id) : false;
 
   // Define navigatePhoto BEFORE the effect that uses it
   const navigatePhoto = useCallback((direction: number) => {
@@ -85,11 +93,11 @@ export default function PlaceDetailSidebar({ place, onClose }: PlaceDetailSideba
           });
         } else {
           console.error("Places API failed:", status);
-          setError(`Google Details unavailable (${status})`);
+          setError(t('place.detailsUnavailable', { status }));
         }
       }
     );
-  }, [displayPlace, placesLib]);
+  }, [displayPlace, placesLib, t]);
 
   // Don't render until we have a place to display (initial load)
   if (!displayPlace) return null;
@@ -98,24 +106,24 @@ export default function PlaceDetailSidebar({ place, onClose }: PlaceDetailSideba
 
   const toggleFavorite = () => {
     if (!displayPlace) return;
-    const newStatus = favorites.toggle(displayPlace.id);
-    setIsFavorite(newStatus);
+    favorites.toggle(displayPlace.id);
   };
 
   return (
-    <div className={`absolute top-0 left-0 h-full w-96 bg-white shadow-2xl transform transition-transform duration-300 ease-in-out z-20 overflow-y-auto ${isOpen ? 'translate-x-0' : '-translate-x-full'}`}>
+    <div className={`absolute top-0 start-0 h-full w-96 bg-white shadow-2xl transform transition-transform duration-300 ease-in-out z-20 overflow-y-auto ${isOpen ? 'translate-x-0' : '-translate-x-full rtl:translate-x-full'}`}>
       {/* Header Image */}
       <div className="relative h-48 bg-gray-200">
         <button
           onClick={toggleFavorite}
-          className="absolute top-4 right-16 bg-black/50 hover:bg-black/70 text-white p-2 rounded-full z-10 transition group"
-          title={isFavorite ? "Remove from Favorites" : "Add to Favorites"}
+          className="absolute top-4 end-16 bg-black/50 hover:bg-black/70 text-white p-2 rounded-full z-10 transition group"
+          title={isFavorite ? t('place.removeFavorite') : t('place.addFavorite')}
         >
           <Heart className={`w-5 h-5 transition-transform group-hover:scale-110 ${isFavorite ? 'fill-rose-500 text-rose-500' : 'text-white'}`} />
         </button>
         <button
           onClick={onClose}
-          className="absolute top-4 right-4 bg-black/50 hover:bg-black/70 text-white p-2 rounded-full z-10 transition"
+          className="absolute top-4 end-4 bg-black/50 hover:bg-black/70 text-white p-2 rounded-full z-10 transition"
+          aria-label={t('common.close')}
         >
           <X className="w-5 h-5" />
         </button>
@@ -129,16 +137,16 @@ export default function PlaceDetailSidebar({ place, onClose }: PlaceDetailSideba
             />
             <button
               onClick={() => setSelectedPhotoIndex(0)}
-              className="absolute bottom-3 right-3 bg-black/60 hover:bg-black/80 text-white text-xs font-medium px-3 py-1.5 rounded-full backdrop-blur-md transition flex items-center gap-1.5"
+              className="absolute bottom-3 end-3 bg-black/60 hover:bg-black/80 text-white text-xs font-medium px-3 py-1.5 rounded-full backdrop-blur-md transition flex items-center gap-1.5"
             >
               <ImageIcon className="w-3 h-3" />
-              View Photos
+              {t('place.viewPhotos')}
             </button>
           </>
         ) : (
           <div className="w-full h-full flex flex-col items-center justify-center text-gray-400 bg-gray-100">
             <MapPin className="w-8 h-8 opacity-20 mb-2" />
-            <span className="text-xs">No Image Available</span>
+            <span className="text-xs">{t('place.noImage')}</span>
           </div>
         )}
       </div>
@@ -152,20 +160,21 @@ export default function PlaceDetailSidebar({ place, onClose }: PlaceDetailSideba
             <p className="text-sm font-medium">{displayPlace.cuisine_subtype || displayPlace.cuisine_category}</p>
           </div>
 
-          {loading && <div className="text-xs text-blue-500 mt-2 animate-pulse">Loading details...</div>}
+          {loading && <div className="text-xs text-blue-500 mt-2 animate-pulse">{t('place.loadingDetails')}</div>}
           {error && <div className="text-xs text-orange-400 mt-2">{error}</div>}
-          {!displayPlace.place_id && <div className="text-xs text-gray-400 mt-2 italic">Database missing Place ID connection.</div>}
+          {!displayPlace.place_id && <div className="text-xs text-gray-400 mt-2 italic">{t('place.missingPlaceId')}</div>}
 
           {details?.rating && (
             <div className="flex items-center gap-2 mt-2">
               <span className="bg-green-100 text-green-800 text-xs px-2 py-0.5 rounded-full font-bold flex items-center gap-1">
                 {details.rating} <Star className="w-3 h-3 fill-current" />
               </span>
-              <span className="text-gray-500 text-sm">({details.user_ratings_total} reviews)</span>
+              <span className="text-gray-500 text-sm">({t('places.reviews', { count: details.user_ratings_total ?? 0 })})</span>
             </div>
           )}
         </div>
 
+        <HalalCertification place={displayPlace} />
 
         {/* Quick Info */}
         <div className="space-y-4 pt-4 border-t border-gray-100">
@@ -175,7 +184,7 @@ export default function PlaceDetailSidebar({ place, onClose }: PlaceDetailSideba
               <Clock className="w-5 h-5 text-gray-400 mt-0.5" />
               <div>
                 <span className={`font-medium ${details.isOpen ? 'text-green-600' : 'text-red-500'}`}>
-                  {details.isOpen ? 'Open Now' : 'Closed'}
+                  {details.isOpen ? t('filters.openNow') : t('place.closed')}
                 </span>
                 {details.opening_hours.weekday_text && (
                   <div className="mt-1 text-xs text-gray-500 space-y-1">
@@ -210,7 +219,7 @@ export default function PlaceDetailSidebar({ place, onClose }: PlaceDetailSideba
         {/* Reviews */}
         {details?.reviews && details.reviews.length > 0 && (
           <div className="pt-6 border-t border-gray-100">
-            <h3 className="font-semibold text-gray-900 mb-4">Recent Reviews</h3>
+            <h3 className="font-semibold text-gray-900 mb-4">{t('place.recentReviews')}</h3>
             <div className="space-y-4">
               {details.reviews.slice(0, 3).map((review, i) => (
                 <div key={i} className="bg-gray-50 p-3 rounded-xl">
@@ -247,12 +256,12 @@ export default function PlaceDetailSidebar({ place, onClose }: PlaceDetailSideba
         {/* Actions */}
         <div className="pt-6">
           <a
-            href={displayPlace.google_maps_url || `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(displayPlace.name + " " + displayPlace.address)}`}
+            href={safeHttpUrl(displayPlace.google_maps_url) || `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(displayPlace.name + " " + displayPlace.address)}`}
             target="_blank"
             rel="noopener"
             className="block w-full text-center bg-blue-600 text-white font-medium py-3 rounded-xl hover:bg-blue-700 transition shadow-lg shadow-blue-200"
           >
-            View on Google Maps
+            {t('place.viewOnGoogleMaps')}
           </a>
         </div>
       </div>
@@ -266,7 +275,8 @@ export default function PlaceDetailSidebar({ place, onClose }: PlaceDetailSideba
           {/* Close Button */}
           <button
             onClick={() => setSelectedPhotoIndex(null)}
-            className="absolute top-4 right-4 text-white/70 hover:text-white bg-white/10 hover:bg-white/20 rounded-full p-2 transition z-50"
+            aria-label={t('common.close')}
+            className="absolute top-4 end-4 text-white/70 hover:text-white bg-white/10 hover:bg-white/20 rounded-full p-2 transition z-50"
           >
             <X className="w-6 h-6" />
           </button>
@@ -278,9 +288,10 @@ export default function PlaceDetailSidebar({ place, onClose }: PlaceDetailSideba
                 e.stopPropagation();
                 navigatePhoto(-1);
               }}
-              className="absolute left-4 text-white/70 hover:text-white bg-white/10 hover:bg-white/20 rounded-full p-3 transition z-50 group"
+              aria-label={t('place.previousPhoto')}
+              className="absolute start-4 text-white/70 hover:text-white bg-white/10 hover:bg-white/20 rounded-full p-3 transition z-50 group"
             >
-              <ChevronLeft className="w-8 h-8 group-hover:-translate-x-1 transition-transform" />
+              <ChevronLeft className="w-8 h-8 group-hover:-translate-x-1 transition-transform rtl:rotate-180" />
             </button>
           )}
 
@@ -288,7 +299,7 @@ export default function PlaceDetailSidebar({ place, onClose }: PlaceDetailSideba
           <div className="relative max-h-[90vh] max-w-[90vw]" onClick={(e) => e.stopPropagation()}>
             <img
               src={details.photos[selectedPhotoIndex].getUrl({ maxWidth: 1600, maxHeight: 1200 })}
-              alt={`Photo ${selectedPhotoIndex + 1}`}
+              alt={t('place.photo', { number: selectedPhotoIndex + 1 })}
               className="max-h-[85vh] max-w-[90vw] object-contain rounded-md shadow-2xl"
             />
             <div className="absolute bottom-[-40px] left-0 right-0 text-center text-white/50 text-sm">
@@ -303,9 +314,10 @@ export default function PlaceDetailSidebar({ place, onClose }: PlaceDetailSideba
                 e.stopPropagation();
                 navigatePhoto(1);
               }}
-              className="absolute right-4 text-white/70 hover:text-white bg-white/10 hover:bg-white/20 rounded-full p-3 transition z-50 group"
+              aria-label={t('place.nextPhoto')}
+              className="absolute end-4 text-white/70 hover:text-white bg-white/10 hover:bg-white/20 rounded-full p-3 transition z-50 group"
             >
-              <ChevronRight className="w-8 h-8 group-hover:translate-x-1 transition-transform" />
+              <ChevronRight className="w-8 h-8 group-hover:translate-x-1 transition-transform rtl:rotate-180" />
             </button>
           )}
         </div>,
@@ -314,3 +326,84 @@ export default function PlaceDetailSidebar({ place, onClose }: PlaceDetailSideba
     </div>
   );
 }
+
+// Halal status with the certificate on record, when it was last verified and the verified halal details
+function HalalCertification({ place }: { place: Place }) {
+  const { t, locale } = useTranslation();
+  const statusConfig = getHalalStatusConfig(place.halal_status, place.verification_issue);
+  const verified = lastVerifiedOn(place);
+  const scope = place.certification_scope && certificationScopeMessage(place.certification_scope);
+  const evidenceUrl = safeHttpUrl(place.certification_url);
+
+  const rows: [string, string][] = [];
+  if (place.certifying_body) {
+    const name = CERTIFYING_BODIES[place.certifying_body];
+    rows.push([t('certification.body'), name ? `${name} (${place.certifying_body})` : place.certifying_body]);
+  }
+  if (place.certificate_number) rows.push([t('certification.number'), place.certificate_number]);
+  if (scope) rows.push([t('certification.scope'), t(scope)]);
+  if (place.certified_on) rows.push([t('certification.issued'), formatCertificateDate(place.certified_on, locale)]);
+  if (place.certification_expires_on) {
+    rows.push([t('certification.expires'), formatCertificateDate(place.certification_expires_on, locale)]);
+  }
+  if (verified) rows.push([t('certification.lastVerified'), formatCertificateDate(verified, locale)]);
+
+  return (
+    <div className="pt-4 border-t border-gray-100 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <BadgeCheck className="w-5 h-5 text-gray-400" />
+          {t('certification.title')}
+        </h3>
+        <span
+          className="px-2 py-0.5 rounded-full text-xs font-medium text-white"
+          style={{ backgroundColor: statusConfig.color }}
+        >
+          {t(halalStatusMessages(place.halal_status, place.verification_issue).label)}
+        </span>
+      </div>
+
+      <VerificationWarning place={place} />
+
+      {rows.length > 0 ? (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          {rows.map(([label, value]) => (
+            <div key={label} className="contents">
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="text-gray-800">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      ) : (
+        <p className="text-xs text-gray-400 italic">{t('certification.none')}</p>
+      )}
+
+      {evidenceUrl && (
+        <a
+          href={evidenceUrl}
+          target="_blank"
+          rel="noopener"
+          className="inline-flex items-center gap-1.5 text-sm text-blue-600 hover:underline"
+        >
+          <FileText className="w-4 h-4" />
+          {t('certification.evidence')}
+        </a>
+      )}
+
+      {place.halal_flags && place.halal_flags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {place.halal_flags.map((flag) => {
+            const key = halalFlagMessage(flag);
+            if (!key) return null;
+            return (
+              <span key={flag} className="inline-flex items-center gap-1 bg-green-50 text-green-800 px-2 py-0.5 rounded-full text-xs">
+                {HALAL_FLAG_ICONS[flag as HalalFlag]}
+                {t(key)}
+              </span>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
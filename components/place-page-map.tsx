@@ -0,0 +1,16 @@
+'use client';
+
+import { APIProvider } from '@vis.gl/react-google-maps';
+import RestaurantMap from '@/components/map';
+import { Place } from '@/lib/types';
+
+/**
+ * Small map centered on a single place, for the server-rendered place page
+ */
+export default function PlacePageMap({ place }: { place: Place }) {
+  return (
+    <APIProvider apiKey={process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || ''}>
+      <RestaurantMap places={[place]} selectedPlace={null} onSelectPlace={() => {}} fitToPlaces />
+    </APIProvider>
+  );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { X, List, Star, MapPin } from 'lucide-react';
+import { LatLng, Place, PlaceFilter, PlaceRating, PlaceSort, PlaceWithDistance } from '@/lib/types';
+import { getHalalStatusConfig } from '@/lib/constants';
+import { distanceMeters, formatDistance } from '@/lib/geo';
+import { rankPlaces } from '@/lib/ranking';
+import { MessageKey, halalStatusMessages } from '@/lib/i18n';
+import { useTranslation } from '@/contexts/locale-context';
+
+interface ResultsListPanelProps {
+  places: PlaceWithDistance[];
+  ratings: Map<string, PlaceRating>; // Keyed by Google place ID
+  filter: PlaceFilter;
+  origin?: LatLng | null;            // Distances are measured from here (search center or map center)
+  isLoading?: boolean;
+  onSortChange: (sort: PlaceSort) => void;
+  onSelectPlace: (place: Place) => void;
+  onHoverPlace: (place: Place | null) => void;
+  onClose: () => void;
+}
+
+const SORT_OPTIONS: { value: PlaceSort; label: MessageKey }[] = [
+  { value: 'relevance', label: 'results.sort.relevance' },
+  { value: 'rating', label: 'results.sort.rating' },
+  { value: 'distance', label: 'results.sort.distance' },
+  { value: 'halal', label: 'results.sort.halal' },
+];
+
+// Rows have a fixed height so only the visible ones need rendering
+const ROW_HEIGHT = 76;
+const OVERSCAN_ROWS = 6;
+
+export default function ResultsListPanel({
+  places,
+  ratings,
+  filter,
+  origin,
+  isLoading = false,
+  onSortChange,
+  onSelectPlace,
+  onHoverPlace,
+  onClose,
+}: ResultsListPanelProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const { t } = useTranslation();
+  const sort = filter.sort ?? 'relevance';
+
+  // Same ranking as the server, re-applied here so sort changes and late ratings show without a refetch
+  const ranked = useMemo(() => {
+    const withDistance = places.map((p) =>
+      p.distance_m === undefined && origin && p.lat !== null && p.lng !== null
+        ? { ...p, distance_m: Math.round(distanceMeters(origin, { lat: p.lat, lng: p.lng })) }
+        : p
+    );
+    return rankPlaces(withDistance, {
+      sort,
+      filter,
+      getRating: (p) => (p.place_id ? ratings.get(p.place_id) : undefined),
+    });
+  }, [places, ratings, filter, sort, origin]);
+
+  // Track the list height so the visible window is right after resizes
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const observer = new ResizeObserver(([entry]) => setViewportHeight(entry.contentRect.height));
+    observer.observe(list);
+    return () => observer.disconnect();
+  }, []);
+
+  // Back to the top for a new search or sort (not when panning loads more places)
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = 0;
+  }, [filter]);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(ranked.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const visibleRows = ranked.slice(firstRow, lastRow);
+
+  return (
+    <div className="absolute top-28 bottom-4 start-2 end-2 md:start-4 md:end-auto md:w-80 z-20 bg-white/95 backdrop-blur-md rounded-2xl shadow-2xl border border-white/20 flex flex-col animate-in fade-in slide-in-from-left-4 duration-200">
+      <div className="p-4 border-b border-gray-100 flex items-center justify-between bg-white/50 rounded-t-2xl">
+        <h3 className="font-bold text-gray-800 flex items-center gap-2">
+          <List className="w-4 h-4 text-blue-600" />
+          {t('results.title')}
+          <span className="text-xs font-medium text-gray-500">{ranked.length}</span>
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-gray-200 rounded-full transition" aria-label={t('common.close')}>
+          <X className="w-4 h-4 text-gray-500" />
+        </button>
+      </div>
+
+      {/* Sort controls */}
+      <div className="px-3 py-2 border-b border-gray-100 flex gap-1.5 overflow-x-auto">
+        {SORT_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => onSortChange(option.value)}
+            className={`px-3 py-1 text-xs font-medium rounded-full border whitespace-nowrap transition ${
+              sort === option.value
+                ? 'bg-blue-100 border-blue-300 text-blue-800'
+                : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {t(option.label)}
+          </button>
+        ))}
+      </div>
+
+      <div
+        ref={listRef}
+        className={`flex-1 overflow-y-auto transition-opacity ${isLoading ? 'opacity-50' : ''}`}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        onMouseLeave={() => onHoverPlace(null)}
+      >
+        {ranked.length === 0 ? (
+          <div className="p-6 text-center text-sm text-gray-500">
+            {isLoading ? t('results.searching') : t('results.empty')}
+          </div>
+        ) : (
+          <div className="relative" style={{ height: ranked.length * ROW_HEIGHT }}>
+            {visibleRows.map((place, i) => (
+              <ResultRow
+                key={place.id}
+                place={place}
+                rating={place.place_id ? ratings.get(place.place_id) : undefined}
+                top={(firstRow + i) * ROW_HEIGHT}
+                onSelect={() => onSelectPlace(place)}
+                onHover={() => onHoverPlace(place)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ResultRow({
+  place,
+  rating,
+  top,
+  onSelect,
+  onHover,
+}: {
+  place: PlaceWithDistance;
+  rating?: PlaceRating;
+  top: number;
+  onSelect: () => void;
+  onHover: () => void;
+}) {
+  const { t } = useTranslation();
+  const statusConfig = getHalalStatusConfig(place.halal_status, place.verification_issue);
+  const cuisine = place.cuisine_subtype || place.cuisine_category;
+
+  return (
+    <button
+      onClick={onSelect}
+      onMouseEnter={onHover}
+      onFocus={onHover}
+      className="absolute inset-x-0 px-4 py-2.5 text-start border-b border-gray-50 hover:bg-blue-50/60 focus:bg-blue-50/60 focus:outline-none transition-colors"
+      style={{ top, height: ROW_HEIGHT }}
+    >
+      <div className="flex items-center gap-2">
+        <span className="font-medium text-sm text-gray-800 truncate flex-1">{place.name}</span>
+        <span
+          className="shrink-0 px-1.5 py-0.5 rounded text-[10px] font-semibold text-white"
+          style={{ backgroundColor: statusConfig.color }}
+        >
+          {t(halalStatusMessages(place.halal_status, place.verification_issue).label)}
+        </span>
+      </div>
+      <div className="mt-1 flex items-center gap-2 text-xs text-gray-500 truncate">
+        {cuisine && <span className="truncate">{cuisine}</span>}
+        {place.price_level && <span>{place.price_level}</span>}
+        {rating?.rating && (
+          <span className="flex items-center gap-0.5 text-amber-600">
+            <Star className="w-3 h-3 fill-current" />
+            {rating.rating}
+            {rating.user_ratings_total ? <span className="text-gray-400">({rating.user_ratings_total})</span> : null}
+          </span>
+        )}
+        {place.distance_m !== undefined && (
+          <span className="flex items-center gap-0.5 ms-auto shrink-0">
+            <MapPin className="w-3 h-3" />
+            {formatDistance(place.distance_m)}
+          </span>
+        )}
+      </div>
+      {place.city && <div className="mt-0.5 text-xs text-gray-400 truncate">{place.city}</div>}
+    </button>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { APIProvider } from '@vis.gl/react-google-maps';
+import { MapPin, List } from 'lucide-react';
+import RestaurantMap from '@/components/map';
+import { Place, SharedCollection } from '@/lib/types';
+import { APP_INFO, getHalalStatusConfig } from '@/lib/constants';
+import { halalStatusMessages } from '@/lib/i18n';
+import { useTranslation } from '@/contexts/locale-context';
+
+interface SharedCollectionViewProps {
+  collection: SharedCollection;
+  places: Place[]; // In list order
+}
+
+/**
+ * Read-only page for a shared list: the places in order beside the map
+ */
+export default function SharedCollectionView({ collection, places }: SharedCollectionViewProps) {
+  const [selectedPlace, setSelectedPlace] = useState<Place | null>(null);
+  const { t } = useTranslation();
+  const notes = new Map(collection.places.map((p) => [p.place_id, p.note]));
+
+  return (
+    <APIProvider apiKey={process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY || ''} libraries={['places']}>
+      <div className="flex flex-col md:flex-row h-screen w-full overflow-hidden">
+        <aside className="md:w-96 max-h-[45vh] md:max-h-none bg-white shadow-xl z-10 flex flex-col">
+          <div className="p-4 border-b border-gray-100">
+            <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+              <List className="w-3 h-3" />
+              {t('shared.label')}
+            </div>
+            <h1 className="text-xl font-bold text-gray-900">{collection.name}</h1>
+            {collection.notes && <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">{collection.notes}</p>}
+            <Link href="/" className="inline-block mt-3 text-xs font-medium text-blue-600 hover:underline">
+              {t('shared.exploreMore', { name: APP_INFO.NAME })}
+            </Link>
+          </div>
+
+          <div className="overflow-y-auto p-2 flex-1">
+            {places.length === 0 ? (
+              <div className="p-8 text-center text-gray-400 text-sm">{t('favorites.listEmpty')}</div>
+            ) : (
+              <ol className="space-y-1">
+                {places.map((place, index) => {
+                  const statusConfig = getHalalStatusConfig(place.halal_status, place.verification_issue);
+                  const note = notes.get(place.id);
+                  return (
+                    <li key={place.id}>
+                      <button
+                        onClick={() => setSelectedPlace(place)}
+                        className={`w-full text-start p-2 rounded-xl transition flex items-start gap-3 ${
+                          selectedPlace?.id === place.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                        }`}
+                      >
+                        <span className="mt-0.5 w-6 h-6 flex-shrink-0 rounded-full bg-blue-100 text-blue-700 text-xs font-bold flex items-center justify-center">
+                          {index + 1}
+                        </span>
+                        <div className="min-w-0">
+                          <div className="font-medium text-gray-900">{place.name}</div>
+                          <div className="text-xs text-gray-500 flex items-center gap-1">
+                            <MapPin className="w-3 h-3" />
+                            {[place.cuisine_subtype || place.cuisine_category, place.city].filter(Boolean).join(' · ')}
+                          </div>
+                          <span
+                            className="inline-block mt-1 px-2 py-0.5 rounded-full text-[10px] font-medium text-white"
+                            style={{ backgroundColor: statusConfig.color }}
+                          >
+                            {t(halalStatusMessages(place.halal_status, place.verification_issue).label)}
+                          </span>
+                          {note && <p className="text-xs text-gray-600 mt-1 italic">{note}</p>}
+                        </div>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        </aside>
+
+        <div className="flex-1 relative">
+          <RestaurantMap
+            places={places}
+            selectedPlace={selectedPlace}
+            onSelectPlace={setSelectedPlace}
+            fitToPlaces
+          />
+        </div>
+      </div>
+    </APIProvider>
+  );
+}
@@ -2,6 +2,8 @@
 
 import { useState } from 'react';
 import { X, MapPin, Store, Phone, Globe, Send, CheckCircle } from 'lucide-react';
+import { MessageKey } from '@/lib/i18n';
+import { useTranslation } from '@/contexts/locale-context';
 
 interface SuggestPlaceModalProps {
   onClose: () => void;
@@ -31,11 +33,34 @@ const initialFormData: FormData = {
   submitterEmail: '',
 };
 
+// Values are stored as-is (English, like the places table); only the labels are translated
+const CUISINE_OPTIONS: { value: string; label: MessageKey }[] = [
+  { value: 'Japanese', label: 'suggest.cuisine.japanese' },
+  { value: 'Ramen', label: 'suggest.cuisine.ramen' },
+  { value: 'Sushi', label: 'suggest.cuisine.sushi' },
+  { value: 'Yakiniku', label: 'suggest.cuisine.yakiniku' },
+  { value: 'Curry', label: 'suggest.cuisine.curry' },
+  { value: 'Indian', label: 'suggest.cuisine.indian' },
+  { value: 'Middle Eastern', label: 'suggest.cuisine.middleEastern' },
+  { value: 'Turkish', label: 'suggest.cuisine.turkish' },
+  { value: 'Indonesian', label: 'suggest.cuisine.indonesian' },
+  { value: 'Malaysian', label: 'suggest.cuisine.malaysian' },
+  { value: 'Other', label: 'suggest.cuisine.other' },
+];
+
+const HALAL_STATUS_OPTIONS: { value: string; label: MessageKey }[] = [
+  { value: 'Fully Halal', label: 'suggest.halal.certified' },
+  { value: 'Muslim-Friendly', label: 'suggest.halal.muslimFriendly' },
+  { value: 'Halal Menu Available', label: 'suggest.halal.menu' },
+  { value: 'Unknown', label: 'suggest.halal.unknown' },
+];
+
 export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
   const [formData, setFormData] = useState<FormData>(initialFormData);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { t } = useTranslation();
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -48,7 +73,7 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
 
     // Basic validation
     if (!formData.name.trim() || !formData.address.trim()) {
-      setError('Restaurant name and address are required.');
+      setError(t('suggest.error.required'));
       return;
     }
 
@@ -63,12 +88,12 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
 
       if (!response.ok) {
         const data = await response.json();
-        throw new Error(data.error || 'Failed to submit suggestion');
+        throw new Error(data.error || t('suggest.error.submit'));
       }
 
       setIsSubmitted(true);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to submit. Please try again.');
+      setError(err instanceof Error ? err.message : t('suggest.error.retry'));
     } finally {
       setIsSubmitting(false);
     }
@@ -82,15 +107,15 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
           <div className="w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
             <CheckCircle className="w-8 h-8 text-green-600" />
           </div>
-          <h2 className="text-xl font-semibold text-gray-800 mb-2">Thank You!</h2>
+          <h2 className="text-xl font-semibold text-gray-800 mb-2">{t('suggest.thanks')}</h2>
           <p className="text-gray-600 mb-6">
-            Your suggestion has been submitted. We&apos;ll review it and add it to the map if it meets our criteria.
+            {t('suggest.thanks.description')}
           </p>
           <button
             onClick={onClose}
             className="px-6 py-2.5 bg-blue-600 text-white rounded-full font-medium hover:bg-blue-700 transition"
           >
-            Done
+            {t('suggest.done')}
           </button>
         </div>
       </div>
@@ -103,12 +128,13 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b border-gray-100 bg-gradient-to-r from-blue-50 to-white">
           <div>
-            <h2 className="text-lg font-semibold text-gray-800">Suggest a Place</h2>
-            <p className="text-xs text-gray-500">Help us grow our halal restaurant database</p>
+            <h2 className="text-lg font-semibold text-gray-800">{t('more.suggest')}</h2>
+            <p className="text-xs text-gray-500">{t('suggest.subtitle')}</p>
           </div>
           <button
             onClick={onClose}
             className="p-1.5 hover:bg-gray-100 rounded-full transition"
+            aria-label={t('common.close')}
           >
             <X className="w-5 h-5 text-gray-500" />
           </button>
@@ -126,14 +152,14 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
           <div>
             <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1.5">
               <Store className="w-4 h-4 text-gray-400" />
-              Restaurant Name <span className="text-red-500">*</span>
+              {t('suggest.name')} <span className="text-red-500">*</span>
             </label>
             <input
               type="text"
               name="name"
               value={formData.name}
               onChange={handleChange}
-              placeholder="e.g., Halal Ramen Tokyo"
+              placeholder={t('suggest.name.placeholder')}
               className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition"
               required
             />
@@ -143,14 +169,14 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
           <div>
             <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1.5">
               <MapPin className="w-4 h-4 text-gray-400" />
-              Address <span className="text-red-500">*</span>
+              {t('suggest.address')} <span className="text-red-500">*</span>
             </label>
             <input
               type="text"
               name="address"
               value={formData.address}
               onChange={handleChange}
-              placeholder="Full address in Japan"
+              placeholder={t('suggest.address.placeholder')}
               className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition"
               required
             />
@@ -159,14 +185,14 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
           {/* City */}
           <div>
             <label className="text-sm font-medium text-gray-700 mb-1.5 block">
-              City/Area
+              {t('suggest.city')}
             </label>
             <input
               type="text"
               name="city"
               value={formData.city}
               onChange={handleChange}
-              placeholder="e.g., Shinjuku, Tokyo"
+              placeholder={t('suggest.city.placeholder')}
               className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition"
             />
           </div>
@@ -176,7 +202,7 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
             {/* Cuisine Type */}
             <div>
               <label className="text-sm font-medium text-gray-700 mb-1.5 block">
-                Cuisine Type
+                {t('suggest.cuisine')}
               </label>
               <select
                 name="cuisineType"
@@ -184,25 +210,17 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
                 onChange={handleChange}
                 className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition bg-white"
               >
-                <option value="">Select...</option>
-                <option value="Japanese">Japanese</option>
-                <option value="Ramen">Ramen</option>
-                <option value="Sushi">Sushi</option>
-                <option value="Yakiniku">Yakiniku</option>
-                <option value="Curry">Curry</option>
-                <option value="Indian">Indian</option>
-                <option value="Middle Eastern">Middle Eastern</option>
-                <option value="Turkish">Turkish</option>
-                <option value="Indonesian">Indonesian</option>
-                <option value="Malaysian">Malaysian</option>
-                <option value="Other">Other</option>
+                <option value="">{t('suggest.select')}</option>
+                {CUISINE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{t(option.label)}</option>
+                ))}
               </select>
             </div>
 
             {/* Halal Status */}
             <div>
               <label className="text-sm font-medium text-gray-700 mb-1.5 block">
-                Halal Status
+                {t('results.sort.halal')}
               </label>
               <select
                 name="halalStatus"
@@ -210,11 +228,10 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
                 onChange={handleChange}
                 className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition bg-white"
               >
-                <option value="">Select...</option>
-                <option value="Fully Halal">Fully Halal Certified</option>
-                <option value="Muslim-Friendly">Muslim-Friendly</option>
-                <option value="Halal Menu Available">Halal Menu Available</option>
-                <option value="Unknown">Not Sure</option>
+                <option value="">{t('suggest.select')}</option>
+                {HALAL_STATUS_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>{t(option.label)}</option>
+                ))}
               </select>
             </div>
           </div>
@@ -223,7 +240,7 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
           <div>
             <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1.5">
               <Phone className="w-4 h-4 text-gray-400" />
-              Phone Number
+              {t('suggest.phone')}
             </label>
             <input
               type="tel"
@@ -239,7 +256,7 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
           <div>
             <label className="flex items-center gap-2 text-sm font-medium text-gray-700 mb-1.5">
               <Globe className="w-4 h-4 text-gray-400" />
-              Website or Google Maps Link
+              {t('suggest.website')}
             </label>
             <input
               type="url"
@@ -254,13 +271,13 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
           {/* Notes */}
           <div>
             <label className="text-sm font-medium text-gray-700 mb-1.5 block">
-              Additional Notes
+              {t('suggest.notes')}
             </label>
             <textarea
               name="notes"
               value={formData.notes}
               onChange={handleChange}
-              placeholder="Any additional information about the restaurant..."
+              placeholder={t('suggest.notes.placeholder')}
               rows={3}
               className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition resize-none"
             />
@@ -269,14 +286,14 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
           {/* Your Email (optional) */}
           <div>
             <label className="text-sm font-medium text-gray-700 mb-1.5 block">
-              Your Email (optional)
+              {t('suggest.email')}
             </label>
             <input
               type="email"
               name="submitterEmail"
               value={formData.submitterEmail}
               onChange={handleChange}
-              placeholder="We'll notify you when it's added"
+              placeholder={t('suggest.email.placeholder')}
               className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition"
             />
           </div>
@@ -293,12 +310,12 @@ export default function SuggestPlaceModal({ onClose }: SuggestPlaceModalProps) {
             {isSubmitting ? (
               <>
                 <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                Submitting...
+                {t('suggest.submitting')}
               </>
             ) : (
               <>
                 <Send className="w-4 h-4" />
-                Submit Suggestion
+                {t('suggest.submit')}
               </>
             )}
           </button>
@@ -0,0 +1,301 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, X, GitMerge, MapPin, Phone, Globe, Mail, Search, Inbox } from 'lucide-react';
+import { LatLng, Place, PlaceSuggestion, SuggestionReviewAction, SuggestionStatus, SuggestionReviewResponse } from '@/lib/types';
+import { getHalalStatusConfig } from '@/lib/constants';
+import { safeHttpUrl } from '@/lib/utils';
+
+interface SuggestionReviewQueueProps {
+  initialSuggestions: PlaceSuggestion[];
+}
+
+const STATUS_TABS: { value: SuggestionStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'merged', label: 'Merged' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+export default function SuggestionReviewQueue({ initialSuggestions }: SuggestionReviewQueueProps) {
+  const [status, setStatus] = useState<SuggestionStatus>('pending');
+  const [suggestions, setSuggestions] = useState<PlaceSuggestion[]>(initialSuggestions);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = async (next: SuggestionStatus) => {
+    setStatus(next);
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/admin/suggestions?status=${next}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || 'Failed to load suggestions');
+      setSuggestions(Array.isArray(data?.suggestions) ? data.suggestions : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load suggestions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Drop a reviewed suggestion from the pending list
+  const handleReviewed = (id: string) => {
+    setSuggestions((prev) => prev.filter((s) => s.id !== id));
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto p-6">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Place Suggestions</h1>
+        <p className="text-sm text-gray-500">Review restaurants submitted by the community</p>
+      </div>
+
+      {/* Status tabs */}
+      <div className="flex gap-2 mb-4">
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.value}
+            onClick={() => loadStatus(tab.value)}
+            className={`px-3 py-1.5 text-xs font-medium rounded-full border transition ${
+              status === tab.value
+                ? 'bg-blue-100 border-blue-300 text-blue-800'
+                : 'bg-white border-gray-200 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-4 border-blue-600 border-t-transparent"></div>
+        </div>
+      ) : suggestions.length === 0 ? (
+        <div className="p-12 text-center text-gray-400 text-sm bg-white rounded-2xl border border-gray-100">
+          <Inbox className="w-8 h-8 mx-auto mb-2 opacity-40" />
+          <p>No {status} suggestions.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {suggestions.map((suggestion) => (
+            <SuggestionCard
+              key={suggestion.id}
+              suggestion={suggestion}
+              onReviewed={handleReviewed}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// "lat, lng" as typed by the reviewer, or undefined to let the server geocode
+function parseCoordinates(value: string): LatLng | undefined {
+  const [lat, lng] = value.split(',').map((part) => Number(part.trim()));
+  return value.trim() && Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : undefined;
+}
+
+interface SuggestionCardProps {
+  suggestion: PlaceSuggestion;
+  onReviewed: (id: string) => void;
+}
+
+function SuggestionCard({ suggestion, onReviewed }: SuggestionCardProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [coordinates, setCoordinates] = useState('');
+  const [showMerge, setShowMerge] = useState(false);
+  const [mergeQuery, setMergeQuery] = useState(suggestion.name);
+  const [mergeCandidates, setMergeCandidates] = useState<Place[]>([]);
+
+  const statusConfig = getHalalStatusConfig(suggestion.halal_status);
+  const website = safeHttpUrl(suggestion.website); // Submitted anonymously; only http(s) links are shown
+  const isPending = suggestion.status === 'pending';
+
+  const review = async (action: SuggestionReviewAction, placeId?: string) => {
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/admin/suggestions/${suggestion.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, placeId, note, location: parseCoordinates(coordinates) }),
+      });
+      const data: SuggestionReviewResponse = await res.json();
+      if (!res.ok) throw new Error(data?.error || 'Review failed');
+      onReviewed(suggestion.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Review failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Look up existing places that this suggestion may duplicate
+  const searchMergeCandidates = async () => {
+    setError(null);
+    try {
+      const res = await fetch('/api/places/search', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filter: { keyword: mergeQuery } }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || 'Search failed');
+      setMergeCandidates(Array.isArray(data?.places) ? data.places.slice(0, 5) : []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Search failed');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <h2 className="font-semibold text-gray-900">{suggestion.name}</h2>
+          <p className="text-xs text-gray-500">
+            {suggestion.cuisine_type || 'Cuisine not given'}
+            {suggestion.city && ` • ${suggestion.city}`}
+            {' • '}
+            {new Date(suggestion.created_at).toLocaleDateString()}
+          </p>
+        </div>
+        <span
+          className="flex-shrink-0 px-2 py-0.5 rounded-full text-xs font-medium text-white"
+          style={{ backgroundColor: statusConfig.color }}
+        >
+          {suggestion.halal_status || statusConfig.label}
+        </span>
+      </div>
+
+      <div className="mt-3 space-y-1.5 text-sm text-gray-600">
+        <div className="flex items-start gap-2">
+          <MapPin className="w-4 h-4 text-gray-400 mt-0.5 flex-shrink-0" />
+          <span>{suggestion.address}</span>
+        </div>
+        {suggestion.phone && (
+          <div className="flex items-center gap-2">
+            <Phone className="w-4 h-4 text-gray-400" />
+            <span>{suggestion.phone}</span>
+          </div>
+        )}
+        {website && (
+          <a href={website} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-blue-600 hover:underline">
+            <Globe className="w-4 h-4 text-gray-400" />
+            <span className="truncate">{website}</span>
+          </a>
+        )}
+        {suggestion.submitter_email && (
+          <div className="flex items-center gap-2">
+            <Mail className="w-4 h-4 text-gray-400" />
+            <span>{suggestion.submitter_email}</span>
+          </div>
+        )}
+        {suggestion.notes && (
+          <p className="text-xs bg-gray-50 rounded-lg p-2 text-gray-600">{suggestion.notes}</p>
+        )}
+        {suggestion.review_note && (
+          <p className="text-xs text-gray-500 italic">Review note: {suggestion.review_note}</p>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-3 p-2 bg-red-50 border border-red-200 rounded-lg text-red-700 text-xs">
+          {error}
+        </div>
+      )}
+
+      {isPending && (
+        <div className="mt-4 pt-3 border-t border-gray-100 space-y-3">
+          <input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Review note (optional)"
+            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition"
+          />
+          <input
+            value={coordinates}
+            onChange={(e) => setCoordinates(e.target.value)}
+            placeholder="Coordinates for approval, e.g. 35.6595, 139.7005 (optional, geocoded from the address otherwise)"
+            className="w-full px-3 py-2 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition"
+          />
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => review('approve')}
+              disabled={isSubmitting}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full bg-green-600 text-white hover:bg-green-700 transition disabled:opacity-50"
+            >
+              <Check className="w-3.5 h-3.5" />
+              Approve
+            </button>
+            <button
+              onClick={() => setShowMerge(!showMerge)}
+              disabled={isSubmitting}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full border border-blue-300 text-blue-700 hover:bg-blue-50 transition disabled:opacity-50"
+            >
+              <GitMerge className="w-3.5 h-3.5" />
+              Merge
+            </button>
+            <button
+              onClick={() => review('reject')}
+              disabled={isSubmitting}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full text-red-600 hover:bg-red-50 transition disabled:opacity-50"
+            >
+              <X className="w-3.5 h-3.5" />
+              Reject
+            </button>
+          </div>
+
+          {showMerge && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <input
+                  value={mergeQuery}
+                  onChange={(e) => setMergeQuery(e.target.value)}
+                  placeholder="Search existing places"
+                  className="flex-1 px-3 py-1.5 text-sm border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition"
+                />
+                <button
+                  onClick={searchMergeCandidates}
+                  className="p-2 rounded-lg bg-gray-100 hover:bg-gray-200 transition"
+                  title="Find matching places"
+                >
+                  <Search className="w-4 h-4 text-gray-600" />
+                </button>
+              </div>
+              {mergeCandidates.map((place) => (
+                <button
+                  key={place.id}
+                  onClick={() => review('merge', place.id)}
+                  disabled={isSubmitting}
+                  className="w-full text-start p-2 hover:bg-blue-50 rounded-xl transition flex items-start gap-3 disabled:opacity-50"
+                >
+                  <div className="mt-1 bg-blue-100 p-1.5 rounded-full text-blue-600">
+                    <GitMerge className="w-3 h-3" />
+                  </div>
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">{place.name}</div>
+                    <div className="text-xs text-gray-500 truncate">{place.address}</div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
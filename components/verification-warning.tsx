@@ -0,0 +1,26 @@
+'use client';
+
+import { TriangleAlert } from 'lucide-react';
+import { Place } from '@/lib/types';
+import { useTranslation } from '@/contexts/locale-context';
+
+interface VerificationWarningProps {
+  place: Pick<Place, 'verification_issue'>;
+  className?: string;
+}
+
+/**
+ * Banner for a place flagged by the verification job (lib/verification.ts):
+ * its certificate has expired, or its halal status hasn't been checked for a long time
+ */
+export default function VerificationWarning({ place, className = '' }: VerificationWarningProps) {
+  const { t } = useTranslation();
+  if (place.verification_issue !== 'expired' && place.verification_issue !== 'stale') return null;
+
+  return (
+    <div className={`flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-xs text-amber-800 ${className}`}>
+      <TriangleAlert className="w-4 h-4 shrink-0" />
+      <span>{t(place.verification_issue === 'expired' ? 'certification.warning.expired' : 'certification.warning.stale')}</span>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { chatConversations } from '@/lib/storage';
+import { conversationTitle } from '@/lib/chat-history';
+import {
+  ChatConversation,
+  ChatConversationResponse,
+  ChatConversationSummary,
+  ChatConversationsResponse,
+  ChatMessage,
+  PlaceFilter,
+} from '@/lib/types';
+import { useAuth } from './auth-context';
+
+interface ChatHistoryContextType {
+  conversations: ChatConversationSummary[];
+  activeId: string | null; // The conversation in the chat panel; null for a new chat
+  isSynced: boolean;       // False for guests, or while the account can't be reached
+  load: (id: string) => Promise<ChatConversation | null>;
+  save: (messages: ChatMessage[], lastFilter: PlaceFilter) => Promise<void>;
+  setActiveId: (id: string | null) => void;
+  rename: (id: string, title: string) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+const ChatHistoryContext = createContext<ChatHistoryContextType | undefined>(undefined);
+
+function toSummary({ id, title, created_at, updated_at }: ChatConversation): ChatConversationSummary {
+  return { id, title, created_at, updated_at };
+}
+
+async function requestConversation(url: string, method: string, body?: unknown): Promise<ChatConversationResponse & { status: number }> {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data: ChatConversationResponse = await res.json();
+  if (!res.ok && res.status !== 404) throw new Error(data.error || `Chat request failed (${res.status})`);
+  return { ...data, status: res.status };
+}
+
+/**
+ * Saved chats. Guests keep them in localStorage; for signed-in users they live in the
+ * account, and a guest's chats are moved into it on sign-in.
+ */
+export function ChatHistoryProvider({ children }: { children: ReactNode }) {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const [guestConversations, setGuestConversations] = useState<ChatConversationSummary[]>(
+    () => chatConversations.getAll().map(toSummary)
+  );
+  const [account, setAccount] = useState<{ userId: string; conversations: ChatConversationSummary[] } | null>(null);
+  const [activeId, setActiveIdState] = useState<string | null>(() => chatConversations.getActiveId());
+
+  // Saves run one at a time, so a new chat is created once and later saves update it
+  const activeIdRef = useRef(activeId);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+
+  const setActiveId = useCallback((id: string | null) => {
+    activeIdRef.current = id;
+    setActiveIdState(id);
+    chatConversations.setActiveId(id);
+  }, []);
+
+  const refreshGuest = () => setGuestConversations(chatConversations.getAll().map(toSummary));
+
+  const updateAccountList = useCallback((update: (list: ChatConversationSummary[]) => ChatConversationSummary[]) => {
+    setAccount((prev) => (prev ? { ...prev, conversations: update(prev.conversations) } : prev));
+  }, []);
+
+  // Signed out: the account's chat must not carry on as a guest chat (or move into the next account)
+  const signedInUserRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (isAuthLoading) return;
+    const previous = signedInUserRef.current;
+    signedInUserRef.current = user?.id ?? null;
+    if (!previous || previous === user?.id) return;
+
+    setActiveId(null);
+    setAccount(null);
+  }, [user, isAuthLoading, setActiveId]);
+
+  // On sign-in, move this device's guest chats into the account, then load the account's list
+  useEffect(() => {
+    if (!user) return;
+
+    (async () => {
+      try {
+        // One chat the server rejects stays on this device rather than stopping the rest
+        for (const local of [...chatConversations.getAll()].reverse()) {
+          try {
+            const { conversation } = await requestConversation('/api/conversations', 'POST', {
+              title: local.title,
+              messages: local.messages,
+              last_filter: local.last_filter,
+            });
+            chatConversations.remove(local.id);
+            if (conversation && activeIdRef.current === local.id) setActiveId(conversation.id);
+          } catch (e) {
+            console.error(`Failed to move chat ${local.id} into the account:`, e);
+          }
+        }
+        refreshGuest();
+
+        const res = await fetch('/api/conversations');
+        const data: ChatConversationsResponse = await res.json();
+        if (!res.ok) throw new Error(data.error || `Failed to load chats (${res.status})`);
+        setAccount({ userId: user.id, conversations: data.conversations });
+      } catch (e) {
+        console.error('Chat history sync failed:', e);
+        setAccount(null);
+      }
+    })();
+  }, [user, setActiveId]);
+
+  const load = useCallback(async (id: string): Promise<ChatConversation | null> => {
+    if (!user) return chatConversations.get(id);
+
+    try {
+      const { conversation } = await requestConversation(`/api/conversations/${encodeURIComponent(id)}`, 'GET');
+      return conversation ?? null;
+    } catch (e) {
+      console.error('Failed to load chat:', e);
+      return null;
+    }
+  }, [user]);
+
+  const save = useCallback((messages: ChatMessage[], lastFilter: PlaceFilter): Promise<void> => {
+    const run = async () => {
+      const id = activeIdRef.current;
+
+      if (!user) {
+        const now = new Date().toISOString();
+        const existing = id ? chatConversations.get(id) : null;
+        const conversation: ChatConversation = {
+          id: existing?.id ?? crypto.randomUUID(),
+          title: existing?.title ?? conversationTitle(messages),
+          messages,
+          last_filter: lastFilter,
+          created_at: existing?.created_at ?? now,
+          updated_at: now,
+        };
+        chatConversations.save(conversation);
+        refreshGuest();
+        if (!existing) setActiveId(conversation.id);
+        return;
+      }
+
+      try {
+        const body = { messages, last_filter: lastFilter };
+        let result = id
+          ? await requestConversation(`/api/conversations/${encodeURIComponent(id)}`, 'PATCH', body)
+          : null;
+        // A chat deleted elsewhere, or started before signing in, is saved as a new one
+        if (!result?.conversation) result = await requestConversation('/api/conversations', 'POST', body);
+
+        const saved = result.conversation;
+        if (!saved) return;
+        updateAccountList((list) => [toSummary(saved), ...list.filter((c) => c.id !== saved.id)]);
+        if (saved.id !== id) setActiveId(saved.id);
+      } catch (e) {
+        console.error('Failed to save chat:', e);
+      }
+    };
+
+    queueRef.current = queueRef.current.then(run);
+    return queueRef.current;
+  }, [user, setActiveId, updateAccountList]);
+
+  const rename = useCallback(async (id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+
+    if (!user) {
+      chatConversations.rename(id, trimmed);
+      refreshGuest();
+      return;
+    }
+
+    try {
+      const { conversation } = await requestConversation(`/api/conversations/${encodeURIComponent(id)}`, 'PATCH', { title: trimmed });
+      if (conversation) updateAccountList((list) => list.map((c) => (c.id === id ? toSummary(conversation) : c)));
+    } catch (e) {
+      console.error('Failed to rename chat:', e);
+    }
+  }, [user, updateAccountList]);
+
+  const remove = useCallback(async (id: string) => {
+    if (activeIdRef.current === id) setActiveId(null);
+
+    if (!user) {
+      chatConversations.remove(id);
+      refreshGuest();
+      return;
+    }
+
+    try {
+      await requestConversation(`/api/conversations/${encodeURIComponent(id)}`, 'DELETE');
+      updateAccountList((list) => list.filter((c) => c.id !== id));
+    } catch (e) {
+      console.error('Failed to delete chat:', e);
+    }
+  }, [user, setActiveId, updateAccountList]);
+
+  const isSynced = !!user && account?.userId === user.id;
+
+  return (
+    <ChatHistoryContext.Provider
+      value={{
+        conversations: user ? (isSynced ? account!.conversations : []) : guestConversations,
+        activeId,
+        isSynced,
+        load,
+        save,
+        setActiveId,
+        rename,
+        remove,
+      }}
+    >
+      {children}
+    </ChatHistoryContext.Provider>
+  );
+}
+
+export function useChatHistory() {
+  const context = useContext(ChatHistoryContext);
+  if (context === undefined) {
+    throw new Error('useChatHistory must be used within a ChatHistoryProvider');
+  }
+  return context;
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { favorites } from '@/lib/storage';
+import { FavoritesResponse } from '@/lib/types';
+import { useAuth } from './auth-context';
+
+interface FavoritesContextType {
+  favoriteIds: string[];
+  isSynced: boolean; // False for guests, or while the account can't be reached
+  isFavorite: (placeId: string) => boolean;
+  add: (placeId: string) => void;
+  remove: (placeId: string) => void;
+  toggle: (placeId: string) => boolean;
+}
+
+const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
+
+/**
+ * Favorites for guests live in localStorage only. For signed-in users the
+ * account is the source of truth and localStorage is the offline copy.
+ * A guest's favorites are merged into the account they sign in to; another
+ * account's offline copy never is.
+ */
+export function FavoritesProvider({ children }: { children: ReactNode }) {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const [favoriteIds, setFavoriteIds] = useState<string[]>(() => favorites.getAll());
+  const [syncedUserId, setSyncedUserId] = useState<string | null>(null);
+
+  const sync = useCallback(async () => {
+    if (!user) return;
+
+    // Left behind by a different account: drop it rather than merging it into this one
+    const owner = favorites.getOwner();
+    if (owner && owner !== user.id) {
+      favorites.clear();
+      setFavoriteIds([]);
+    }
+
+    // A guest list is only merged; removals a guest made mean nothing to the account
+    if (!owner) {
+      for (const placeId of favorites.getPendingRemovals()) favorites.clearPendingRemoval(placeId);
+    }
+
+    try {
+      // Replay removals made while offline, then merge this device's favorites into the account
+      for (const placeId of favorites.getPendingRemovals()) {
+        const res = await fetch(`/api/favorites/${encodeURIComponent(placeId)}`, { method: 'DELETE' });
+        if (!res.ok) throw new Error(`Failed to remove favorite (${res.status})`);
+        favorites.clearPendingRemoval(placeId);
+      }
+
+      const res = await fetch('/api/favorites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ placeIds: favorites.getAll() }),
+      });
+      const data: FavoritesResponse = await res.json();
+      if (!res.ok) throw new Error(data.error || `Failed to sync favorites (${res.status})`);
+
+      favorites.replaceAll(data.placeIds, user.id);
+      setFavoriteIds(data.placeIds);
+      setSyncedUserId(user.id);
+    } catch (e) {
+      console.error('Favorites sync failed, using local copy:', e);
+      setSyncedUserId(null);
+    }
+  }, [user]);
+
+  // Signed out: the account's offline copy must not carry over to the guest or the next account
+  useEffect(() => {
+    if (isAuthLoading || user || !favorites.getOwner()) return;
+    favorites.clear();
+    setFavoriteIds([]);
+  }, [user, isAuthLoading]);
+
+  // Sync on login and whenever the connection comes back
+  useEffect(() => {
+    if (!user) return;
+
+    sync();
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, [user, sync]);
+
+  const add = useCallback((placeId: string) => {
+    favorites.add(placeId);
+    setFavoriteIds(favorites.getAll());
+    if (!user) return;
+
+    fetch('/api/favorites', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ placeIds: [placeId] }),
+    }).catch((e) => console.error('Failed to save favorite, will retry on next sync:', e));
+  }, [user]);
+
+  const remove = useCallback((placeId: string) => {
+    // A guest's removals are not replayed against whichever account signs in next
+    favorites.remove(placeId, !!user && favorites.getOwner() === user.id);
+    setFavoriteIds(favorites.getAll());
+    if (!user) return;
+
+    fetch(`/api/favorites/${encodeURIComponent(placeId)}`, { method: 'DELETE' })
+      .then((res) => {
+        if (res.ok) favorites.clearPendingRemoval(placeId);
+      })
+      .catch((e) => console.error('Failed to remove favorite, will retry on next sync:', e));
+  }, [user]);
+
+  const isFavorite = useCallback((placeId: string) => favoriteIds.includes(placeId), [favoriteIds]);
+
+  const toggle = useCallback((placeId: string) => {
+    if (favoriteIds.includes(placeId)) {
+      remove(placeId);
+      return false;
+    }
+    add(placeId);
+    return true;
+  }, [favoriteIds, add, remove]);
+
+  return (
+    <FavoritesContext.Provider
+      value={{
+        favoriteIds,
+        isSynced: !!user && syncedUserId === user.id,
+        isFavorite,
+        add,
+        remove,
+        toggle,
+      }}
+    >
+      {children}
+    </FavoritesContext.Provider>
+  );
+}
+
+export function useFavorites() {
+  const context = useContext(FavoritesContext);
+  if (context === undefined) {
+    throw new Error('useFavorites must be used within a FavoritesProvider');
+  }
+  return context;
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useSyncExternalStore, ReactNode } from 'react';
+import { DEFAULT_LOCALE, Locale, MessageKey, Translate, TranslationParams, detectLocale, textDirection, translate } from '@/lib/i18n';
+import { localePreference } from '@/lib/storage';
+
+interface LocaleContextType {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+}
+
+const LocaleContext = createContext<LocaleContextType | undefined>(undefined);
+
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener('storage', listener); // Changes made in other tabs
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+const getLocale = () => localePreference.get() ?? detectLocale(navigator.languages);
+
+/**
+ * The interface language: the user's choice, else the browser's. Pages are rendered
+ * in English on the server and switch once hydrated, which keeps them cacheable.
+ */
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  const locale = useSyncExternalStore(subscribe, getLocale, () => DEFAULT_LOCALE);
+  const dir = textDirection(locale);
+
+  // <html> is server-rendered, so its language and direction follow from here
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+
+  const setLocale = useCallback((next: Locale) => {
+    localePreference.set(next);
+    listeners.forEach((listener) => listener());
+  }, []);
+
+  const value = useMemo(
+    () => ({ locale, dir, setLocale, t: (key: MessageKey, params?: TranslationParams) => translate(locale, key, params) }),
+    [locale, dir, setLocale]
+  );
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
+
+export function useTranslation() {
+  const context = useContext(LocaleContext);
+  if (context === undefined) {
+    throw new Error('useTranslation must be used within a LocaleProvider');
+  }
+  return context;
+}
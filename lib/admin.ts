@@ -0,0 +1,33 @@
+/**
+ * Admin access helpers (server-only)
+ */
+
+import { User } from '@supabase/supabase-js';
+import { createClient } from './supabase-server';
+
+/**
+ * Parse the ADMIN_EMAILS env var into a normalized list
+ */
+function getAdminEmails(): string[] {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Check if an email belongs to an admin
+ */
+export function isAdminEmail(email: string | null | undefined): boolean {
+  if (!email) return false;
+  return getAdminEmails().includes(email.toLowerCase());
+}
+
+/**
+ * Get the signed-in user if they are an admin, otherwise null
+ */
+export async function getAdminUser(): Promise<User | null> {
+  const supabase = await createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  return user && isAdminEmail(user.email) ? user : null;
+}
@@ -0,0 +1,231 @@
+/**
+ * Typed tools the chat assistant can call, and server-side validation of their arguments
+ */
+
+import { AssistantAction, PlaceFilter } from './types';
+import type { LLMMessage, LLMTool, ToolCall } from './llm-provider';
+import { validatePlaceFilter, ValidationResult, PRICE_LEVELS, PLACE_SORTS } from './place-filter';
+import { safeJsonParse } from './utils';
+import { HALAL_FLAGS } from './constants';
+
+export const TOOL_NAMES = {
+  SET_MAP_FILTER: 'set_map_filter',
+  RECOMMEND_PLACE: 'recommend_place',
+  OPEN_PLACE_DETAILS: 'open_place_details',
+  ADD_TO_FAVORITES: 'add_to_favorites',
+} as const;
+
+const nullableString = (description: string) => ({ type: ['string', 'null'], description });
+
+const nullableStringList = (description: string, values?: readonly string[]) => ({
+  type: ['array', 'null'],
+  items: values ? { type: 'string', enum: [...values] } : { type: 'string' },
+  description,
+});
+
+const placeNameParameters = {
+  type: 'object',
+  properties: {
+    place_name: { type: 'string', description: 'The EXACT name of a place from the current search results or the database matches' },
+  },
+  required: ['place_name'],
+  additionalProperties: false,
+};
+
+export const ASSISTANT_TOOLS: LLMTool[] = [
+  {
+    name: TOOL_NAMES.SET_MAP_FILTER,
+    description: 'Filter the map to places matching a NEW search. Only set the fields the user asked for.',
+    parameters: {
+      type: 'object',
+      properties: {
+        cuisine_subtype: nullableString('Specific dish type, e.g. Ramen, Yakiniku, Sushi, Curry'),
+        cuisine_category: nullableString('Broad category, e.g. Japanese, Indian, Middle Eastern'),
+        price_level: { type: ['string', 'null'], enum: [...PRICE_LEVELS, null] },
+        tag: nullableString('A feature tag, e.g. spicy, vegetarian, family-friendly'),
+        keyword: nullableString('Whole city or prefecture name, e.g. Osaka, Kyoto'),
+        halal_status: nullableString('Certification status, e.g. Fully Halal, Muslim-Friendly'),
+        cuisines: nullableStringList('Several cuisines, any of which may match, e.g. ["Ramen", "Sushi"]'),
+        tags: nullableStringList('Feature tags, any of which may match, e.g. ["no-alcohol", "prayer-room"]'),
+        price_levels: nullableStringList('Price levels, any of which may match', PRICE_LEVELS),
+        cities: nullableStringList('Areas, any of which may match, e.g. ["Shinjuku", "Shibuya"]'),
+        certifying_bodies: nullableStringList('Halal certifying body codes, any of which may match, e.g. ["JHA", "MUI"]'),
+        halal_flags: nullableStringList('Verified halal details, any of which may match', HALAL_FLAGS),
+        exclude: {
+          type: ['object', 'null'],
+          description: 'What to leave out, e.g. "not Indian", "not in Shinjuku", "nothing expensive"',
+          properties: {
+            cuisines: nullableStringList('Cuisines to leave out, e.g. ["Indian"]'),
+            cities: nullableStringList('Areas to leave out'),
+            tags: nullableStringList('Feature tags to leave out'),
+            price_levels: nullableStringList('Price levels to leave out', PRICE_LEVELS),
+          },
+          additionalProperties: false,
+        },
+        query: nullableString('Free-text search for a restaurant name or anything not covered by the other fields; tolerates typos and Japanese'),
+        favorites: { type: ['boolean', 'null'], description: "Only the user's saved favorites" },
+        open_now: { type: ['boolean', 'null'], description: 'Only places open right now' },
+        open_at: nullableString('ISO 8601 datetime with +09:00 offset, or "HH:MM" for the next time it comes round (today, or tomorrow if already past; Japan time)'),
+        sort: {
+          type: ['string', 'null'],
+          enum: [...PLACE_SORTS, null],
+          description: 'Result order: "rating" for best/top rated, "distance" for nearest, "halal" for most certain halal status',
+        },
+        near: {
+          type: ['object', 'null'],
+          description: 'Radius search around a station, landmark or neighborhood',
+          properties: {
+            lat: { type: 'number' },
+            lng: { type: 'number' },
+            radius_m: { type: 'number', description: 'Radius in meters (walking: 80 m per minute)' },
+          },
+          required: ['lat', 'lng', 'radius_m'],
+          additionalProperties: false,
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: TOOL_NAMES.RECOMMEND_PLACE,
+    description: 'Highlight one place from the current results as your recommendation (follow-up questions).',
+    parameters: placeNameParameters,
+  },
+  {
+    name: TOOL_NAMES.OPEN_PLACE_DETAILS,
+    description: 'Open the details panel for a place when the user asks to see or open it.',
+    parameters: placeNameParameters,
+  },
+  {
+    name: TOOL_NAMES.ADD_TO_FAVORITES,
+    description: "Save a place to the user's favorites when they ask to save, bookmark or favorite it.",
+    parameters: placeNameParameters,
+  },
+];
+
+export interface ToolCallError {
+  toolCallId: string;
+  name: string;
+  errors: string[];
+  unknownPlace?: string; // Set when the arguments are valid but name a place that isn't in the database
+}
+
+export interface ToolCallResult {
+  filter?: PlaceFilter;
+  recommended_place?: string;
+  actions: AssistantAction[];
+}
+
+function parseArguments(raw: string): Record<string, unknown> | null {
+  const parsed = safeJsonParse<unknown>(raw || '{}', null);
+  return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as Record<string, unknown>) : null;
+}
+
+function validatePlaceName(args: Record<string, unknown>): ValidationResult<string> {
+  const name = args.place_name;
+  if (typeof name !== 'string' || !name.trim()) {
+    return { ok: false, errors: ['place_name must be a non-empty string'] };
+  }
+  return { ok: true, value: name.trim() };
+}
+
+/**
+ * Validate the arguments of a set_map_filter call
+ */
+export function validateFilterArguments(raw: string): ValidationResult<PlaceFilter> {
+  const args = parseArguments(raw);
+  if (!args) return { ok: false, errors: ['arguments must be a JSON object'] };
+  return validatePlaceFilter(args);
+}
+
+/**
+ * The place names given to place tools, for checking against the database
+ */
+export function placeNamesOf(calls: ToolCall[]): string[] {
+  return calls.flatMap((call) => {
+    if (call.name === TOOL_NAMES.SET_MAP_FILTER) return [];
+    const args = parseArguments(call.arguments);
+    const name = args ? validatePlaceName(args) : null;
+    return name?.ok ? [name.value] : [];
+  });
+}
+
+/**
+ * Validate every tool call and fold the valid ones into a single result.
+ * Invalid calls, and calls naming one of `unknownPlaces`, are returned as errors
+ * so they can be sent back for repair.
+ */
+export function interpretToolCalls(
+  calls: ToolCall[],
+  unknownPlaces: ReadonlySet<string> = new Set()
+): { result: ToolCallResult; errors: ToolCallError[] } {
+  const result: ToolCallResult = { actions: [] };
+  const errors: ToolCallError[] = [];
+
+  for (const call of calls) {
+    const fail = (messages: string[]) => errors.push({ toolCallId: call.id, name: call.name, errors: messages });
+
+    if (call.name === TOOL_NAMES.SET_MAP_FILTER) {
+      const filter = validateFilterArguments(call.arguments);
+      if (filter.ok) result.filter = filter.value;
+      else fail(filter.errors);
+      continue;
+    }
+
+    if (!(Object.values(TOOL_NAMES) as string[]).includes(call.name)) {
+      fail([`unknown tool "${call.name}"`]);
+      continue;
+    }
+
+    const args = parseArguments(call.arguments);
+    const name = args ? validatePlaceName(args) : null;
+    if (!name || !name.ok) {
+      fail(name ? name.errors : ['arguments must be a JSON object']);
+      continue;
+    }
+    if (unknownPlaces.has(name.value)) {
+      errors.push({
+        toolCallId: call.id,
+        name: call.name,
+        errors: [`no place named "${name.value}" is in the database; use the exact name of a listed place, or don't call ${call.name}`],
+        unknownPlace: name.value,
+      });
+      continue;
+    }
+
+    if (call.name === TOOL_NAMES.RECOMMEND_PLACE) {
+      result.recommended_place = name.value;
+    } else if (call.name === TOOL_NAMES.OPEN_PLACE_DETAILS) {
+      result.actions.push({ type: 'open_place_details', place_name: name.value });
+    } else if (call.name === TOOL_NAMES.ADD_TO_FAVORITES) {
+      result.actions.push({ type: 'add_to_favorites', place_name: name.value });
+    }
+  }
+
+  return { result, errors };
+}
+
+/**
+ * Conversation turns that hand the validation errors back to the model so it
+ * can call the failed tools again with corrected arguments.
+ */
+export function buildRepairMessages(
+  content: string | null,
+  calls: ToolCall[],
+  errors: ToolCallError[]
+): LLMMessage[] {
+  return [
+    { role: 'assistant', content, toolCalls: calls },
+    ...calls.map((call): LLMMessage => {
+      const failure = errors.find((e) => e.toolCallId === call.id);
+      return {
+        role: 'tool',
+        toolCallId: call.id,
+        name: call.name,
+        content: failure
+          ? `Invalid arguments: ${failure.errors.join('; ')}. Call ${call.name} again with corrected arguments.`
+          : 'OK',
+      };
+    }),
+  ];
+}
@@ -0,0 +1,57 @@
+/**
+ * Halal certification dates: when a place was last verified and whether its
+ * certification has expired or gone stale. Shared by the verification job and the UI.
+ */
+
+import { Place, VerificationIssue } from './types';
+import type { Locale } from './i18n';
+import { VERIFICATION_CONFIG } from './constants';
+import { tokyoDateKey } from './opening-hours';
+
+export type VerifiablePlace = Pick<
+  Place,
+  'halal_status' | 'certifying_body' | 'certified_on' | 'certification_expires_on' | 'last_verified_on'
+>;
+
+/**
+ * Move a "YYYY-MM-DD" date back by whole months, clamping to the end of shorter months
+ */
+function monthsBefore(dateKey: string, months: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - months, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 - months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+}
+
+/**
+ * The most recent date the place's halal status is known to have been checked:
+ * an explicit verification, or else the certificate's issue date
+ */
+export function lastVerifiedOn(place: Pick<Place, 'certified_on' | 'last_verified_on'>): string | null {
+  const dates = [place.last_verified_on, place.certified_on].filter((d): d is string => !!d).sort();
+  return dates[dates.length - 1] ?? null;
+}
+
+/**
+ * Why a place's halal status can no longer be trusted as shown, if it can't. Places with
+ * no known verification date aren't flagged as stale: there is nothing to measure against.
+ */
+export function verificationIssueOf(
+  place: VerifiablePlace,
+  today: string = tokyoDateKey(),
+  staleAfterMonths: number = VERIFICATION_CONFIG.STALE_AFTER_MONTHS
+): VerificationIssue | null {
+  if (place.certification_expires_on && place.certification_expires_on < today) return 'expired';
+
+  const verified = lastVerifiedOn(place);
+  const claimsHalal = !!place.halal_status || !!place.certifying_body;
+  if (claimsHalal && verified && verified < monthsBefore(today, staleAfterMonths)) return 'stale';
+
+  return null;
+}
+
+/**
+ * A "YYYY-MM-DD" certificate date for display. Formatted in UTC so the day doesn't shift.
+ */
+export function formatCertificateDate(dateKey: string, locale: Locale): string {
+  return new Date(dateKey).toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
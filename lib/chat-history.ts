@@ -0,0 +1,132 @@
+/**
+ * Saved chat conversations: validation, titles and server-side queries.
+ * Client-safe apart from the query helpers, which take a server client.
+ */
+
+import type { createClient } from './supabase-server';
+import type { Database, Json } from './supabase';
+import { ChatConversation, ChatConversationRow, ChatConversationSummary, ChatMessage, PlaceFilter } from './types';
+import { ValidationResult, validatePlaceFilter } from './place-filter';
+import { CHAT_HISTORY_CONFIG } from './constants';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+export interface ConversationFields {
+  title?: string;
+  messages?: ChatMessage[];
+  last_filter?: PlaceFilter;
+}
+
+const SUMMARY_COLUMNS = 'id, title, created_at, updated_at';
+const GENERATED_TITLE_LENGTH = 60;
+
+/**
+ * A title for a conversation: its first question, shortened
+ */
+export function conversationTitle(messages: ChatMessage[]): string {
+  const first = messages.find((m) => m.role === 'user')?.content.replace(/\s+/g, ' ').trim();
+  if (!first) return 'New chat';
+  if (first.length <= GENERATED_TITLE_LENGTH) return first;
+  return `${first.slice(0, GENERATED_TITLE_LENGTH - 1).trimEnd()}…`;
+}
+
+function validateMessages(input: unknown): ValidationResult<ChatMessage[]> {
+  if (!Array.isArray(input)) return { ok: false, errors: ['messages must be an array'] };
+
+  const messages: ChatMessage[] = [];
+  for (const item of input.slice(-CHAT_HISTORY_CONFIG.MAX_MESSAGES)) {
+    const { role, content, showPlaces, recommendedPlace } = (item ?? {}) as Record<string, unknown>;
+    if (role !== 'user' && role !== 'assistant') {
+      return { ok: false, errors: ['message role must be "user" or "assistant"'] };
+    }
+    if (typeof content !== 'string') return { ok: false, errors: ['message content must be a string'] };
+
+    const message: ChatMessage = { role, content: content.slice(0, CHAT_HISTORY_CONFIG.MAX_MESSAGE_LENGTH) };
+    if (showPlaces === true) message.showPlaces = true;
+    if (typeof recommendedPlace === 'string' && recommendedPlace) message.recommendedPlace = recommendedPlace;
+    messages.push(message);
+  }
+
+  return { ok: true, value: messages };
+}
+
+/**
+ * Validate the saved fields of a conversation. `requireMessages` for creation.
+ */
+export function validateConversationFields(input: unknown, requireMessages: boolean): ValidationResult<ConversationFields> {
+  if (!input || typeof input !== 'object') return { ok: false, errors: ['body must be an object'] };
+  const { title, messages, last_filter } = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const fields: ConversationFields = {};
+
+  if (title !== undefined) {
+    if (typeof title !== 'string' || !title.trim()) errors.push('title must be a non-empty string');
+    else fields.title = title.trim().slice(0, CHAT_HISTORY_CONFIG.MAX_TITLE_LENGTH);
+  }
+  if (messages !== undefined || requireMessages) {
+    const result = validateMessages(messages);
+    if (result.ok) fields.messages = result.value;
+    else errors.push(...result.errors);
+  }
+  if (last_filter !== undefined) {
+    const result = validatePlaceFilter(last_filter);
+    if (result.ok) fields.last_filter = result.value;
+    else errors.push(...result.errors.map((e) => `last_filter: ${e}`));
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: fields };
+}
+
+/**
+ * Validated fields as table columns; `updated_at` moves only when the conversation itself changes
+ */
+export function conversationColumns(fields: ConversationFields): Database['public']['Tables']['chat_conversations']['Update'] {
+  const columns: Database['public']['Tables']['chat_conversations']['Update'] = {};
+  if (fields.title !== undefined) columns.title = fields.title;
+  if (fields.messages !== undefined) columns.messages = fields.messages as unknown as Json;
+  if (fields.last_filter !== undefined) columns.last_filter = fields.last_filter as Json;
+  if (fields.messages !== undefined || fields.last_filter !== undefined) columns.updated_at = new Date().toISOString();
+  return columns;
+}
+
+// Stored JSON was validated on the way in
+function toConversation(row: ChatConversationRow): ChatConversation {
+  return {
+    id: row.id,
+    title: row.title,
+    messages: row.messages as unknown as ChatMessage[],
+    last_filter: row.last_filter as PlaceFilter,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * The user's conversations, most recently active first
+ */
+export async function listConversations(supabase: ServerClient, userId: string): Promise<ChatConversationSummary[]> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .select(SUMMARY_COLUMNS)
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(CHAT_HISTORY_CONFIG.MAX_LISTED_CONVERSATIONS);
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+/**
+ * One of the user's conversations, or null if it doesn't exist or belongs to someone else
+ */
+export async function getConversation(supabase: ServerClient, userId: string, id: string): Promise<ChatConversation | null> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toConversation(data) : null;
+}
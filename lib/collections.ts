@@ -0,0 +1,145 @@
+/**
+ * Named place collections: validation and server-side queries
+ */
+
+import { createClient } from './supabase-server';
+import { createAdminClient } from './supabase-admin';
+import { Collection, CollectionPlace, CollectionWithPlaces, Place, SharedCollection } from './types';
+import { ValidationResult } from './place-filter';
+import { isUuid } from './utils';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+const MAX_NAME_LENGTH = 100;
+const MAX_NOTES_LENGTH = 1000;
+const MAX_PLACES_PER_COLLECTION = 500;
+
+export interface CollectionFields {
+  name?: string;
+  notes?: string | null;
+  position?: number;
+}
+
+export interface CollectionPlaceInput {
+  place_id: string;
+  note?: string | null;
+}
+
+function withSortedPlaces(collection: Collection & { collection_places: CollectionPlace[] }): CollectionWithPlaces {
+  const { collection_places, ...rest } = collection;
+  return { ...rest, places: [...collection_places].sort((a, b) => a.position - b.position) };
+}
+
+/**
+ * Validate the editable fields of a collection. `requireName` for creation.
+ */
+export function validateCollectionFields(input: unknown, requireName: boolean): ValidationResult<CollectionFields> {
+  if (!input || typeof input !== 'object') return { ok: false, errors: ['body must be an object'] };
+  const { name, notes, position } = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const fields: CollectionFields = {};
+
+  if (name !== undefined || requireName) {
+    if (typeof name !== 'string' || !name.trim()) errors.push('name is required');
+    else fields.name = name.trim().slice(0, MAX_NAME_LENGTH);
+  }
+  if (notes !== undefined) {
+    if (notes !== null && typeof notes !== 'string') errors.push('notes must be a string or null');
+    else fields.notes = notes?.trim().slice(0, MAX_NOTES_LENGTH) || null;
+  }
+  if (position !== undefined) {
+    if (!Number.isInteger(position)) errors.push('position must be an integer');
+    else fields.position = position as number;
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: fields };
+}
+
+/**
+ * Validate the ordered place list of a collection
+ */
+export function validateCollectionPlaces(input: unknown): ValidationResult<CollectionPlaceInput[]> {
+  if (!Array.isArray(input)) return { ok: false, errors: ['places must be an array'] };
+  if (input.length > MAX_PLACES_PER_COLLECTION) {
+    return { ok: false, errors: [`a collection can hold at most ${MAX_PLACES_PER_COLLECTION} places`] };
+  }
+
+  const seen = new Set<string>();
+  const places: CollectionPlaceInput[] = [];
+  for (const item of input) {
+    const { place_id, note } = (item ?? {}) as Record<string, unknown>;
+    if (!isUuid(place_id)) return { ok: false, errors: ['each place needs a valid place_id'] };
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+      return { ok: false, errors: ['note must be a string or null'] };
+    }
+    if (seen.has(place_id)) continue;
+    seen.add(place_id);
+    places.push({ place_id, note: (note as string | null | undefined)?.trim().slice(0, MAX_NOTES_LENGTH) || null });
+  }
+
+  return { ok: true, value: places };
+}
+
+/**
+ * The user's collections in display order
+ */
+export async function listCollections(supabase: ServerClient, userId: string): Promise<CollectionWithPlaces[]> {
+  const { data, error } = await supabase
+    .from('collections')
+    .select('*, collection_places(*)')
+    .eq('user_id', userId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map(withSortedPlaces);
+}
+
+/**
+ * One of the user's collections, or null if it doesn't exist or belongs to someone else
+ */
+export async function getCollection(supabase: ServerClient, userId: string, id: string): Promise<CollectionWithPlaces | null> {
+  const { data, error } = await supabase
+    .from('collections')
+    .select('*, collection_places(*)')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? withSortedPlaces(data) : null;
+}
+
+/**
+ * A collection by its public share ID, with its places in list order (read-only page)
+ */
+export async function getSharedCollection(
+  shareId: string
+): Promise<{ collection: SharedCollection; places: Place[] } | null> {
+  if (!isUuid(shareId)) return null;
+
+  // Explicit columns: the page is public, so the owner's user_id must not reach it
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('collections')
+    .select('id, name, notes, share_id, created_at, collection_places(place_id, position, note)')
+    .eq('share_id', shareId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const { collection_places, ...rest } = data;
+  const collection: SharedCollection = {
+    ...rest,
+    places: [...collection_places].sort((a, b) => a.position - b.position),
+  };
+  const ids = collection.places.map((p) => p.place_id);
+  if (ids.length === 0) return { collection, places: [] };
+
+  const { data: places, error: placesError } = await supabase.from('places').select('*').in('id', ids);
+  if (placesError) throw placesError;
+
+  const byId = new Map((places ?? []).map((p) => [p.id, p]));
+  return { collection, places: ids.flatMap((id) => byId.get(id) ?? []) };
+}
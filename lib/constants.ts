@@ -2,11 +2,23 @@
  * Shared constants for the app
  */
 
+import type { CertificationScope, HalalFlag } from './types';
+
 // LocalStorage keys
 export const STORAGE_KEYS = {
   FAVORITES: 'halal_favorites',
+  FAVORITES_PENDING_REMOVALS: 'halal_favorites_pending_removals',
+  FAVORITES_OWNER: 'halal_favorites_owner', // Account the local favorites were synced with; unset for guests
   GUEST_QUERIES_USED: 'halalicious_guest_queries_used',
   LAST_MAP_POSITION: 'halalicious_last_map_position',
+  CHAT_CONVERSATIONS: 'halalicious_chat_conversations', // Guests only; accounts keep theirs in Supabase
+  ACTIVE_CONVERSATION: 'halalicious_active_conversation',
+  LOCALE: 'halalicious_locale', // Interface language picked in the More menu
+} as const;
+
+// Cookie names
+export const COOKIE_NAMES = {
+  ANON_ID: 'halalicious_anon_id', // Identifies guests for server-side quotas
 } as const;
 
 // Guest mode configuration
@@ -14,6 +26,32 @@ export const GUEST_CONFIG = {
   MAX_FREE_QUERIES: 3,
 } as const;
 
+// Saved chat conversations (lib/chat-history.ts)
+export const CHAT_HISTORY_CONFIG = {
+  MAX_MESSAGES: 200,             // Oldest messages are dropped beyond this
+  MAX_MESSAGE_LENGTH: 4000,
+  MAX_TITLE_LENGTH: 100,
+  MAX_GUEST_CONVERSATIONS: 20,   // Kept in localStorage, oldest dropped first
+  MAX_LISTED_CONVERSATIONS: 100,
+} as const;
+
+// Chat model defaults (lib/llm-provider.ts); LLM_MODEL overrides the model
+export const LLM_CONFIG = {
+  OPENAI_MODEL: 'gpt-4o-mini',
+  GEMINI_MODEL: 'gemini-2.0-flash',
+  MAX_TOKENS: 1024,
+  TEMPERATURE: 0.7,
+} as const;
+
+// Server-enforced chat quotas (see lib/rate-limit.ts)
+export const RATE_LIMIT_CONFIG = {
+  BURST_PER_MINUTE: 10,              // Per IP, everyone
+  GUEST_WINDOW_MS: 30 * 24 * 60 * 60 * 1000, // GUEST_CONFIG.MAX_FREE_QUERIES per anonymous cookie
+  GUEST_QUERIES_PER_IP_PER_DAY: 20,  // Guests behind one IP, so clearing cookies doesn't reset the quota
+  USER_QUERIES_PER_DAY: 200,         // Per signed-in user
+  RATINGS_PER_MINUTE: 20,            // Per IP, /api/places/ratings requests (each may call Google)
+} as const;
+
 // Map configuration
 export const MAP_CONFIG = {
   DEFAULT_CENTER: { lat: 35.6895, lng: 139.6917 }, // Tokyo
@@ -22,13 +60,78 @@ export const MAP_CONFIG = {
   MAX_ZOOM: 18,
 } as const;
 
+// Geo search configuration
+export const GEO_CONFIG = {
+  DEFAULT_RADIUS_M: 1000,
+  MIN_RADIUS_M: 50,
+  MAX_RADIUS_M: 50000,
+  WALKING_METERS_PER_MINUTE: 80, // Japanese real estate walking standard
+} as const;
+
+// Viewport tiles for lazy loading places (Web Mercator z/x/y tiles)
+export const TILE_CONFIG = {
+  MIN_ZOOM: 4,
+  MAX_ZOOM: 12,
+  ZOOM_OFFSET: 2,              // Tiles are this many levels coarser than the map zoom
+  MAX_TILES_PER_VIEW: 16,      // Use coarser tiles when the viewport would need more
+  MAX_PLACES_PER_TILE: 2000,
+  FETCH_DEBOUNCE_MS: 300,
+  ASSUMED_VIEWPORT: { width: 1280, height: 800 }, // For picking server-rendered tiles
+} as const;
+
+// Server-side cache of Google ratings
+export const RATINGS_CONFIG = {
+  TTL_MS: 7 * 24 * 60 * 60 * 1000,   // Ratings change slowly
+  MISSING_TTL_MS: 24 * 60 * 60 * 1000, // Places Google returned no rating for
+  MAX_IDS_PER_REQUEST: 50,
+  FETCH_CONCURRENCY: 5,
+  MAX_RETRIES: 3,
+  BACKOFF_BASE_MS: 1000,             // Doubled on each 429
+} as const;
+
+// Weights for ranking search results (see lib/ranking.ts); halal status adds HALAL_STATUS.*.confidenceBoost
+export const RANKING_CONFIG = {
+  RELEVANCE_WEIGHT: 50,
+  RATING_WEIGHT: 30,
+  REVIEWS_WEIGHT: 10,
+  DISTANCE_WEIGHT: 30,
+  PRIOR_RATING: 3.5,         // Ratings with few reviews are pulled towards this
+  PRIOR_REVIEWS: 20,         // How many reviews the prior counts as
+  REVIEWS_SATURATION: 1000,  // Review counts above this add nothing more
+  DISTANCE_HALF_SCORE_M: 1000, // Distance at which the distance score halves
+} as const;
+
+// Free-text place search (lib/search-index.ts)
+export const SEARCH_CONFIG = {
+  INDEX_TTL_MS: 10 * 60 * 1000, // Rebuild the in-memory index this often to pick up new places
+  INDEX_PAGE_SIZE: 1000,        // Rows per request while loading the index
+  MAX_MATCHES: 200,             // Best matches (among places passing the other filters) passed on to the DB query
+  MAX_QUERY_LENGTH: 100,
+  AUTOCOMPLETE_PLACES: 5,       // Suggestions per group
+  AUTOCOMPLETE_AREAS: 3,
+  AUTOCOMPLETE_CUISINES: 3,
+  AUTOCOMPLETE_DEBOUNCE_MS: 150,
+  FACET_MAX_ROWS: 10000,        // Places scanned when counting facets
+  MAX_FACET_VALUES: 50,         // Values listed per facet, besides the selected ones
+  MAX_FACET_SELECTIONS: 20,
+  RETRIEVAL_LIMIT: 15,          // Places looked up for each chat question
+  RETRIEVAL_MIN_SCORE: 0.5,     // Share of the question's words a place must match
+  MAX_QUESTION_LENGTH: 500,
+} as const;
+
 // API configuration
 export const API_CONFIG = {
   REQUEST_TIMEOUT: 30000, // 30 seconds
   MAX_PLACES_LIMIT: 2000,
+  DB_PAGE_SIZE: 1000, // Rows per request; Supabase caps responses at this by default
   MAX_DISPLAY_PLACES: 10,
 } as const;
 
+// Time configuration - opening hours are stored and evaluated in Japan local time
+export const TIME_CONFIG = {
+  TIMEZONE: 'Asia/Tokyo',
+} as const;
+
 // Input validation
 export const VALIDATION = {
   MAX_SEARCH_LENGTH: 100,
@@ -38,6 +141,7 @@ export const VALIDATION = {
 export const APP_INFO = {
   NAME: 'Halalicious',
   DESCRIPTION: 'Your AI-powered halal guide for Japan',
+  SITE_URL: process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000', // Absolute URLs for SEO metadata and the sitemap
 } as const;
 
 // Halal status configuration - single source of truth for pin colors and labels
@@ -69,8 +173,38 @@ export const HALAL_STATUS = {
   },
 } as const;
 
-// Get halal status config by value
-export function getHalalStatusConfig(status: string | null | undefined) {
+// Halal certifying bodies by the code stored in places.certifying_body; unknown codes are shown as is
+export const CERTIFYING_BODIES: Record<string, string> = {
+  JHA: 'Japan Halal Association',
+  JMA: 'Japan Muslim Association',
+  JIT: 'Japan Islamic Trust',
+  NAHA: 'Nippon Asia Halal Association',
+  MPJA: 'Muslim Professional Japan Association',
+  MUI: 'Majelis Ulama Indonesia',
+  JAKIM: 'JAKIM-recognized body',
+};
+
+// Certification expiry and staleness checks (lib/verification.ts)
+export const VERIFICATION_CONFIG = {
+  STALE_AFTER_MONTHS: 12, // A status not re-verified for this long is flagged as stale
+  PAGE_SIZE: 1000,        // Places read per request
+  UPDATE_CHUNK: 200,      // Ids per update, so the `in` list stays within URL length limits
+} as const;
+
+// Must match the check constraints on places (see the halal_certifications migration)
+export const HALAL_FLAGS: readonly HalalFlag[] = ['no_alcohol', 'halal_meat_only', 'prayer_space'];
+export const CERTIFICATION_SCOPES: readonly CertificationScope[] = ['restaurant', 'menu', 'ingredients'];
+
+// Get halal status config by value. A place flagged by the verification job (an expired
+// or stale certification, see places.verification_issue) is shown one level lower.
+export function getHalalStatusConfig(status: string | null | undefined, verificationIssue?: string | null) {
+  const config = statusConfigOf(status);
+  if (!verificationIssue) return config;
+  if (config === HALAL_STATUS.CERTIFIED) return HALAL_STATUS.MUSLIM_FRIENDLY;
+  return HALAL_STATUS.UNVERIFIED;
+}
+
+function statusConfigOf(status: string | null | undefined) {
   if (!status) return HALAL_STATUS.UNVERIFIED;
   const normalized = status.toLowerCase();
   if (normalized.includes('fully') || normalized.includes('certified')) return HALAL_STATUS.CERTIFIED;
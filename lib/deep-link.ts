@@ -0,0 +1,169 @@
+/**
+ * Serialize the map view (filters, selected place, viewport) to and from URL query params
+ * so a shared link opens exactly the same view.
+ */
+
+import { LatLng, PlaceFilter } from './types';
+import { MAP_CONFIG } from './constants';
+import { validatePlaceFilter } from './place-filter';
+
+export interface MapViewState {
+  filter: PlaceFilter;
+  placeId?: string | null;
+  center?: LatLng | null;
+  zoom?: number | null;
+}
+
+type QueryParams = Record<string, string | string[] | undefined>;
+
+// Short, readable param names for the simple filter fields
+const STRING_PARAMS = {
+  cuisine_subtype: 'cuisine',
+  cuisine_category: 'category',
+  price_level: 'price',
+  tag: 'tag',
+  keyword: 'city',
+  query: 'q',
+  halal_status: 'halal',
+  open_at: 'open_at',
+  sort: 'sort',
+} as const;
+
+// Multi-select facets and loose cuisine matches, one param per value
+const ARRAY_PARAMS = {
+  halal_statuses: 'status',
+  cuisine_categories: 'categories',
+  cuisine_subtypes: 'cuisines',
+  cities: 'area',
+  price_levels: 'prices',
+  tags: 'tags',
+  certifying_bodies: 'certified_by',
+  halal_flags: 'halal_flag',
+  cuisines: 'food',
+} as const;
+
+// Exclusions, one param per value
+const EXCLUDE_PARAMS = {
+  cuisines: 'not_food',
+  cities: 'not_area',
+  tags: 'not_tag',
+  price_levels: 'not_price',
+} as const;
+
+const BOOLEAN_PARAMS = {
+  open_now: 'open_now',
+  favorites: 'favorites',
+} as const;
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function parseNumbers(value: string | undefined, count: number): number[] | null {
+  if (!value) return null;
+  const numbers = value.split(',').map(Number);
+  return numbers.length === count && numbers.every(Number.isFinite) ? numbers : null;
+}
+
+/**
+ * Query params for a view. Empty fields are left out to keep links short.
+ */
+export function encodeViewState({ filter, placeId, center, zoom }: MapViewState): URLSearchParams {
+  const params = new URLSearchParams();
+
+  for (const [field, param] of Object.entries(STRING_PARAMS)) {
+    const value = filter[field as keyof typeof STRING_PARAMS];
+    if (value) params.set(param, value);
+  }
+  for (const [field, param] of Object.entries(BOOLEAN_PARAMS)) {
+    if (filter[field as keyof typeof BOOLEAN_PARAMS]) params.set(param, '1');
+  }
+  for (const [field, param] of Object.entries(ARRAY_PARAMS)) {
+    for (const value of filter[field as keyof typeof ARRAY_PARAMS] ?? []) params.append(param, value);
+  }
+  for (const [field, param] of Object.entries(EXCLUDE_PARAMS)) {
+    for (const value of filter.exclude?.[field as keyof typeof EXCLUDE_PARAMS] ?? []) params.append(param, value);
+  }
+  for (const term of filter.search_terms ?? []) {
+    params.append('term', term);
+  }
+  if (filter.near) {
+    params.set('near', [round(filter.near.lat, 5), round(filter.near.lng, 5), Math.round(filter.near.radius_m)].join(','));
+  }
+  if (filter.bounds) {
+    const { north, south, east, west } = filter.bounds;
+    params.set('bounds', [north, south, east, west].map((v) => round(v, 5)).join(','));
+  }
+
+  if (placeId) params.set('place', placeId);
+  if (center) params.set('center', `${round(center.lat, 5)},${round(center.lng, 5)}`);
+  if (zoom !== null && zoom !== undefined) params.set('zoom', String(round(zoom, 1)));
+
+  return params;
+}
+
+/**
+ * Restore a view from query params. Anything malformed is dropped rather than rejected,
+ * so a hand-edited or outdated link still opens the rest of the view.
+ */
+export function decodeViewState(input: URLSearchParams | QueryParams): MapViewState {
+  const params = input instanceof URLSearchParams ? input : toSearchParams(input);
+  const get = (name: string) => params.get(name) ?? undefined;
+
+  const raw: Record<string, unknown> = {};
+  for (const [field, param] of Object.entries(STRING_PARAMS)) {
+    if (get(param)) raw[field] = get(param);
+  }
+  for (const [field, param] of Object.entries(BOOLEAN_PARAMS)) {
+    if (get(param) === '1' || get(param) === 'true') raw[field] = true;
+  }
+  for (const [field, param] of Object.entries(ARRAY_PARAMS)) {
+    const values = params.getAll(param).filter(Boolean);
+    if (values.length > 0) raw[field] = values;
+  }
+  const exclude: Record<string, string[]> = {};
+  for (const [field, param] of Object.entries(EXCLUDE_PARAMS)) {
+    const values = params.getAll(param).filter(Boolean);
+    if (values.length > 0) exclude[field] = values;
+  }
+  if (Object.keys(exclude).length > 0) raw.exclude = exclude;
+  const terms = params.getAll('term').filter(Boolean);
+  if (terms.length > 0) raw.search_terms = terms;
+
+  const near = parseNumbers(get('near'), 3);
+  if (near) raw.near = { lat: near[0], lng: near[1], radius_m: near[2] };
+  const bounds = parseNumbers(get('bounds'), 4);
+  if (bounds) raw.bounds = { north: bounds[0], south: bounds[1], east: bounds[2], west: bounds[3] };
+
+  // Validate field by field so one bad value doesn't discard the whole filter
+  const filter: PlaceFilter = {};
+  for (const [field, value] of Object.entries(raw)) {
+    const result = validatePlaceFilter({ [field]: value });
+    if (result.ok) Object.assign(filter, result.value);
+  }
+
+  const center = parseNumbers(get('center'), 2);
+  const zoom = Number(get('zoom'));
+
+  return {
+    filter,
+    placeId: get('place') || null,
+    center: center && Math.abs(center[0]) <= 90 && Math.abs(center[1]) <= 180
+      ? { lat: center[0], lng: center[1] }
+      : null,
+    zoom: get('zoom') && Number.isFinite(zoom)
+      ? Math.min(Math.max(zoom, MAP_CONFIG.MIN_ZOOM), MAP_CONFIG.MAX_ZOOM)
+      : null,
+  };
+}
+
+function toSearchParams(query: QueryParams): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    for (const item of Array.isArray(value) ? value : value !== undefined ? [value] : []) {
+      params.append(key, item);
+    }
+  }
+  return params;
+}
@@ -0,0 +1,112 @@
+/**
+ * Multi-select filter facets. Within a facet a place matches any selected value;
+ * facets combine with AND. Counts are disjunctive: each facet is counted with the
+ * other facets applied but not itself, so more values can still be added.
+ */
+
+import { FacetField, FacetValue, Place, PlaceFilter } from './types';
+import { HALAL_STATUS } from './constants';
+
+export const FACET_FIELDS: readonly FacetField[] = [
+  'halal_statuses',
+  'cuisine_categories',
+  'cuisine_subtypes',
+  'cities',
+  'price_levels',
+  'tags',
+  'certifying_bodies',
+  'halal_flags',
+];
+
+// The places column behind each facet
+export const FACET_COLUMNS = {
+  halal_statuses: 'effective_halal_status', // Lowered while the certification is expired or stale
+  cuisine_categories: 'cuisine_category',
+  cuisine_subtypes: 'cuisine_subtype',
+  cities: 'city',
+  price_levels: 'price_level',
+  tags: 'tags',
+  certifying_bodies: 'certifying_body',
+  halal_flags: 'halal_flags',
+} as const satisfies Record<FacetField, keyof Place>;
+
+// Places without a halal status are listed under this value
+export const UNVERIFIED_HALAL_STATUS = HALAL_STATUS.UNVERIFIED.value;
+
+type FacetPlace = Pick<Place, (typeof FACET_COLUMNS)[FacetField]>;
+
+/**
+ * The values a place has for a facet (several for tags and halal flags)
+ */
+export function facetValuesOf(place: FacetPlace, field: FacetField): string[] {
+  if (field === 'tags' || field === 'halal_flags') return place[FACET_COLUMNS[field]] ?? [];
+  if (field === 'halal_statuses') return [place.effective_halal_status || UNVERIFIED_HALAL_STATUS];
+  const value = place[FACET_COLUMNS[field]];
+  return value ? [value] : [];
+}
+
+export function selectedFacetValues(filter: PlaceFilter, field: FacetField): string[] {
+  return filter[field] ?? [];
+}
+
+function matchesFacet(place: FacetPlace, field: FacetField, selected: string[]): boolean {
+  if (selected.length === 0) return true;
+  const values = facetValuesOf(place, field);
+
+  // Areas match loosely, as in the search query ("Shibuya" also matches "Shibuya-ku")
+  if (field === 'cities') {
+    return values.some((value) => selected.some((area) => value.toLowerCase().includes(area.toLowerCase())));
+  }
+  return values.some((value) => selected.includes(value));
+}
+
+/**
+ * Does the place match every facet of the filter, optionally leaving one out
+ */
+export function matchesFacets(place: FacetPlace, filter: PlaceFilter, except?: FacetField): boolean {
+  return FACET_FIELDS.every((field) => field === except || matchesFacet(place, field, selectedFacetValues(filter, field)));
+}
+
+/**
+ * The filter without its facet selections
+ */
+export function withoutFacets(filter: PlaceFilter): PlaceFilter {
+  const rest: PlaceFilter = { ...filter };
+  for (const field of FACET_FIELDS) delete rest[field];
+  return rest;
+}
+
+/**
+ * Value counts per facet over places that match the rest of the filter. Selected
+ * values are always listed, even when nothing matches them any more.
+ */
+export function countFacets(
+  places: FacetPlace[],
+  filter: PlaceFilter,
+  maxValues: number
+): Record<FacetField, FacetValue[]> {
+  const facets = {} as Record<FacetField, FacetValue[]>;
+
+  for (const field of FACET_FIELDS) {
+    const selected = selectedFacetValues(filter, field);
+    const counts = new Map<string, number>(selected.map((value) => [value, 0]));
+
+    for (const place of places) {
+      if (!matchesFacets(place, filter, field)) continue;
+      for (const value of new Set(facetValuesOf(place, field))) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      }
+    }
+
+    const values = [...counts]
+      .map(([value, count]) => ({ value, count, selected: selected.includes(value) }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+    facets[field] = [
+      ...values.filter((v) => v.selected),
+      ...values.filter((v) => !v.selected).slice(0, maxValues),
+    ].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+
+  return facets;
+}
@@ -0,0 +1,21 @@
+/**
+ * Server-side access to the user_favorites table
+ */
+
+import { createClient } from './supabase-server';
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * A user's favorite place IDs, oldest first
+ */
+export async function listFavoriteIds(supabase: ServerClient, userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('user_favorites')
+    .select('place_id')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map((row) => row.place_id);
+}
@@ -0,0 +1,78 @@
+/**
+ * Geospatial helpers for location-based search
+ */
+
+import { BoundsFilter, LatLng, NearFilter } from './types';
+import { GEO_CONFIG } from './constants';
+
+const EARTH_RADIUS_M = 6371000;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Great-circle distance between two points in meters (haversine)
+ */
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Short distance label: "350 m", "1.2 km"
+ */
+export function formatDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters / 10) * 10} m`;
+  return `${(meters / 1000).toFixed(meters < 10000 ? 1 : 0)} km`;
+}
+
+/**
+ * Smallest bounding box that contains a circle
+ */
+export function boundsAround(near: NearFilter): BoundsFilter {
+  const latDelta = (near.radius_m / EARTH_RADIUS_M) * (180 / Math.PI);
+  const lngDelta = latDelta / Math.max(Math.cos(toRadians(near.lat)), 0.01);
+  return {
+    north: Math.min(near.lat + latDelta, 90),
+    south: Math.max(near.lat - latDelta, -90),
+    east: near.lng + lngDelta,
+    west: near.lng - lngDelta,
+  };
+}
+
+/**
+ * Validate a `near` filter from untrusted input, clamping the radius
+ */
+export function parseNearFilter(value: unknown): NearFilter | null {
+  if (!value || typeof value !== 'object') return null;
+  const { lat, lng, radius_m } = value as Record<string, unknown>;
+  if (!isFiniteNumber(lat) || !isFiniteNumber(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+  const radius = isFiniteNumber(radius_m) ? radius_m : GEO_CONFIG.DEFAULT_RADIUS_M;
+  return {
+    lat,
+    lng,
+    radius_m: Math.min(Math.max(radius, GEO_CONFIG.MIN_RADIUS_M), GEO_CONFIG.MAX_RADIUS_M),
+  };
+}
+
+/**
+ * Validate a bounding box from untrusted input
+ */
+export function parseBoundsFilter(value: unknown): BoundsFilter | null {
+  if (!value || typeof value !== 'object') return null;
+  const { north, south, east, west } = value as Record<string, unknown>;
+  if (![north, south, east, west].every(isFiniteNumber)) return null;
+  if ((north as number) < (south as number)) return null;
+  return { north, south, east, west } as BoundsFilter;
+}
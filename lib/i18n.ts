@@ -0,0 +1,117 @@
+/**
+ * Interface languages: locale detection and message lookup. Catalogs live in
+ * locales/*.ts, keyed like the English one; place data (names, cuisines, areas)
+ * stays in English as stored in the database.
+ */
+
+import { CERTIFICATION_SCOPES, getHalalStatusConfig, HALAL_FLAGS, HALAL_STATUS } from './constants';
+import { en } from '@/locales/en';
+import { ja } from '@/locales/ja';
+import { ms } from '@/locales/ms';
+import { id } from '@/locales/id';
+import { ar } from '@/locales/ar';
+
+export const LOCALES = ['en', 'ja', 'ms', 'id', 'ar'] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Each language's name in itself, for the language switcher
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  ja: '日本語',
+  ms: 'Bahasa Melayu',
+  id: 'Bahasa Indonesia',
+  ar: 'العربية',
+};
+
+// English names, for telling the assistant which language the interface is in
+export const LOCALE_ENGLISH_NAMES: Record<Locale, string> = {
+  en: 'English',
+  ja: 'Japanese',
+  ms: 'Malay',
+  id: 'Indonesian',
+  ar: 'Arabic',
+};
+
+const RTL_LOCALES: readonly Locale[] = ['ar'];
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+export type TranslationParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+const CATALOGS: Record<Locale, Messages> = { en, ja, ms, id, ar };
+
+// Plural forms are extra keys, e.g. "results.count_one" next to "results.count"
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+export function textDirection(locale: Locale): 'ltr' | 'rtl' {
+  return RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr';
+}
+
+/**
+ * The first supported language of a browser's preferences (e.g. navigator.languages),
+ * matched on the primary subtag: "ms-MY" → "ms". Falls back to English.
+ */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const primary = language.toLowerCase().split('-')[0];
+    if (isLocale(primary)) return primary;
+    if (primary === 'in') return 'id'; // Legacy code for Indonesian
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * A message in the given language with `{name}` placeholders filled in. With a
+ * numeric `count`, the plural variant for it is used when the catalog has one.
+ */
+export function translate(locale: Locale, key: MessageKey, params?: TranslationParams): string {
+  const catalog = CATALOGS[locale] as Record<string, string>;
+
+  let message = catalog[key];
+  if (typeof params?.count === 'number') {
+    if (!pluralRules.has(locale)) pluralRules.set(locale, new Intl.PluralRules(locale));
+    message = catalog[`${key}_${pluralRules.get(locale)!.select(params.count)}`] ?? message;
+  }
+
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+}
+
+/**
+ * Message keys for the label and description of a halal status (see HALAL_STATUS),
+ * lowered like getHalalStatusConfig when the place has a verification issue
+ */
+export function halalStatusMessages(
+  status: string | null | undefined,
+  verificationIssue?: string | null
+): { label: MessageKey; description: MessageKey } {
+  switch (getHalalStatusConfig(status, verificationIssue)) {
+    case HALAL_STATUS.CERTIFIED:
+      return { label: 'halal.certified', description: 'halal.certified.description' };
+    case HALAL_STATUS.MUSLIM_FRIENDLY:
+      return { label: 'halal.muslimFriendly', description: 'halal.muslimFriendly.description' };
+    default:
+      return { label: 'halal.unverified', description: 'halal.unverified.description' };
+  }
+}
+
+/**
+ * Message key for a halal flag (see HALAL_FLAGS), or null for a value the app doesn't know
+ */
+export function halalFlagMessage(flag: string): MessageKey | null {
+  return (HALAL_FLAGS as readonly string[]).includes(flag) ? (`halal.flag.${flag}` as MessageKey) : null;
+}
+
+/**
+ * Message key for a certification scope (see CERTIFICATION_SCOPES), or null for an unknown one
+ */
+export function certificationScopeMessage(scope: string): MessageKey | null {
+  return (CERTIFICATION_SCOPES as readonly string[]).includes(scope) ? (`certification.scope.${scope}` as MessageKey) : null;
+}
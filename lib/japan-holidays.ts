@@ -0,0 +1,94 @@
+/**
+ * Japanese public holiday calendar (National Holiday Act, rules in force since 2022)
+ */
+
+const holidayCache = new Map<number, Set<string>>();
+
+function toDateKey(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+/**
+ * Move a "YYYY-MM-DD" date by a number of days
+ */
+export function shiftDateKey(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Day of month of the nth Monday (Happy Monday holidays)
+ */
+function nthMonday(year: number, month: number, n: number): number {
+  const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+  return 1 + ((8 - firstWeekday) % 7) + (n - 1) * 7;
+}
+
+/**
+ * Equinox day approximations, valid for 1980-2099
+ */
+function vernalEquinox(year: number): number {
+  return Math.floor(20.8431 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+function autumnalEquinox(year: number): number {
+  return Math.floor(23.2488 + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+function buildHolidays(year: number): Set<string> {
+  const holidays = new Set<string>([
+    toDateKey(year, 1, 1),                         // New Year's Day
+    toDateKey(year, 1, nthMonday(year, 1, 2)),     // Coming of Age Day
+    toDateKey(year, 2, 11),                        // National Foundation Day
+    toDateKey(year, 2, 23),                        // Emperor's Birthday
+    toDateKey(year, 3, vernalEquinox(year)),       // Vernal Equinox Day
+    toDateKey(year, 4, 29),                        // Showa Day
+    toDateKey(year, 5, 3),                         // Constitution Memorial Day
+    toDateKey(year, 5, 4),                         // Greenery Day
+    toDateKey(year, 5, 5),                         // Children's Day
+    toDateKey(year, 7, nthMonday(year, 7, 3)),     // Marine Day
+    toDateKey(year, 8, 11),                        // Mountain Day
+    toDateKey(year, 9, nthMonday(year, 9, 3)),     // Respect for the Aged Day
+    toDateKey(year, 9, autumnalEquinox(year)),     // Autumnal Equinox Day
+    toDateKey(year, 10, nthMonday(year, 10, 2)),   // Sports Day
+    toDateKey(year, 11, 3),                        // Culture Day
+    toDateKey(year, 11, 23),                       // Labor Thanksgiving Day
+  ]);
+
+  // Citizens' holiday: a weekday sandwiched between two holidays
+  for (const day of [...holidays]) {
+    const between = shiftDateKey(day, 1);
+    const weekday = new Date(`${between}T00:00:00Z`).getUTCDay();
+    if (!holidays.has(between) && weekday !== 0 && holidays.has(shiftDateKey(day, 2))) {
+      holidays.add(between);
+    }
+  }
+
+  // Substitute holiday: a holiday on Sunday moves to the next non-holiday day
+  for (const day of [...holidays].sort()) {
+    if (new Date(`${day}T00:00:00Z`).getUTCDay() !== 0) continue;
+    let substitute = shiftDateKey(day, 1);
+    while (holidays.has(substitute)) {
+      substitute = shiftDateKey(substitute, 1);
+    }
+    holidays.add(substitute);
+  }
+
+  return holidays;
+}
+
+/**
+ * Check if a "YYYY-MM-DD" date is a Japanese public holiday
+ */
+export function isJapaneseHoliday(dateKey: string): boolean {
+  const year = Number(dateKey.slice(0, 4));
+  if (!Number.isFinite(year)) return false;
+
+  let holidays = holidayCache.get(year);
+  if (!holidays) {
+    holidays = buildHolidays(year);
+    holidayCache.set(year, holidays);
+  }
+  return holidays.has(dateKey);
+}
@@ -0,0 +1,68 @@
+/**
+ * Incremental JSON scanning for values that stream in from the model.
+ * Lets the chat route act on tool arguments before the full completion has arrived.
+ */
+
+/**
+ * Index of the closing quote of the string starting at `start`, or -1 if incomplete
+ */
+function findStringEnd(json: string, start: number): number {
+  for (let i = start + 1; i < json.length; i++) {
+    if (json[i] === '\\') {
+      i++;
+    } else if (json[i] === '"') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function skipWhitespace(json: string, start: number): number {
+  let i = start;
+  while (i < json.length && /\s/.test(json[i])) i++;
+  return i;
+}
+
+/**
+ * Index just past the value starting at `start`, or -1 if it is still incomplete
+ */
+function findValueEnd(json: string, start: number): number {
+  const first = json[start];
+
+  if (first === '"') {
+    const end = findStringEnd(json, start);
+    return end === -1 ? -1 : end + 1;
+  }
+
+  if (first === '{' || first === '[') {
+    let depth = 0;
+    for (let i = start; i < json.length; i++) {
+      const ch = json[i];
+      if (ch === '"') {
+        const end = findStringEnd(json, i);
+        if (end === -1) return -1;
+        i = end;
+      } else if (ch === '{' || ch === '[') {
+        depth++;
+      } else if (ch === '}' || ch === ']') {
+        depth--;
+        if (depth === 0) return i + 1;
+      }
+    }
+    return -1;
+  }
+
+  // Literal (number, true, false, null) - complete once a delimiter follows
+  for (let i = start; i < json.length; i++) {
+    if (/[\s,}\]]/.test(json[i])) return i;
+  }
+  return -1;
+}
+
+/**
+ * Check if text holds one complete JSON value (e.g. streamed tool call arguments)
+ */
+export function isCompleteJsonValue(text: string): boolean {
+  const start = skipWhitespace(text, 0);
+  return start < text.length && findValueEnd(text, start) !== -1;
+}
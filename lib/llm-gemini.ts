@@ -0,0 +1,135 @@
+/**
+ * Gemini adapter for the LLM provider interface (server-only). Gemini has no tool
+ * call IDs and takes an OpenAPI subset of JSON Schema, so both are translated here.
+ */
+
+import {
+  Content,
+  FunctionCall,
+  FunctionDeclarationSchema,
+  GenerateContentRequest,
+  GoogleGenerativeAI,
+  Part,
+} from '@google/generative-ai';
+import { safeJsonParse } from './utils';
+import type { LLMProvider, LLMRequest, LLMStreamEvent, ToolCall } from './llm-provider';
+
+/**
+ * JSON Schema → Gemini schema: `["string", "null"]` becomes `nullable`, null enum
+ * members and `additionalProperties` are dropped
+ */
+function toGeminiSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const { type, enum: values, properties, items, ...rest } = schema;
+  const out: Record<string, unknown> = { ...rest };
+  delete out.additionalProperties;
+
+  if (Array.isArray(type)) {
+    out.type = type.find((t) => t !== 'null');
+    if (type.includes('null')) out.nullable = true;
+  } else {
+    out.type = type;
+  }
+  if (Array.isArray(values)) out.enum = values.filter((v) => v !== null);
+  if (properties && typeof properties === 'object') {
+    out.properties = Object.fromEntries(
+      Object.entries(properties as Record<string, Record<string, unknown>>).map(([key, value]) => [key, toGeminiSchema(value)])
+    );
+  }
+  if (items && typeof items === 'object') out.items = toGeminiSchema(items as Record<string, unknown>);
+  return out;
+}
+
+function toGeminiRequest(request: LLMRequest): GenerateContentRequest {
+  const system: string[] = [];
+  const contents: Content[] = [];
+
+  const append = (role: string, part: Part) => {
+    const last = contents[contents.length - 1];
+    if (last?.role === role) last.parts.push(part);
+    else contents.push({ role, parts: [part] });
+  };
+
+  for (const message of request.messages) {
+    switch (message.role) {
+      case 'system':
+        system.push(message.content);
+        break;
+      case 'user':
+        append('user', { text: message.content });
+        break;
+      case 'assistant':
+        if (message.content) append('model', { text: message.content });
+        for (const call of message.toolCalls ?? []) {
+          append('model', { functionCall: { name: call.name, args: safeJsonParse(call.arguments || '{}', {}) } });
+        }
+        break;
+      case 'tool':
+        append('function', { functionResponse: { name: message.name, response: { content: message.content } } });
+        break;
+    }
+  }
+
+  return {
+    contents,
+    systemInstruction: system.length > 0 ? system.join('\n\n') : undefined,
+    tools: [{
+      functionDeclarations: request.tools.map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: toGeminiSchema(tool.parameters) as unknown as FunctionDeclarationSchema,
+      })),
+    }],
+    generationConfig: {
+      temperature: request.temperature,
+      maxOutputTokens: request.maxTokens,
+    },
+  };
+}
+
+// Gemini doesn't number its calls, so IDs are assigned in reply order
+function toToolCall(call: FunctionCall, index: number): ToolCall {
+  return { id: `call_${index}`, name: call.name, arguments: JSON.stringify(call.args ?? {}) };
+}
+
+export function createGeminiProvider(apiKey: string, modelName: string): LLMProvider {
+  const model = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model: modelName });
+
+  return {
+    name: 'gemini',
+
+    async complete(request) {
+      const { response } = await model.generateContent(toGeminiRequest(request));
+      const parts = response.candidates?.[0]?.content?.parts ?? [];
+      const text = parts.map((part) => part.text ?? '').join('');
+      const calls = parts.flatMap((part) => (part.functionCall ? [part.functionCall] : []));
+      return { content: text || null, toolCalls: calls.map(toToolCall) };
+    },
+
+    async stream(request) {
+      const controller = new AbortController();
+      const result = await model.generateContentStream(toGeminiRequest(request), { signal: controller.signal });
+      const toolCalls: ToolCall[] = [];
+
+      async function* events(): AsyncGenerator<LLMStreamEvent> {
+        for await (const chunk of result.stream) {
+          for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+            if (part.text) yield { type: 'text', delta: part.text };
+
+            // Function calls arrive whole rather than in fragments
+            if (part.functionCall) {
+              const call = toToolCall(part.functionCall, toolCalls.length);
+              toolCalls.push(call);
+              yield { type: 'tool_calls', calls: [call] };
+            }
+          }
+        }
+      }
+
+      return {
+        [Symbol.asyncIterator]: events,
+        getToolCalls: () => toolCalls,
+        abort: () => controller.abort(),
+      };
+    },
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * Deterministic local provider for developing the chat without network or API keys.
+ * It reads the last user message with simple keyword rules and answers with the
+ * same tool calls the real assistant would make; the same input always gives the same reply.
+ */
+
+import type { LLMMessage, LLMProvider, LLMReply, LLMRequest, LLMStreamEvent, ToolCall } from './llm-provider';
+import { PlaceFilter } from './types';
+import { TOOL_NAMES } from './assistant-tools';
+
+const DISHES = ['ramen', 'sushi', 'yakiniku', 'curry', 'kebab', 'udon', 'soba', 'tempura', 'burger', 'pizza', 'biryani', 'shawarma'];
+const CATEGORIES = ['japanese', 'indian', 'turkish', 'malaysian', 'indonesian', 'middle eastern', 'pakistani', 'thai', 'chinese'];
+const AREAS = ['tokyo', 'osaka', 'kyoto', 'shinjuku', 'shibuya', 'asakusa', 'ueno', 'akihabara', 'ikebukuro', 'ginza', 'harajuku'];
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth'];
+
+const capitalize = (word: string) => word.replace(/\b\w/g, (c) => c.toUpperCase());
+
+/**
+ * Names listed under a heading of the system prompt context, e.g. "RANKED BY RATING"
+ */
+function listedPlaces(system: string, heading: string): string[] {
+  const section = system.match(new RegExp(`^${heading}[^\\n]*:\\n((?:\\d+\\. .*\\n?)+)`, 'm'))?.[1] ?? '';
+  return [...section.matchAll(/^\d+\. (.+?) \(/gm)].map((match) => match[1]);
+}
+
+function toolCall(name: string, args: object): ToolCall {
+  return { id: `mock_${name}`, name, arguments: JSON.stringify(args) };
+}
+
+/**
+ * Words of the message that are ruled out ("not indian", "no sushi", "except ramen")
+ */
+function excludedWords(text: string, words: string[]): string[] {
+  return words.filter((word) => new RegExp(`\\b(not|no|except|without)\\s+${word}\\b`).test(text));
+}
+
+function filterFor(text: string): { filter: PlaceFilter; description: string } {
+  const filter: PlaceFilter = {};
+  const parts: string[] = [];
+  const has = (word: string) => new RegExp(`\\b${word}\\b`).test(text);
+
+  const excluded = [...excludedWords(text, DISHES), ...excludedWords(text, CATEGORIES)];
+  const dishes = DISHES.filter((d) => has(d) && !excluded.includes(d));
+  const categories = CATEGORIES.filter((c) => has(c) && !excluded.includes(c));
+
+  if (dishes.length === 1) filter.cuisine_subtype = capitalize(dishes[0]);
+  else if (dishes.length > 1) filter.cuisines = dishes.map(capitalize);
+  if (categories.length > 0) filter.cuisine_category = capitalize(categories[0]);
+  if (dishes.length + categories.length > 0) parts.push([...categories, ...dishes].map(capitalize).join(' or '));
+
+  if (excluded.length > 0) {
+    filter.exclude = { cuisines: excluded.map(capitalize) };
+    parts.push(`places (not ${excluded.map(capitalize).join(', ')})`);
+  }
+
+  const area = AREAS.find(has);
+  if (area) filter.keyword = capitalize(area);
+
+  if (/\b(cheap|budget|affordable)\b/.test(text)) {
+    filter.price_level = '$';
+    parts.unshift('budget');
+  } else if (/\b(expensive|fancy|fine dining)\b/.test(text)) {
+    filter.price_level = '$$$';
+    parts.unshift('upscale');
+  }
+  if (/\b(no|without) alcohol\b|alcohol[- ]free/.test(text)) {
+    filter.tags = ['no-alcohol'];
+    parts.push('without alcohol');
+  }
+  if (has('spicy')) {
+    filter.tag = 'spicy';
+    parts.unshift('spicy');
+  }
+  if (/\bopen now\b/.test(text)) {
+    filter.open_now = true;
+    parts.push('open now');
+  }
+  if (/\b(best|top|highest)\b/.test(text)) filter.sort = 'rating';
+  else if (/\b(nearest|closest)\b/.test(text)) filter.sort = 'distance';
+
+  const description = [...parts, area ? `in ${capitalize(area)}` : ''].filter(Boolean).join(' ');
+  return { filter, description };
+}
+
+function reply(messages: LLMMessage[]): LLMReply {
+  const last = messages[messages.length - 1];
+
+  // Repair turns: the mock never sends invalid arguments, so there is nothing to fix
+  if (last?.role === 'tool') return { content: null, toolCalls: [] };
+
+  const text = last?.role === 'user' ? last.content.toLowerCase() : '';
+  const system = messages.filter((m) => m.role === 'system').map((m) => m.content).join('\n\n');
+  const results = listedPlaces(system, 'CURRENT SEARCH RESULTS');
+  const ranked = listedPlaces(system, 'RANKED BY RATING');
+
+  // Follow-ups about the places already on screen
+  const ordinal = ORDINALS.findIndex((word) => text.includes(word));
+  const referenced = results[ordinal >= 0 ? ordinal : 0];
+  if (referenced && /\b(open|show|details)\b/.test(text) && ordinal >= 0) {
+    return { content: `Opening ${referenced} for you!`, toolCalls: [toolCall(TOOL_NAMES.OPEN_PLACE_DETAILS, { place_name: referenced })] };
+  }
+  if (referenced && /\b(save|favorite|favourite|bookmark)\b/.test(text)) {
+    return { content: `I've added ${referenced} to your favorites!`, toolCalls: [toolCall(TOOL_NAMES.ADD_TO_FAVORITES, { place_name: referenced })] };
+  }
+
+  const { filter, description } = filterFor(text);
+  if (Object.keys(filter).length === 0 || (Object.keys(filter).length === 1 && filter.sort)) {
+    const best = ranked[0] ?? results[0];
+    if (best && /\b(best|top|which|recommend)\b/.test(text)) {
+      return { content: `I'd go with ${best}.`, toolCalls: [toolCall(TOOL_NAMES.RECOMMEND_PLACE, { place_name: best })] };
+    }
+    return {
+      content: 'Tell me a dish, a cuisine or an area (e.g. "ramen in Shinjuku") and I\'ll filter the map.',
+      toolCalls: [],
+    };
+  }
+
+  return {
+    content: `Here are halal ${description || 'places'}!`,
+    toolCalls: [toolCall(TOOL_NAMES.SET_MAP_FILTER, filter)],
+  };
+}
+
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+
+    async complete(request: LLMRequest) {
+      return reply(request.messages);
+    },
+
+    async stream(request: LLMRequest) {
+      const { content, toolCalls } = reply(request.messages);
+      let aborted = false;
+
+      // Tool calls first, then the text word by word, like a real stream
+      async function* events(): AsyncGenerator<LLMStreamEvent> {
+        if (toolCalls.length > 0) yield { type: 'tool_calls', calls: toolCalls };
+        for (const word of (content ?? '').split(/(?<= )/)) {
+          if (aborted) return;
+          yield { type: 'text', delta: word };
+        }
+      }
+
+      return {
+        [Symbol.asyncIterator]: events,
+        getToolCalls: () => toolCalls,
+        abort: () => {
+          aborted = true;
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * OpenAI adapter for the LLM provider interface (server-only)
+ */
+
+import OpenAI from 'openai';
+import type { LLMMessage, LLMProvider, LLMRequest, LLMStreamEvent, ToolCall } from './llm-provider';
+
+type ChatMessageParam = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+function toOpenAIMessage(message: LLMMessage): ChatMessageParam {
+  switch (message.role) {
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content,
+        ...(message.toolCalls?.length && {
+          tool_calls: message.toolCalls.map((call) => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        }),
+      };
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
+
+function toOpenAIRequest(model: string, request: LLMRequest) {
+  return {
+    model,
+    messages: request.messages.map(toOpenAIMessage),
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    tools: request.tools.map((tool): OpenAI.Chat.Completions.ChatCompletionFunctionTool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    })),
+    tool_choice: 'auto' as const,
+  };
+}
+
+/**
+ * Collect function tool calls from a completed (non-streamed) message
+ */
+function getToolCalls(message: OpenAI.Chat.Completions.ChatCompletionMessage): ToolCall[] {
+  return (message.tool_calls ?? []).flatMap((call) =>
+    call.type === 'function'
+      ? [{ id: call.id, name: call.function.name, arguments: call.function.arguments }]
+      : []
+  );
+}
+
+/**
+ * Assemble tool calls from streamed deltas, which arrive in fragments keyed by index
+ */
+function createToolCallAccumulator() {
+  const calls: ToolCall[] = [];
+
+  return {
+    /**
+     * Add streamed fragments; returns the calls they touched
+     */
+    push(deltas: OpenAI.Chat.Completions.ChatCompletionChunk.Choice.Delta.ToolCall[]): ToolCall[] {
+      const touched = new Set<ToolCall>();
+      for (const delta of deltas) {
+        const call = (calls[delta.index] ??= { id: '', name: '', arguments: '' });
+        if (delta.id) call.id = delta.id;
+        if (delta.function?.name) call.name += delta.function.name;
+        if (delta.function?.arguments) call.arguments += delta.function.arguments;
+        touched.add(call);
+      }
+      return [...touched];
+    },
+
+    getCalls(): ToolCall[] {
+      return calls.filter(Boolean);
+    },
+  };
+}
+
+export function createOpenAIProvider(apiKey: string, model: string): LLMProvider {
+  const openai = new OpenAI({ apiKey });
+
+  return {
+    name: 'openai',
+
+    async complete(request) {
+      const response = await openai.chat.completions.create(toOpenAIRequest(model, request));
+      const message = response.choices[0].message;
+      return { content: message.content, toolCalls: getToolCalls(message) };
+    },
+
+    async stream(request) {
+      // Created up front so upstream errors reject here rather than mid-stream
+      const completion = await openai.chat.completions.create({ ...toOpenAIRequest(model, request), stream: true });
+
+      const toolCalls = createToolCallAccumulator();
+
+      async function* events(): AsyncGenerator<LLMStreamEvent> {
+        for await (const chunk of completion) {
+          const delta = chunk.choices[0]?.delta;
+          if (!delta) continue;
+          if (delta.content) yield { type: 'text', delta: delta.content };
+          if (delta.tool_calls?.length) yield { type: 'tool_calls', calls: toolCalls.push(delta.tool_calls) };
+        }
+      }
+
+      return {
+        [Symbol.asyncIterator]: events,
+        getToolCalls: () => toolCalls.getCalls(),
+        abort: () => completion.controller.abort(),
+      };
+    },
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Provider-neutral chat model interface (server-only). The assistant speaks in these
+ * types; each adapter translates them to its SDK. Selected by LLM_PROVIDER.
+ */
+
+import { LLM_CONFIG } from './constants';
+import { createOpenAIProvider } from './llm-openai';
+import { createGeminiProvider } from './llm-gemini';
+import { createMockProvider } from './llm-mock';
+
+export type LLMProviderName = 'openai' | 'gemini' | 'mock';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string; // Raw JSON string from the model
+}
+
+// A callable tool; `parameters` is a JSON Schema object
+export interface LLMTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export type LLMMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  tools: LLMTool[];
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMReply {
+  content: string | null;
+  toolCalls: ToolCall[];
+}
+
+// `tool_calls` lists the calls a chunk touched, with their arguments so far
+export type LLMStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_calls'; calls: ToolCall[] };
+
+export interface LLMStream extends AsyncIterable<LLMStreamEvent> {
+  getToolCalls(): ToolCall[]; // Every call, complete once the stream has ended
+  abort(): void;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  complete(request: LLMRequest): Promise<LLMReply>;
+  stream(request: LLMRequest): Promise<LLMStream>;
+}
+
+const PROVIDER_NAMES: readonly LLMProviderName[] = ['openai', 'gemini', 'mock'];
+
+let provider: LLMProvider | null = null;
+
+/**
+ * The provider selected by LLM_PROVIDER ("openai" by default). Throws if it is
+ * unknown or its API key is missing.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (provider) return provider;
+
+  const name = (process.env.LLM_PROVIDER || 'openai') as LLMProviderName;
+  if (!PROVIDER_NAMES.includes(name)) {
+    throw new Error(`Unknown LLM_PROVIDER "${name}". Use one of: ${PROVIDER_NAMES.join(', ')}.`);
+  }
+
+  const model = process.env.LLM_MODEL || undefined;
+  switch (name) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) throw new Error('Missing OPENAI_API_KEY environment variable.');
+      provider = createOpenAIProvider(apiKey, model ?? LLM_CONFIG.OPENAI_MODEL);
+      break;
+    }
+    case 'gemini': {
+      const apiKey = process.env.GOOGLE_GENERATIVE_AI_API_KEY;
+      if (!apiKey) throw new Error('Missing GOOGLE_GENERATIVE_AI_API_KEY environment variable.');
+      provider = createGeminiProvider(apiKey, model ?? LLM_CONFIG.GEMINI_MODEL);
+      break;
+    }
+    case 'mock':
+      provider = createMockProvider();
+      break;
+  }
+  return provider;
+}
@@ -0,0 +1,233 @@
+/**
+ * Opening hours parsing and evaluation (Asia/Tokyo local time)
+ */
+
+import { Json } from './supabase';
+import { OpeningHours, PlaceFilter, TimeRange, Weekday } from './types';
+import { TIME_CONFIG } from './constants';
+import { isJapaneseHoliday, shiftDateKey } from './japan-holidays';
+
+// Sunday-first to match Date#getDay and Google's day numbering
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const TIME_PATTERN = /^([01]\d|2[0-4]):([0-5]\d)$/;
+
+const tokyoFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: TIME_CONFIG.TIMEZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+interface LocalDateTime {
+  dateKey: string; // "YYYY-MM-DD"
+  minutes: number; // Minutes since local midnight
+}
+
+/**
+ * Convert an instant into Tokyo local date and time
+ */
+function toTokyoDateTime(date: Date): LocalDateTime {
+  const parts = Object.fromEntries(
+    tokyoFormatter.formatToParts(date).map((part) => [part.type, part.value])
+  );
+  return {
+    dateKey: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+/**
+ * Today's date in Tokyo as "YYYY-MM-DD"
+ */
+export function tokyoDateKey(now: Date = new Date()): string {
+  return toTokyoDateTime(now).dateKey;
+}
+
+function weekdayOf(dateKey: string): Weekday {
+  return WEEKDAYS[new Date(`${dateKey}T00:00:00Z`).getUTCDay()];
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * A range whose close is at or before its open runs past midnight
+ */
+function isOvernight(range: TimeRange): boolean {
+  return toMinutes(range.close) <= toMinutes(range.open);
+}
+
+/**
+ * Get the ranges that apply to a calendar date (exceptions > holidays > weekly)
+ */
+export function getRangesForDate(hours: OpeningHours, dateKey: string): TimeRange[] {
+  const exception = hours.exceptions?.[dateKey];
+  if (exception) return exception;
+  if (hours.holidays && isJapaneseHoliday(dateKey)) return hours.holidays;
+  return hours.weekly[weekdayOf(dateKey)] ?? [];
+}
+
+/**
+ * Check if a place is open at a given instant
+ */
+export function isOpenAt(hours: OpeningHours, at: Date): boolean {
+  const { dateKey, minutes } = toTokyoDateTime(at);
+
+  // Ranges that started today
+  const openToday = getRangesForDate(hours, dateKey).some((range) => {
+    const open = toMinutes(range.open);
+    if (isOvernight(range)) return minutes >= open;
+    return minutes >= open && minutes < toMinutes(range.close);
+  });
+  if (openToday) return true;
+
+  // Overnight ranges that started yesterday and haven't closed yet
+  return getRangesForDate(hours, shiftDateKey(dateKey, -1)).some(
+    (range) => isOvernight(range) && minutes < toMinutes(range.close)
+  );
+}
+
+/**
+ * Check if a place is open right now
+ */
+export function isOpenNow(hours: OpeningHours, now: Date = new Date()): boolean {
+  return isOpenAt(hours, now);
+}
+
+function isTimeRange(value: unknown): value is TimeRange {
+  if (!value || typeof value !== 'object') return false;
+  const range = value as Record<string, unknown>;
+  return (
+    typeof range.open === 'string' && TIME_PATTERN.test(range.open) &&
+    typeof range.close === 'string' && TIME_PATTERN.test(range.close)
+  );
+}
+
+function parseRanges(value: unknown): TimeRange[] | null {
+  if (!Array.isArray(value)) return null;
+  return value.filter(isTimeRange).map(({ open, close }) => ({ open, close }));
+}
+
+interface GooglePeriodPoint {
+  day?: number;
+  time?: string;   // "HHMM" (Maps JavaScript API)
+  hour?: number;   // Places API (New)
+  minute?: number;
+}
+
+function googlePointToTime(point: GooglePeriodPoint): string | null {
+  if (typeof point.time === 'string' && /^\d{4}$/.test(point.time)) {
+    return `${point.time.slice(0, 2)}:${point.time.slice(2)}`;
+  }
+  if (typeof point.hour === 'number') {
+    return `${String(point.hour).padStart(2, '0')}:${String(point.minute ?? 0).padStart(2, '0')}`;
+  }
+  return null;
+}
+
+/**
+ * Convert Google Places `periods` into the weekly schema
+ */
+function fromGooglePeriods(periods: unknown[]): OpeningHours {
+  const weekly: OpeningHours['weekly'] = {};
+
+  for (const period of periods) {
+    const { open, close } = (period || {}) as { open?: GooglePeriodPoint; close?: GooglePeriodPoint };
+    if (!open || typeof open.day !== 'number' || !WEEKDAYS[open.day]) continue;
+
+    const openTime = googlePointToTime(open);
+    if (!openTime) continue;
+
+    // A period without a close time means open around the clock
+    const closeTime = close ? googlePointToTime(close) : openTime;
+    if (!closeTime) continue;
+
+    const day = WEEKDAYS[open.day];
+    weekly[day] = [...(weekly[day] ?? []), { open: openTime, close: closeTime }];
+  }
+
+  // Google encodes 24/7 as a single Sunday period with no close
+  if (periods.length === 1 && weekly.sun?.[0]?.open === '00:00' && weekly.sun[0].close === '00:00') {
+    for (const day of WEEKDAYS) weekly[day] = [{ open: '00:00', close: '00:00' }];
+  }
+
+  return { weekly };
+}
+
+/**
+ * Parse the places.opening_hours JSON column into the typed schema.
+ * Accepts the native schema or Google Places `periods`; returns null if unusable.
+ */
+export function parseOpeningHours(value: Json | null | undefined): OpeningHours | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+
+  if (Array.isArray(raw.periods)) {
+    return fromGooglePeriods(raw.periods);
+  }
+
+  if (!raw.weekly || typeof raw.weekly !== 'object') return null;
+
+  const weekly: OpeningHours['weekly'] = {};
+  for (const day of WEEKDAYS) {
+    const ranges = parseRanges((raw.weekly as Record<string, unknown>)[day]);
+    if (ranges) weekly[day] = ranges;
+  }
+
+  const hours: OpeningHours = { weekly };
+
+  const holidays = parseRanges(raw.holidays);
+  if (holidays) hours.holidays = holidays;
+
+  if (raw.exceptions && typeof raw.exceptions === 'object') {
+    hours.exceptions = {};
+    for (const [dateKey, ranges] of Object.entries(raw.exceptions as Record<string, unknown>)) {
+      const parsed = parseRanges(ranges);
+      if (/^\d{4}-\d{2}-\d{2}$/.test(dateKey) && parsed) hours.exceptions[dateKey] = parsed;
+    }
+  }
+
+  return hours;
+}
+
+/**
+ * Resolve an `open_at` filter value to an instant.
+ * "HH:MM" means the next time the Tokyo clock shows it (today, or tomorrow once it has passed);
+ * anything else is parsed as a date.
+ */
+export function resolveOpenAt(value: string, now: Date = new Date()): Date | null {
+  const trimmed = value.trim();
+  if (TIME_PATTERN.test(trimmed)) {
+    const time = trimmed === '24:00' ? '23:59' : trimmed;
+    const today = toTokyoDateTime(now);
+    const dateKey = toMinutes(time) < today.minutes ? shiftDateKey(today.dateKey, 1) : today.dateKey;
+    const date = new Date(`${dateKey}T${time}:00+09:00`);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  const date = new Date(trimmed);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Get the instant an opening-hours filter asks about, or null if none is set
+ */
+export function getOpeningFilterTime(filter: PlaceFilter, now: Date = new Date()): Date | null {
+  if (filter.open_at) return resolveOpenAt(filter.open_at, now);
+  if (filter.open_now) return now;
+  return null;
+}
+
+/**
+ * Format the current Tokyo date and time for prompts, e.g. "2026-10-18 (sun) 19:05"
+ */
+export function describeTokyoNow(now: Date = new Date()): string {
+  const { dateKey, minutes } = toTokyoDateTime(now);
+  const time = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  return `${dateKey} (${weekdayOf(dateKey)}) ${time}`;
+}
@@ -0,0 +1,170 @@
+/**
+ * Server-side validation of PlaceFilter objects from untrusted sources (LLM tool calls)
+ */
+
+import { FacetField, PlaceExclusions, PlaceFilter, PlaceSort } from './types';
+import { parseBoundsFilter, parseNearFilter } from './geo';
+import { resolveOpenAt } from './opening-hours';
+import { FACET_FIELDS } from './facets';
+import { HALAL_FLAGS, SEARCH_CONFIG } from './constants';
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+const STRING_FIELDS = ['cuisine_subtype', 'cuisine_category', 'tag', 'keyword', 'query', 'halal_status'] as const;
+const BOOLEAN_FIELDS = ['favorites', 'open_now'] as const;
+
+export const PRICE_LEVELS = ['$', '$$', '$$$'] as const;
+
+export const PLACE_SORTS: readonly PlaceSort[] = ['relevance', 'rating', 'distance', 'halal'];
+
+const EXCLUSION_FIELDS = ['cuisines', 'cities', 'tags', 'price_levels'] as const satisfies readonly (keyof PlaceExclusions)[];
+
+// Facets that only take known values
+const ALLOWED_FACET_VALUES: Partial<Record<FacetField, readonly string[]>> = {
+  price_levels: PRICE_LEVELS,
+  halal_flags: HALAL_FLAGS,
+};
+
+/**
+ * A de-duplicated list of trimmed strings, or undefined after pushing an error.
+ * `allowed` restricts the values, e.g. to price levels.
+ */
+function validateStringList(
+  key: string,
+  value: unknown,
+  errors: string[],
+  allowed?: readonly string[]
+): string[] | undefined {
+  if (!Array.isArray(value) || !value.every((v) => typeof v === 'string')) {
+    errors.push(`${key} must be an array of strings`);
+  } else if (value.length > SEARCH_CONFIG.MAX_FACET_SELECTIONS) {
+    errors.push(`${key} can have at most ${SEARCH_CONFIG.MAX_FACET_SELECTIONS} values`);
+  } else if (allowed && !value.every((v) => allowed.includes(v))) {
+    errors.push(`${key} must only contain ${allowed.join(', ')}`);
+  } else {
+    return [...new Set(value.map((v) => v.trim()).filter(Boolean))];
+  }
+  return undefined;
+}
+
+function validateExclusions(value: unknown, errors: string[]): PlaceExclusions | undefined {
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    errors.push('exclude must be an object or null');
+    return undefined;
+  }
+
+  const exclude: PlaceExclusions = {};
+  for (const [key, list] of Object.entries(value as Record<string, unknown>)) {
+    if (list === null || list === undefined) continue;
+    if (!(EXCLUSION_FIELDS as readonly string[]).includes(key)) {
+      errors.push(`unknown exclude field "${key}"`);
+      continue;
+    }
+    const field = key as (typeof EXCLUSION_FIELDS)[number];
+    const values = validateStringList(`exclude.${key}`, list, errors, field === 'price_levels' ? PRICE_LEVELS : undefined);
+    if (values && values.length > 0) exclude[field] = values;
+  }
+  return Object.keys(exclude).length > 0 ? exclude : undefined;
+}
+
+/**
+ * Validate and normalize a filter. Null values are dropped; unknown
+ * fields and wrongly typed values are reported as errors.
+ */
+export function validatePlaceFilter(input: unknown): ValidationResult<PlaceFilter> {
+  if (input === null || input === undefined) return { ok: true, value: {} };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { ok: false, errors: ['filter must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const filter: PlaceFilter = {};
+
+  for (const [key, value] of Object.entries(input as Record<string, unknown>)) {
+    if (value === null || value === undefined) continue;
+
+    if ((STRING_FIELDS as readonly string[]).includes(key)) {
+      if (typeof value !== 'string') {
+        errors.push(`${key} must be a string or null`);
+      } else if (value.trim()) {
+        filter[key as (typeof STRING_FIELDS)[number]] = value.trim();
+      }
+      continue;
+    }
+
+    if ((FACET_FIELDS as readonly string[]).includes(key)) {
+      const field = key as (typeof FACET_FIELDS)[number];
+      const values = validateStringList(key, value, errors, ALLOWED_FACET_VALUES[field]);
+      if (values && values.length > 0) filter[field] = values;
+      continue;
+    }
+
+    if ((BOOLEAN_FIELDS as readonly string[]).includes(key)) {
+      if (typeof value !== 'boolean') {
+        errors.push(`${key} must be a boolean or null`);
+      } else {
+        filter[key as (typeof BOOLEAN_FIELDS)[number]] = value;
+      }
+      continue;
+    }
+
+    switch (key) {
+      case 'price_level':
+        if (typeof value !== 'string' || !(PRICE_LEVELS as readonly string[]).includes(value)) {
+          errors.push(`price_level must be one of ${PRICE_LEVELS.join(', ')}`);
+        } else {
+          filter.price_level = value;
+        }
+        break;
+      case 'sort':
+        if (typeof value !== 'string' || !(PLACE_SORTS as readonly string[]).includes(value)) {
+          errors.push(`sort must be one of ${PLACE_SORTS.join(', ')}`);
+        } else {
+          filter.sort = value as PlaceSort;
+        }
+        break;
+      case 'cuisines': {
+        const values = validateStringList(key, value, errors);
+        if (values && values.length > 0) filter.cuisines = values;
+        break;
+      }
+      case 'exclude': {
+        const exclude = validateExclusions(value, errors);
+        if (exclude) filter.exclude = exclude;
+        break;
+      }
+      case 'open_at':
+        if (typeof value !== 'string' || !resolveOpenAt(value)) {
+          errors.push('open_at must be an ISO 8601 datetime or "HH:MM"');
+        } else {
+          filter.open_at = value;
+        }
+        break;
+      case 'near': {
+        const near = parseNearFilter(value);
+        if (!near) errors.push('near must be { lat, lng, radius_m } with valid coordinates');
+        else filter.near = near;
+        break;
+      }
+      case 'bounds': {
+        const bounds = parseBoundsFilter(value);
+        if (!bounds) errors.push('bounds must be { north, south, east, west } with north >= south');
+        else filter.bounds = bounds;
+        break;
+      }
+      case 'search_terms':
+        if (!Array.isArray(value) || !value.every((term) => typeof term === 'string')) {
+          errors.push('search_terms must be an array of strings');
+        } else {
+          filter.search_terms = value;
+        }
+        break;
+      default:
+        errors.push(`unknown filter field "${key}"`);
+    }
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: filter };
+}
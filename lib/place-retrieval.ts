@@ -0,0 +1,84 @@
+/**
+ * Grounds the chat assistant in the places table (server-only): looks up the places
+ * a question is about, and checks that the places it names really exist.
+ */
+
+import { supabase } from './supabase';
+import { getHalalStatusConfig } from './constants';
+import { retrievePlaceIds } from './search-index';
+import { Place } from './types';
+
+type RetrievedPlace = Pick<
+  Place,
+  | 'id' | 'name' | 'city' | 'address' | 'cuisine_category' | 'cuisine_subtype' | 'halal_status' | 'price_level' | 'tags'
+  | 'certifying_body' | 'certification_expires_on' | 'halal_flags' | 'verification_issue'
+>;
+
+const RETRIEVED_COLUMNS =
+  'id, name, city, address, cuisine_category, cuisine_subtype, halal_status, price_level, tags, certifying_body, certification_expires_on, halal_flags, verification_issue';
+
+/**
+ * The places rows that best match a question, best first
+ */
+export async function retrievePlaces(question: string): Promise<RetrievedPlace[]> {
+  const ids = await retrievePlaceIds(question);
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase.from('places').select(RETRIEVED_COLUMNS).in('id', ids);
+  if (error) throw error;
+
+  const byId = new Map((data as RetrievedPlace[]).map((place) => [place.id, place]));
+  return ids.flatMap((id) => byId.get(id) ?? []);
+}
+
+/**
+ * One numbered line per place for the system prompt, with the halal status spelled out
+ */
+export function formatRetrievedPlaces(places: RetrievedPlace[]): string {
+  return places
+    .map((p, i) => {
+      const cuisine = [p.cuisine_subtype, p.cuisine_category].filter(Boolean).join(', ') || 'Cuisine unknown';
+      let info = `${i + 1}. ${p.name} (${cuisine}`;
+      if (p.city) info += `, ${p.city}`;
+      if (p.price_level) info += `, Price: ${p.price_level}`;
+      info += `, Halal status: ${getHalalStatusConfig(p.halal_status, p.verification_issue).label}`;
+      if (p.certifying_body) {
+        info += `, Certified by: ${p.certifying_body}`;
+        if (p.certification_expires_on) {
+          info += p.verification_issue === 'expired'
+            ? ` (expired ${p.certification_expires_on})`
+            : ` (valid until ${p.certification_expires_on})`;
+        }
+      }
+      if (p.verification_issue === 'stale') info += ', Not verified recently';
+      if (p.halal_flags?.length) info += `, Halal details: ${p.halal_flags.join(', ')}`;
+      if (p.tags?.length) info += `, Tags: ${p.tags.join(', ')}`;
+      if (p.address) info += `, Address: ${p.address}`;
+      info += ')';
+      return info;
+    })
+    .join('\n');
+}
+
+/**
+ * A lookup for resolveToolCalls: of the given names, those with no places row.
+ * Names already known to be in the database are not queried again. If the lookup
+ * fails, no name is reported unknown, so the answer goes out unchecked rather than not at all.
+ */
+export function createUnknownPlaceCheck(knownNames: string[]) {
+  const known = new Set(knownNames);
+
+  return async (names: string[]): Promise<Set<string>> => {
+    const pending = [...new Set(names)].filter((name) => !known.has(name));
+    if (pending.length === 0) return new Set();
+
+    const { data, error } = await supabase.from('places').select('name').in('name', pending);
+    if (error) {
+      console.error('Unknown place check failed, skipping it:', error);
+      return new Set();
+    }
+
+    for (const row of data ?? []) known.add(row.name);
+    return new Set(pending.filter((name) => !known.has(name)));
+  };
+}
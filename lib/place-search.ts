@@ -0,0 +1,274 @@
+/**
+ * Compile a PlaceFilter into a places query (server-only). Shared by search and facets.
+ * Filters that can't run in the database (opening hours, exact radius) are applied
+ * to the rows afterwards.
+ */
+
+import { supabase } from './supabase';
+import { BoundsFilter, NearFilter, PlaceFilter, PlaceWithDistance } from './types';
+import { API_CONFIG, SEARCH_CONFIG } from './constants';
+import { sanitizeInput } from './utils';
+import { getOpeningFilterTime, isOpenAt, parseOpeningHours } from './opening-hours';
+import { boundsAround, distanceMeters, parseBoundsFilter, parseNearFilter } from './geo';
+import { searchPlaceIds } from './search-index';
+import { FACET_COLUMNS, UNVERIFIED_HALAL_STATUS, selectedFacetValues } from './facets';
+
+export type PlaceSearchResult =
+  | { ok: true; places: PlaceWithDistance[] }
+  | { ok: false; status: number; error: string };
+
+interface QueryContext {
+  ids: string[] | null; // Free-text matches, when there is a query
+  openAt: boolean;
+  near: NearFilter | null;
+  bounds: BoundsFilter | null;
+}
+
+// Quoted for PostgREST lists inside `or` conditions
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+// `ilike` pattern for a value inside `or` conditions; quoted so commas and parentheses stay part of it
+function containsPattern(value: string): string {
+  return quote(`%${value}%`);
+}
+
+function sanitizeAll(values: string[] | undefined): string[] {
+  return (values ?? []).map((v) => sanitizeInput(v)).filter((v): v is string => !!v);
+}
+
+function buildQuery<Columns extends '*' | 'id' = '*'>(
+  filter: PlaceFilter,
+  { ids, openAt, near, bounds }: QueryContext,
+  columns = '*' as Columns
+) {
+  // Build query with AND logic for different filter types; stable order for paging
+  let query = supabase.from('places').select(columns).order('id');
+
+  // Cuisine filter (cuisine_subtype OR cuisine_category) - applied as AND
+  const cuisineSubtype = sanitizeInput(filter.cuisine_subtype);
+  const cuisineCategory = sanitizeInput(filter.cuisine_category);
+
+  if (cuisineSubtype || cuisineCategory) {
+    const cuisineConditions: string[] = [];
+    if (cuisineSubtype) {
+      cuisineConditions.push(`cuisine_subtype.ilike.%${cuisineSubtype}%`);
+    }
+    if (cuisineCategory) {
+      cuisineConditions.push(`cuisine_category.ilike.%${cuisineCategory}%`);
+    }
+    query = query.or(cuisineConditions.join(','));
+  }
+
+  // Location/keyword filter (name OR address OR city) - applied as AND with cuisine
+  const keyword = sanitizeInput(filter.keyword);
+  if (keyword) {
+    query = query.or(
+      `name.ilike.%${keyword}%,address.ilike.%${keyword}%,city.ilike.%${keyword}%`
+    );
+  }
+
+  // Free-text query - matched against the search index, then applied as AND
+  if (ids) {
+    query = query.in('id', ids);
+  }
+
+  // Tag filter - applied as AND
+  const tag = sanitizeInput(filter.tag);
+  if (tag) {
+    query = query.contains('tags', [tag]);
+  }
+
+  // Price filter - applied as AND
+  const priceLevel = sanitizeInput(filter.price_level);
+  if (priceLevel) {
+    query = query.ilike('price_level', `%${priceLevel}%`);
+  }
+
+  // Halal status filter - applied as AND, on the status as shown (lowered for expired or stale certifications)
+  const halalStatus = sanitizeInput(filter.halal_status);
+  if (halalStatus) {
+    query = query.ilike('effective_halal_status', `%${halalStatus}%`);
+  }
+
+  // Facets - exact values, any of them within a facet
+  for (const field of ['tags', 'halal_flags'] as const) {
+    const values = selectedFacetValues(filter, field);
+    if (values.length > 0) {
+      query = query.overlaps(FACET_COLUMNS[field], values);
+    }
+  }
+  const statuses = selectedFacetValues(filter, 'halal_statuses');
+  if (statuses.length > 0) {
+    const known = statuses.filter((s) => s !== UNVERIFIED_HALAL_STATUS);
+    if (known.length === statuses.length) {
+      query = query.in('effective_halal_status', known);
+    } else {
+      // "Unverified" stands for places without a status
+      const conditions = ['effective_halal_status.is.null'];
+      if (known.length > 0) conditions.push(`effective_halal_status.in.(${known.map(quote).join(',')})`);
+      query = query.or(conditions.join(','));
+    }
+  }
+  for (const field of ['cuisine_categories', 'cuisine_subtypes', 'price_levels', 'certifying_bodies'] as const) {
+    const values = selectedFacetValues(filter, field);
+    if (values.length > 0) {
+      query = query.in(FACET_COLUMNS[field], values);
+    }
+  }
+
+  // Areas - any of them, matched loosely like every other city filter
+  const cities = sanitizeAll(selectedFacetValues(filter, 'cities'));
+  if (cities.length > 0) {
+    query = query.or(cities.map((city) => `city.ilike.${containsPattern(city)}`).join(','));
+  }
+
+  // Cuisines - any of them, each matched like the single cuisine filter
+  const cuisines = sanitizeAll(filter.cuisines);
+  if (cuisines.length > 0) {
+    query = query.or(
+      cuisines
+        .flatMap((c) => [`cuisine_subtype.ilike.${containsPattern(c)}`, `cuisine_category.ilike.${containsPattern(c)}`])
+        .join(',')
+    );
+  }
+
+  // Exclusions - places without a value are kept, since NOT on NULL would drop them too
+  const exclude = filter.exclude;
+  if (exclude) {
+    for (const c of sanitizeAll(exclude.cuisines)) {
+      query = query
+        .or(`cuisine_subtype.is.null,cuisine_subtype.not.ilike.${containsPattern(c)}`)
+        .or(`cuisine_category.is.null,cuisine_category.not.ilike.${containsPattern(c)}`);
+    }
+    for (const city of sanitizeAll(exclude.cities)) {
+      query = query.or(`city.is.null,city.not.ilike.${containsPattern(city)}`);
+    }
+    if (exclude.tags?.length) {
+      query = query.or(`tags.is.null,tags.not.ov.{${exclude.tags.map(quote).join(',')}}`);
+    }
+    if (exclude.price_levels?.length) {
+      query = query.or(`price_level.is.null,price_level.not.in.(${exclude.price_levels.map(quote).join(',')})`);
+    }
+  }
+
+  // Opening hours filter - evaluated after the query since hours live in a JSON column
+  if (openAt) {
+    query = query.not('opening_hours', 'is', null);
+  }
+
+  // Location filters - bounding boxes in the query, exact radius applied afterwards
+  for (const box of [bounds, near && boundsAround(near)]) {
+    if (!box) continue;
+    query = query
+      .gte('lat', box.south)
+      .lte('lat', box.north)
+      .gte('lng', box.west)
+      .lte('lng', box.east);
+  }
+
+  // Handle search_terms array (legacy support) - loose OR search
+  if (filter.search_terms && Array.isArray(filter.search_terms) && filter.search_terms.length > 0) {
+    const orConditions: string[] = [];
+    for (const term of filter.search_terms) {
+      const t = sanitizeInput(term);
+      if (!t) continue;
+      orConditions.push(
+        `name.ilike.%${t}%`,
+        `address.ilike.%${t}%`,
+        `city.ilike.%${t}%`,
+        `cuisine_subtype.ilike.%${t}%`,
+        `cuisine_category.ilike.%${t}%`
+      );
+    }
+    if (orConditions.length > 0) {
+      query = query.or(orConditions.join(','));
+    }
+  }
+
+  return query;
+}
+
+/**
+ * Narrow free-text matches (best first) to the SEARCH_CONFIG.MAX_MATCHES best that also
+ * pass the rest of the filter, so a local match isn't lost behind better ones elsewhere.
+ */
+async function rankMatchesInScope(
+  filter: PlaceFilter,
+  context: QueryContext,
+  matches: string[]
+): Promise<{ ids: string[] } | { error: string }> {
+  // Few enough to hand to the query as they are
+  if (matches.length <= SEARCH_CONFIG.MAX_MATCHES) return { ids: matches };
+
+  const inScope = new Set<string>();
+  for (let from = 0; ; from += API_CONFIG.DB_PAGE_SIZE) {
+    const { data, error } = await buildQuery(filter, context, 'id').range(from, from + API_CONFIG.DB_PAGE_SIZE - 1);
+    if (error) return { error: error.message };
+
+    for (const row of data ?? []) inScope.add(row.id);
+    if (!data || data.length < API_CONFIG.DB_PAGE_SIZE) break;
+  }
+
+  return { ids: matches.filter((id) => inScope.has(id)).slice(0, SEARCH_CONFIG.MAX_MATCHES) };
+}
+
+/**
+ * Places matching a filter, unranked, up to `maxRows`. `distance_m` is set for `near`
+ * searches, and for `bounds` searches sorted by distance.
+ */
+export async function findPlaces(
+  filter: PlaceFilter,
+  maxRows: number = API_CONFIG.MAX_PLACES_LIMIT
+): Promise<PlaceSearchResult> {
+  const openAt = getOpeningFilterTime(filter);
+  if ((filter.open_now || filter.open_at) && !openAt) {
+    return { ok: false, status: 400, error: 'Invalid open_at time' };
+  }
+
+  const near = parseNearFilter(filter.near);
+  const bounds = parseBoundsFilter(filter.bounds);
+  if ((filter.near && !near) || (filter.bounds && !bounds)) {
+    return { ok: false, status: 400, error: 'Invalid location filter' };
+  }
+
+  const context: QueryContext = { ids: null, openAt: !!openAt, near, bounds };
+  if (filter.query?.trim()) {
+    const scoped = await rankMatchesInScope(filter, context, await searchPlaceIds(filter.query, Infinity));
+    if ('error' in scoped) return { ok: false, status: 500, error: scoped.error };
+    if (scoped.ids.length === 0) return { ok: true, places: [] };
+    context.ids = scoped.ids;
+  }
+
+  let places: PlaceWithDistance[] = [];
+  for (let from = 0; from < maxRows; from += API_CONFIG.DB_PAGE_SIZE) {
+    const to = Math.min(from + API_CONFIG.DB_PAGE_SIZE, maxRows) - 1;
+    const { data, error } = await buildQuery(filter, context).range(from, to);
+    if (error) return { ok: false, status: 500, error: error.message };
+
+    places.push(...(data ?? []));
+    if (!data || data.length < to - from + 1) break;
+  }
+
+  // Places with unknown or unparseable hours are excluded when filtering by time
+  if (openAt) {
+    places = places.filter((place) => {
+      const hours = parseOpeningHours(place.opening_hours);
+      return hours ? isOpenAt(hours, openAt) : false;
+    });
+  }
+
+  // Trim the bounding box down to the circle
+  if (near) {
+    places = places
+      .map((place) => ({ ...place, distance_m: Math.round(distanceMeters(near, { lat: place.lat!, lng: place.lng! })) }))
+      .filter((place) => place.distance_m <= near.radius_m);
+  } else if (bounds && filter.sort === 'distance') {
+    // Without a `near` center, "nearest" means nearest the middle of the viewed area
+    const center = { lat: (bounds.north + bounds.south) / 2, lng: (bounds.east + bounds.west) / 2 };
+    places = places.map((place) => ({ ...place, distance_m: Math.round(distanceMeters(center, { lat: place.lat!, lng: place.lng! })) }));
+  }
+
+  return { ok: true, places };
+}
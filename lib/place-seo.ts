@@ -0,0 +1,90 @@
+/**
+ * Descriptions and schema.org structured data for server-rendered place pages
+ */
+
+import { OpeningHours, Place, Weekday } from './types';
+import { APP_INFO, getHalalStatusConfig } from './constants';
+import { parseOpeningHours } from './opening-hours';
+import { safeHttpUrl } from './utils';
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: 'Monday',
+  tue: 'Tuesday',
+  wed: 'Wednesday',
+  thu: 'Thursday',
+  fri: 'Friday',
+  sat: 'Saturday',
+  sun: 'Sunday',
+};
+
+// Stored price levels ("$".."$$$") shown in yen for schema.org priceRange
+const PRICE_RANGES: Record<string, string> = {
+  '$': '¥',
+  '$$': '¥¥',
+  '$$$': '¥¥¥',
+};
+
+/**
+ * Absolute URL of a place's page
+ */
+export function getPlaceUrl(place: Pick<Place, 'id'>): string {
+  return new URL(`/place/${place.id}`, APP_INFO.SITE_URL).toString();
+}
+
+/**
+ * One-sentence summary used for meta descriptions and OpenGraph
+ */
+export function describePlace(place: Place): string {
+  const status = getHalalStatusConfig(place.halal_status, place.verification_issue);
+  const cuisine = place.cuisine_subtype || place.cuisine_category || 'Restaurant';
+  const location = [place.city, place.country].filter(Boolean).join(', ') || 'Japan';
+  return `${place.name}: ${status.label.toLowerCase()} ${cuisine.toLowerCase()} in ${location}. ${status.description}.`;
+}
+
+function toOpeningHoursSpecification(hours: OpeningHours) {
+  return (Object.keys(WEEKDAY_LABELS) as Weekday[]).flatMap((day) =>
+    (hours.weekly[day] ?? []).map((range) => ({
+      '@type': 'OpeningHoursSpecification',
+      dayOfWeek: `https://schema.org/${WEEKDAY_LABELS[day]}`,
+      opens: range.open,
+      closes: range.close,
+    }))
+  );
+}
+
+/**
+ * schema.org Restaurant JSON-LD for a place
+ */
+export function buildRestaurantJsonLd(place: Place): Record<string, unknown> {
+  const hours = parseOpeningHours(place.opening_hours);
+  const cuisines = [place.cuisine_subtype, place.cuisine_category].filter(Boolean);
+  const websiteUrl = safeHttpUrl(place.website_url);
+  const mapsUrl = safeHttpUrl(place.google_maps_url);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Restaurant',
+    '@id': getPlaceUrl(place),
+    name: place.name,
+    url: getPlaceUrl(place),
+    description: describePlace(place),
+    ...(cuisines.length > 0 && { servesCuisine: cuisines }),
+    ...(place.price_level && { priceRange: PRICE_RANGES[place.price_level] ?? place.price_level }),
+    ...(place.phone && { telephone: place.phone }),
+    ...(websiteUrl && { sameAs: [websiteUrl] }),
+    ...(mapsUrl && { hasMap: mapsUrl }),
+    ...(place.address && {
+      address: {
+        '@type': 'PostalAddress',
+        streetAddress: place.address,
+        ...(place.city && { addressLocality: place.city }),
+        addressCountry: place.country || 'JP',
+      },
+    }),
+    ...(place.lat !== null && place.lng !== null && {
+      geo: { '@type': 'GeoCoordinates', latitude: place.lat, longitude: place.lng },
+    }),
+    ...(hours && { openingHoursSpecification: toOpeningHoursSpecification(hours) }),
+    ...(place.tags?.length && { keywords: place.tags.join(', ') }),
+  };
+}
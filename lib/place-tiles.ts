@@ -0,0 +1,63 @@
+/**
+ * Server-side loading of places by map tile
+ */
+
+import { supabase } from './supabase';
+import { Place } from './types';
+import { API_CONFIG, TILE_CONFIG } from './constants';
+import { Tile, tileBounds } from './tiles';
+import { isUuid } from './utils';
+
+/**
+ * Places inside a tile. South/west edges are inclusive and north/east exclusive,
+ * so a place on a shared edge belongs to exactly one tile.
+ */
+export async function fetchTilePlaces(tile: Tile): Promise<{ places: Place[]; complete: boolean }> {
+  const bounds = tileBounds(tile);
+  const places: Place[] = [];
+
+  // Paged, since a single response stops at DB_PAGE_SIZE rows; one row past the cap marks the tile truncated
+  const maxRows = TILE_CONFIG.MAX_PLACES_PER_TILE + 1;
+  for (let from = 0; from < maxRows; from += API_CONFIG.DB_PAGE_SIZE) {
+    const to = Math.min(from + API_CONFIG.DB_PAGE_SIZE, maxRows) - 1;
+    const { data, error } = await supabase
+      .from('places')
+      .select('*')
+      .gte('lat', bounds.south)
+      .lt('lat', bounds.north)
+      .gte('lng', bounds.west)
+      .lt('lng', bounds.east)
+      .order('id')
+      .range(from, to);
+
+    if (error) throw error;
+    places.push(...(data ?? []));
+    if (!data || data.length < to - from + 1) break;
+  }
+
+  return {
+    places: places.slice(0, TILE_CONFIG.MAX_PLACES_PER_TILE),
+    complete: places.length <= TILE_CONFIG.MAX_PLACES_PER_TILE,
+  };
+}
+
+const ID_LOOKUP_CHUNK = 100;
+
+/**
+ * Places by ID, e.g. favorites or a deep-linked place outside the loaded tiles
+ */
+export async function fetchPlacesByIds(ids: string[]): Promise<Place[]> {
+  const validIds = [...new Set(ids.filter(isUuid))];
+  const places: Place[] = [];
+
+  // Chunked so the `in` list stays within URL length limits
+  for (let i = 0; i < validIds.length; i += ID_LOOKUP_CHUNK) {
+    const { data, error } = await supabase
+      .from('places')
+      .select('*')
+      .in('id', validIds.slice(i, i + ID_LOOKUP_CHUNK));
+    if (error) throw error;
+    places.push(...(data ?? []));
+  }
+  return places;
+}
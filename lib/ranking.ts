@@ -0,0 +1,130 @@
+/**
+ * Ranking of search results. Each place gets a score combining text relevance, halal
+ * confidence, Google rating, review count and distance; `sort` picks the primary order.
+ */
+
+import { PlaceFilter, PlaceRating, PlaceSort } from './types';
+import { RANKING_CONFIG, getHalalStatusConfig } from './constants';
+import { parseSearchQuery, placeSearchFields, scoreSearchFields } from './search-text';
+
+// The fields ranking looks at, so chat context entries can be ranked as well as DB rows
+export interface RankablePlace {
+  name: string;
+  address?: string | null;
+  city?: string | null;
+  cuisine_subtype?: string | null;
+  cuisine_category?: string | null;
+  tags?: string[] | null;
+  halal_status?: string | null;
+  verification_issue?: string | null;
+  distance_m?: number;
+}
+
+export interface RankingOptions<T> {
+  sort?: PlaceSort | null;
+  filter?: PlaceFilter;                            // Source of the terms scored for relevance
+  getRating?: (place: T) => PlaceRating | undefined;
+}
+
+export type Ranked<T> = T & { score: number };
+
+function includes(value: string | null | undefined, term: string): boolean {
+  return !!value && value.toLowerCase().includes(term);
+}
+
+/**
+ * Words the user searched for; exact filters like price or halal status don't count
+ */
+function relevanceTerms(filter: PlaceFilter | undefined): string[] {
+  if (!filter) return [];
+  const terms = [filter.cuisine_subtype, filter.cuisine_category, filter.tag, filter.keyword, ...(filter.cuisines ?? []), ...(filter.search_terms ?? [])];
+  return terms.filter((t): t is string => !!t && !!t.trim()).map((t) => t.trim().toLowerCase());
+}
+
+/**
+ * 0-1: how well the place matches the search terms and free-text query, name matches counting most
+ */
+function relevanceScore(place: RankablePlace, terms: string[], query: string[][]): number {
+  if (terms.length === 0 && query.length === 0) return 0;
+
+  const termTotal = terms.reduce((sum, term) => {
+    if (includes(place.name, term)) return sum + 1;
+    if (includes(place.cuisine_subtype, term) || includes(place.cuisine_category, term)) return sum + 0.7;
+    if (place.tags?.some((tag) => includes(tag, term))) return sum + 0.5;
+    if (includes(place.city, term) || includes(place.address, term)) return sum + 0.4;
+    return sum;
+  }, 0);
+
+  // The query counts as one more term, scored fuzzily
+  if (query.length === 0) return termTotal / terms.length;
+  return (termTotal + scoreSearchFields(query, placeSearchFields(place))) / (terms.length + 1);
+}
+
+/**
+ * Rating on a 1-5 scale with few-review ratings pulled towards the prior
+ * (a 5.0 from 3 reviews shouldn't beat a 4.6 from 800)
+ */
+export function weightedRating(rating: PlaceRating | undefined): number {
+  const { PRIOR_RATING, PRIOR_REVIEWS } = RANKING_CONFIG;
+  if (!rating?.rating) return PRIOR_RATING;
+  const reviews = rating.user_ratings_total ?? 0;
+  return (rating.rating * reviews + PRIOR_RATING * PRIOR_REVIEWS) / (reviews + PRIOR_REVIEWS);
+}
+
+function reviewsScore(rating: PlaceRating | undefined): number {
+  const reviews = rating?.user_ratings_total ?? 0;
+  return Math.min(Math.log1p(reviews) / Math.log1p(RANKING_CONFIG.REVIEWS_SATURATION), 1);
+}
+
+function distanceScore(distance: number | undefined): number {
+  if (distance === undefined) return 0;
+  return 1 / (1 + distance / RANKING_CONFIG.DISTANCE_HALF_SCORE_M);
+}
+
+/**
+ * Combined score; higher is better
+ */
+export function scorePlace(place: RankablePlace, terms: string[], query: string[][], rating: PlaceRating | undefined): number {
+  return (
+    RANKING_CONFIG.RELEVANCE_WEIGHT * relevanceScore(place, terms, query) +
+    getHalalStatusConfig(place.halal_status, place.verification_issue).confidenceBoost +
+    RANKING_CONFIG.RATING_WEIGHT * ((weightedRating(rating) - 1) / 4) +
+    RANKING_CONFIG.REVIEWS_WEIGHT * reviewsScore(rating) +
+    RANKING_CONFIG.DISTANCE_WEIGHT * distanceScore(place.distance_m)
+  );
+}
+
+/**
+ * Sort places by `sort`, breaking ties (and ordering 'relevance') by the combined score
+ */
+export function rankPlaces<T extends RankablePlace>(places: T[], options: RankingOptions<T> = {}): Ranked<T>[] {
+  const terms = relevanceTerms(options.filter);
+  const query = options.filter?.query ? parseSearchQuery(options.filter.query) : [];
+
+  const scored = places.map((place) => {
+    const rating = options.getRating?.(place);
+    return {
+      place: { ...place, score: Math.round(scorePlace(place, terms, query, rating) * 100) / 100 },
+      rating: weightedRating(rating),
+      halal: getHalalStatusConfig(place.halal_status, place.verification_issue).confidenceBoost,
+    };
+  });
+
+  const primary = (a: (typeof scored)[number], b: (typeof scored)[number]): number => {
+    switch (options.sort) {
+      case 'rating':
+        return b.rating - a.rating;
+      case 'halal':
+        return b.halal - a.halal;
+      case 'distance':
+        // Places without a distance go last
+        return (a.place.distance_m ?? Infinity) - (b.place.distance_m ?? Infinity) || 0;
+      default:
+        return 0;
+    }
+  };
+
+  return scored
+    .sort((a, b) => primary(a, b) || b.place.score - a.place.score)
+    .map(({ place }) => place);
+}
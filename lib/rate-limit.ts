@@ -0,0 +1,129 @@
+/**
+ * Fixed-window rate limiting with pluggable counter storage (server-only)
+ */
+
+import { createAdminClient } from './supabase-admin';
+import { RateLimitReason } from './types';
+
+export interface RateLimitStore {
+  /**
+   * Increment the counter for a key, starting a new window if the last one expired
+   */
+  increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+}
+
+export interface RateLimitRule {
+  key: string;
+  limit: number;
+  windowMs: number;
+  reason: RateLimitReason;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  reason?: RateLimitReason;
+  retryAfter: number; // Seconds until the most restrictive exceeded window resets
+  remaining: number;  // Lowest remaining count across all rules
+}
+
+/**
+ * In-memory store for local development. Counters live per server process,
+ * so use a shared store when running more than one instance.
+ */
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    async increment(key, windowMs) {
+      const now = Date.now();
+      let entry = entries.get(key);
+
+      if (!entry || entry.resetAt <= now) {
+        entry = { count: 0, resetAt: now + windowMs };
+        entries.set(key, entry);
+      }
+      entry.count++;
+
+      // Drop expired counters now and then so the map doesn't grow forever
+      if (entries.size > 10000) {
+        for (const [k, v] of entries) {
+          if (v.resetAt <= now) entries.delete(k);
+        }
+      }
+
+      return { count: entry.count, resetAt: entry.resetAt };
+    },
+  };
+}
+
+/**
+ * Supabase-backed store using the increment_rate_limit function
+ */
+export function createSupabaseStore(): RateLimitStore {
+  const supabase = createAdminClient();
+
+  return {
+    async increment(key, windowMs) {
+      const { data, error } = await supabase.rpc('increment_rate_limit', {
+        p_key: key,
+        p_window_seconds: Math.ceil(windowMs / 1000),
+      });
+      if (error || !data?.[0]) {
+        throw new Error(`Rate limit store error: ${error?.message || 'no result'}`);
+      }
+      return { count: data[0].count, resetAt: new Date(data[0].reset_at).getTime() };
+    },
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Get the store selected by RATE_LIMIT_STORE ("memory" by default)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = process.env.RATE_LIMIT_STORE === 'supabase' ? createSupabaseStore() : createMemoryStore();
+  }
+  return store;
+}
+
+/**
+ * Count a request against every rule. Denied if any rule is over its limit.
+ */
+export async function checkRateLimits(
+  rules: RateLimitRule[],
+  limitStore: RateLimitStore = getRateLimitStore()
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const counts = await Promise.all(rules.map((rule) => limitStore.increment(rule.key, rule.windowMs)));
+
+  let result: RateLimitResult = { allowed: true, retryAfter: 0, remaining: Infinity };
+
+  rules.forEach((rule, i) => {
+    const { count, resetAt } = counts[i];
+    result.remaining = Math.min(result.remaining, Math.max(0, rule.limit - count));
+
+    if (count > rule.limit) {
+      const retryAfter = Math.max(1, Math.ceil((resetAt - now) / 1000));
+      if (result.allowed || retryAfter > result.retryAfter) {
+        result = { ...result, allowed: false, reason: rule.reason, retryAfter };
+      }
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Client IP as seen by the hosting platform. Only headers set by the platform are trusted:
+ * the leftmost X-Forwarded-For entry is whatever the client sent, so the rightmost entry
+ * (added by the proxy in front of us) is used instead.
+ */
+export function getClientIp(req: Request): string {
+  const platformIp = req.headers.get('x-vercel-forwarded-for') || req.headers.get('x-real-ip');
+  if (platformIp) return platformIp.trim();
+
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',').map((ip) => ip.trim()).filter(Boolean);
+  return forwarded?.at(-1) || 'unknown';
+}
@@ -0,0 +1,270 @@
+/**
+ * Google ratings with a persistent server-side cache (server-only).
+ * Cached ratings are served until their TTL runs out; concurrent requests for the
+ * same place share one Places API call, and 429s back off exponentially.
+ */
+
+import { createAdminClient } from './supabase-admin';
+import { supabase } from './supabase';
+import { PlaceRating } from './types';
+import { RATINGS_CONFIG } from './constants';
+
+export interface CachedRating extends PlaceRating {
+  fetchedAt: number; // Epoch ms
+}
+
+export interface RatingsStore {
+  getMany(placeIds: string[]): Promise<Map<string, CachedRating>>;
+  setMany(ratings: CachedRating[]): Promise<void>;
+}
+
+/**
+ * In-memory store for local development. Entries live per server process.
+ */
+export function createMemoryRatingsStore(): RatingsStore {
+  const entries = new Map<string, CachedRating>();
+
+  return {
+    async getMany(placeIds) {
+      const found = new Map<string, CachedRating>();
+      for (const id of placeIds) {
+        const entry = entries.get(id);
+        if (entry) found.set(id, entry);
+      }
+      return found;
+    },
+    async setMany(ratings) {
+      for (const rating of ratings) entries.set(rating.place_id, rating);
+    },
+  };
+}
+
+const STORE_READ_CHUNK = 200;
+
+/**
+ * Supabase-backed store using the place_ratings table
+ */
+export function createSupabaseRatingsStore(): RatingsStore {
+  const supabase = createAdminClient();
+
+  return {
+    async getMany(placeIds) {
+      const found = new Map<string, CachedRating>();
+
+      // Chunked so the `in` list stays within URL length limits
+      for (let i = 0; i < placeIds.length; i += STORE_READ_CHUNK) {
+        const { data, error } = await supabase
+          .from('place_ratings')
+          .select('*')
+          .in('place_id', placeIds.slice(i, i + STORE_READ_CHUNK));
+        if (error) throw new Error(`Ratings store error: ${error.message}`);
+
+        for (const row of data ?? []) {
+          found.set(row.place_id, {
+            place_id: row.place_id,
+            rating: row.rating ?? undefined,
+            user_ratings_total: row.user_ratings_total ?? undefined,
+            fetchedAt: new Date(row.fetched_at).getTime(),
+          });
+        }
+      }
+      return found;
+    },
+    async setMany(ratings) {
+      if (ratings.length === 0) return;
+      const { error } = await supabase.from('place_ratings').upsert(
+        ratings.map((r) => ({
+          place_id: r.place_id,
+          rating: r.rating ?? null,
+          user_ratings_total: r.user_ratings_total ?? null,
+          fetched_at: new Date(r.fetchedAt).toISOString(),
+        }))
+      );
+      if (error) throw new Error(`Ratings store error: ${error.message}`);
+    },
+  };
+}
+
+let store: RatingsStore | null = null;
+
+/**
+ * Get the store selected by RATINGS_STORE ("memory" by default)
+ */
+export function getRatingsStore(): RatingsStore {
+  if (!store) {
+    store = process.env.RATINGS_STORE === 'supabase' ? createSupabaseRatingsStore() : createMemoryRatingsStore();
+  }
+  return store;
+}
+
+function isFresh(entry: CachedRating, now: number): boolean {
+  const ttl = entry.rating === undefined ? RATINGS_CONFIG.MISSING_TTL_MS : RATINGS_CONFIG.TTL_MS;
+  return now - entry.fetchedAt < ttl;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Shared by every request in this process so one 429 slows all callers down
+let cooldownUntil = 0;
+const inFlight = new Map<string, Promise<CachedRating | null>>();
+
+/**
+ * Fetch one rating from Places API (New), backing off on 429.
+ * Returns null when Google could not be reached (nothing should be cached then).
+ */
+async function fetchFromGoogle(placeId: string, apiKey: string): Promise<CachedRating | null> {
+  for (let attempt = 0; attempt <= RATINGS_CONFIG.MAX_RETRIES; attempt++) {
+    const wait = cooldownUntil - Date.now();
+    if (wait > 0) await sleep(wait);
+
+    try {
+      const response = await fetch(`https://places.googleapis.com/v1/places/${encodeURIComponent(placeId)}`, {
+        headers: {
+          'X-Goog-Api-Key': apiKey,
+          'X-Goog-FieldMask': 'rating,userRatingCount',
+        },
+      });
+
+      if (response.status === 429) {
+        const retryAfter = Number(response.headers.get('Retry-After')) * 1000;
+        const backoff = Math.max(retryAfter || 0, RATINGS_CONFIG.BACKOFF_BASE_MS * 2 ** attempt);
+        cooldownUntil = Math.max(cooldownUntil, Date.now() + backoff);
+        continue;
+      }
+
+      // Unknown or removed place: cache the miss so we don't ask again until the TTL runs out
+      if (response.status === 404) {
+        return { place_id: placeId, fetchedAt: Date.now() };
+      }
+
+      if (!response.ok) {
+        console.error(`Failed to fetch rating for ${placeId}:`, response.status);
+        return null;
+      }
+
+      const data = await response.json();
+      return {
+        place_id: placeId,
+        rating: data.rating,
+        user_ratings_total: data.userRatingCount,
+        fetchedAt: Date.now(),
+      };
+    } catch (e) {
+      console.error(`Error fetching rating for ${placeId}:`, e);
+      return null;
+    }
+  }
+
+  console.error(`Giving up on rating for ${placeId} after repeated 429s`);
+  return null;
+}
+
+/**
+ * Fetch a rating, sharing the call with any concurrent request for the same place
+ */
+function fetchCoalesced(placeId: string, apiKey: string): Promise<CachedRating | null> {
+  let request = inFlight.get(placeId);
+  if (!request) {
+    request = fetchFromGoogle(placeId, apiKey).finally(() => inFlight.delete(placeId));
+    inFlight.set(placeId, request);
+  }
+  return request;
+}
+
+/**
+ * Run tasks with at most `limit` in flight
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Of the given Google place IDs, those that belong to a places row.
+ * Nothing else is worth a Places API call.
+ */
+export async function filterKnownPlaceIds(placeIds: string[]): Promise<string[]> {
+  const known = new Set<string>();
+
+  for (let i = 0; i < placeIds.length; i += STORE_READ_CHUNK) {
+    const { data, error } = await supabase
+      .from('places')
+      .select('place_id')
+      .in('place_id', placeIds.slice(i, i + STORE_READ_CHUNK));
+    if (error) throw new Error(`Place lookup failed: ${error.message}`);
+
+    for (const row of data ?? []) {
+      if (row.place_id) known.add(row.place_id);
+    }
+  }
+  return placeIds.filter((id) => known.has(id));
+}
+
+/**
+ * Whatever the cache holds for these places, stale or not, without calling Google.
+ * For ranking, where a missing rating is fine but waiting on Google is not.
+ */
+export async function getCachedRatings(
+  placeIds: string[],
+  ratingsStore: RatingsStore = getRatingsStore()
+): Promise<Map<string, PlaceRating>> {
+  try {
+    return await ratingsStore.getMany(placeIds);
+  } catch (e) {
+    console.error('Ratings cache read failed:', e);
+    return new Map();
+  }
+}
+
+/**
+ * Ratings for Google place IDs: fresh cache entries first, the rest from Google.
+ * If Google can't be reached, a stale cached rating is better than none.
+ */
+export async function getRatings(
+  placeIds: string[],
+  apiKey: string,
+  ratingsStore: RatingsStore = getRatingsStore()
+): Promise<PlaceRating[]> {
+  const now = Date.now();
+
+  let cached = new Map<string, CachedRating>();
+  try {
+    cached = await ratingsStore.getMany(placeIds);
+  } catch (e) {
+    console.error('Ratings cache read failed:', e);
+  }
+
+  const stale = placeIds.filter((id) => {
+    const entry = cached.get(id);
+    return !entry || !isFresh(entry, now);
+  });
+
+  const fetched = (
+    await mapWithConcurrency(stale, RATINGS_CONFIG.FETCH_CONCURRENCY, (id) => fetchCoalesced(id, apiKey))
+  ).filter((rating): rating is CachedRating => rating !== null);
+
+  try {
+    await ratingsStore.setMany(fetched);
+  } catch (e) {
+    console.error('Ratings cache write failed:', e);
+  }
+
+  for (const rating of fetched) cached.set(rating.place_id, rating);
+
+  return placeIds.map((id) => {
+    const entry = cached.get(id);
+    return entry
+      ? { place_id: id, rating: entry.rating, user_ratings_total: entry.user_ratings_total }
+      : { place_id: id };
+  });
+}
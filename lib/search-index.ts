@@ -0,0 +1,188 @@
+/**
+ * In-memory free-text index over the places table (server-only), plus the distinct
+ * areas and cuisines for autocomplete. Built on first use and rebuilt after
+ * SEARCH_CONFIG.INDEX_TTL_MS; matching itself lives in lib/search-text.ts.
+ */
+
+import { supabase } from './supabase';
+import { SEARCH_CONFIG } from './constants';
+import { AutocompleteSuggestion } from './types';
+import {
+  SearchField,
+  parseQuestion,
+  parseSearchQuery,
+  placeSearchFields,
+  scoreSearchFields,
+  scoreSearchFieldsLoose,
+  tokenize,
+} from './search-text';
+
+interface IndexEntry {
+  id: string;
+  name: string;
+  city: string | null;
+  cuisine_subtype: string | null;
+  halal_status: string | null;
+  verification_issue: string | null; // Lowers the status shown, see getHalalStatusConfig
+  fields: SearchField[]; // From placeSearchFields(); the name comes first
+}
+
+// A distinct city or cuisine subtype and how many places have it
+interface TermEntry {
+  label: string;
+  count: number;
+  field: SearchField;
+}
+
+interface SearchIndex {
+  builtAt: number;
+  entries: IndexEntry[];
+  areas: TermEntry[];
+  cuisines: TermEntry[];
+}
+
+function countTerms(values: (string | null)[]): TermEntry[] {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    const label = value?.trim();
+    if (label) counts.set(label, (counts.get(label) ?? 0) + 1);
+  }
+  return [...counts].map(([label, count]) => ({ label, count, field: { tokens: tokenize(label), weight: 1 } }));
+}
+
+let index: SearchIndex | null = null;
+let building: Promise<SearchIndex> | null = null;
+
+async function buildIndex(): Promise<SearchIndex> {
+  const entries: IndexEntry[] = [];
+
+  // Paged, since the API caps rows per request
+  for (let from = 0; ; from += SEARCH_CONFIG.INDEX_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('places')
+      .select('id, name, address, city, cuisine_subtype, cuisine_category, tags, halal_status, verification_issue')
+      .order('id')
+      .range(from, from + SEARCH_CONFIG.INDEX_PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Search index error: ${error.message}`);
+    for (const place of data ?? []) {
+      entries.push({
+        id: place.id,
+        name: place.name,
+        city: place.city,
+        cuisine_subtype: place.cuisine_subtype,
+        halal_status: place.halal_status,
+        verification_issue: place.verification_issue,
+        fields: placeSearchFields(place),
+      });
+    }
+    if (!data || data.length < SEARCH_CONFIG.INDEX_PAGE_SIZE) break;
+  }
+
+  return {
+    builtAt: Date.now(),
+    entries,
+    areas: countTerms(entries.map((e) => e.city)),
+    cuisines: countTerms(entries.map((e) => e.cuisine_subtype)),
+  };
+}
+
+/**
+ * The current index; concurrent callers share one rebuild, and a stale index
+ * keeps serving if a rebuild fails
+ */
+async function getIndex(): Promise<SearchIndex> {
+  if (index && Date.now() - index.builtAt < SEARCH_CONFIG.INDEX_TTL_MS) return index;
+
+  if (!building) {
+    building = buildIndex()
+      .then((built) => (index = built))
+      .finally(() => (building = null));
+  }
+
+  try {
+    return await building;
+  } catch (e) {
+    if (index) {
+      console.error('Search index rebuild failed, using the previous one:', e);
+      return index;
+    }
+    throw e;
+  }
+}
+
+/**
+ * IDs of the places matching a free-text query, best first. Pass `Infinity` for every
+ * match, e.g. to rank within the places another filter allows.
+ */
+export async function searchPlaceIds(query: string, limit: number = SEARCH_CONFIG.MAX_MATCHES): Promise<string[]> {
+  const parsed = parseSearchQuery(query.slice(0, SEARCH_CONFIG.MAX_QUERY_LENGTH));
+  if (parsed.length === 0) return [];
+
+  const { entries } = await getIndex();
+  return entries
+    .map((entry) => ({ id: entry.id, score: scoreSearchFields(parsed, entry.fields) }))
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((match) => match.id);
+}
+
+/**
+ * IDs of the places a chat question is about, best first. Matches on some of the
+ * question's words are enough, down to SEARCH_CONFIG.RETRIEVAL_MIN_SCORE.
+ */
+export async function retrievePlaceIds(question: string, limit: number = SEARCH_CONFIG.RETRIEVAL_LIMIT): Promise<string[]> {
+  const parsed = parseQuestion(question.slice(0, SEARCH_CONFIG.MAX_QUESTION_LENGTH));
+  if (parsed.length === 0) return [];
+
+  const { entries } = await getIndex();
+  return entries
+    .map((entry) => ({ id: entry.id, score: scoreSearchFieldsLoose(parsed, entry.fields) }))
+    .filter((match) => match.score >= SEARCH_CONFIG.RETRIEVAL_MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((match) => match.id);
+}
+
+function matchTerms(terms: TermEntry[], query: string[][], limit: number): TermEntry[] {
+  return terms
+    .map((term) => ({ term, score: scoreSearchFields(query, [term.field]) }))
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score || b.term.count - a.term.count)
+    .slice(0, limit)
+    .map((match) => match.term);
+}
+
+/**
+ * Search-as-you-type suggestions: places by name, then areas and cuisines
+ */
+export async function autocomplete(query: string): Promise<AutocompleteSuggestion[]> {
+  const parsed = parseSearchQuery(query.slice(0, SEARCH_CONFIG.MAX_QUERY_LENGTH));
+  if (parsed.length === 0) return [];
+
+  const { entries, areas, cuisines } = await getIndex();
+
+  const places = entries
+    .map((entry) => ({ entry, score: scoreSearchFields(parsed, [entry.fields[0]]) }))
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.entry.name.length - b.entry.name.length)
+    .slice(0, SEARCH_CONFIG.AUTOCOMPLETE_PLACES);
+
+  return [
+    ...places.map(({ entry }): AutocompleteSuggestion => ({
+      type: 'place',
+      id: entry.id,
+      label: entry.name,
+      city: entry.city,
+      halal_status: entry.halal_status,
+      verification_issue: entry.verification_issue,
+    })),
+    ...matchTerms(areas, parsed, SEARCH_CONFIG.AUTOCOMPLETE_AREAS).map(
+      ({ label, count }): AutocompleteSuggestion => ({ type: 'area', label, count })
+    ),
+    ...matchTerms(cuisines, parsed, SEARCH_CONFIG.AUTOCOMPLETE_CUISINES).map(
+      ({ label, count }): AutocompleteSuggestion => ({ type: 'cuisine', label, count })
+    ),
+  ];
+}
@@ -0,0 +1,247 @@
+/**
+ * Text normalization and fuzzy matching for free-text place search (client and server).
+ * Kana is romanized and long vowels folded so "らーめん", "ラーメン" and "Ramen" compare
+ * equal; synonyms and small typos ("yakinku") still match.
+ */
+
+// Hepburn romanization of hiragana (katakana is shifted to hiragana first)
+const KANA_DIGRAPHS: Record<string, string> = {
+  きゃ: 'kya', きゅ: 'kyu', きょ: 'kyo', しゃ: 'sha', しゅ: 'shu', しょ: 'sho',
+  ちゃ: 'cha', ちゅ: 'chu', ちょ: 'cho', にゃ: 'nya', にゅ: 'nyu', にょ: 'nyo',
+  ひゃ: 'hya', ひゅ: 'hyu', ひょ: 'hyo', みゃ: 'mya', みゅ: 'myu', みょ: 'myo',
+  りゃ: 'rya', りゅ: 'ryu', りょ: 'ryo', ぎゃ: 'gya', ぎゅ: 'gyu', ぎょ: 'gyo',
+  じゃ: 'ja', じゅ: 'ju', じょ: 'jo', びゃ: 'bya', びゅ: 'byu', びょ: 'byo',
+  ぴゃ: 'pya', ぴゅ: 'pyu', ぴょ: 'pyo', ふぁ: 'fa', ふぃ: 'fi', ふぇ: 'fe', ふぉ: 'fo',
+  てぃ: 'ti', でぃ: 'di', しぇ: 'she', ちぇ: 'che', じぇ: 'je', うぃ: 'wi', うぇ: 'we',
+};
+
+const KANA: Record<string, string> = {
+  あ: 'a', い: 'i', う: 'u', え: 'e', お: 'o',
+  か: 'ka', き: 'ki', く: 'ku', け: 'ke', こ: 'ko',
+  さ: 'sa', し: 'shi', す: 'su', せ: 'se', そ: 'so',
+  た: 'ta', ち: 'chi', つ: 'tsu', て: 'te', と: 'to',
+  な: 'na', に: 'ni', ぬ: 'nu', ね: 'ne', の: 'no',
+  は: 'ha', ひ: 'hi', ふ: 'fu', へ: 'he', ほ: 'ho',
+  ま: 'ma', み: 'mi', む: 'mu', め: 'me', も: 'mo',
+  や: 'ya', ゆ: 'yu', よ: 'yo',
+  ら: 'ra', り: 'ri', る: 'ru', れ: 're', ろ: 'ro',
+  わ: 'wa', を: 'o', ん: 'n',
+  が: 'ga', ぎ: 'gi', ぐ: 'gu', げ: 'ge', ご: 'go',
+  ざ: 'za', じ: 'ji', ず: 'zu', ぜ: 'ze', ぞ: 'zo',
+  だ: 'da', ぢ: 'ji', づ: 'zu', で: 'de', ど: 'do',
+  ば: 'ba', び: 'bi', ぶ: 'bu', べ: 'be', ぼ: 'bo',
+  ぱ: 'pa', ぴ: 'pi', ぷ: 'pu', ぺ: 'pe', ぽ: 'po',
+  ゔ: 'vu', ぁ: 'a', ぃ: 'i', ぅ: 'u', ぇ: 'e', ぉ: 'o', ゃ: 'ya', ゅ: 'yu', ょ: 'yo',
+};
+
+// Alternative spellings searched along with the typed word; keys and values are normalized on load
+const SYNONYMS: Record<string, string[]> = {
+  bbq: ['yakiniku'],
+  barbecue: ['yakiniku'],
+  grill: ['yakiniku'],
+  焼肉: ['yakiniku'],
+  寿司: ['sushi'],
+  鮨: ['sushi'],
+  拉麺: ['ramen'],
+  noodle: ['ramen', 'udon', 'soba'],
+  noodles: ['ramen', 'udon', 'soba'],
+  カレー: ['curry'],
+  curry: ['カレー'],
+  kebab: ['doner'],
+  doner: ['kebab'],
+  ハラール: ['halal'],
+  halal: ['ハラール'],
+  インド: ['indian'],
+  indian: ['インド'],
+  トルコ: ['turkish'],
+  turkish: ['トルコ'],
+  カフェ: ['cafe'],
+  coffee: ['cafe'],
+};
+
+function hiraganaToRomaji(text: string): string {
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const pair = KANA_DIGRAPHS[text.slice(i, i + 2)];
+
+    if (char === 'っ') {
+      // Small tsu doubles the next consonant
+      const next = KANA_DIGRAPHS[text.slice(i + 1, i + 3)] ?? KANA[text[i + 1]];
+      if (next) out += next[0] === 'c' ? 't' : next[0];
+    } else if (pair) {
+      out += pair;
+      i++;
+    } else if (char === 'ー') {
+      // Long vowel mark: dropped, like the doubled vowels folded below
+    } else {
+      out += KANA[char] ?? char;
+    }
+  }
+  return out;
+}
+
+/**
+ * Lowercased, romanized, accent-free text with long vowels folded ("Tōkyō", "とうきょう" → "tokyo").
+ * Kanji runs are kept and split from surrounding text so they can be matched on their own.
+ */
+export function normalizeSearchText(text: string): string {
+  const folded = text
+    .normalize('NFKC')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    // Katakana → hiragana
+    .replace(/[\u30a1-\u30f6]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0x60));
+
+  return hiraganaToRomaji(folded)
+    .replace(/(\p{Script=Han}+)/gu, ' $1 ')
+    .replace(/([aeiou])\1+/g, '$1')
+    .replace(/ou/g, 'o')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+export function tokenize(text: string | null | undefined): string[] {
+  if (!text) return [];
+  const normalized = normalizeSearchText(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+const NORMALIZED_SYNONYMS = new Map<string, string[]>(
+  Object.entries(SYNONYMS).map(([word, alternatives]) => [
+    normalizeSearchText(word),
+    alternatives.map(normalizeSearchText),
+  ])
+);
+
+/**
+ * Words of a query, each with its synonyms. A place matches a word if it matches any of them.
+ */
+export function parseSearchQuery(query: string): string[][] {
+  return tokenize(query).map((token) => [token, ...(NORMALIZED_SYNONYMS.get(token) ?? [])]);
+}
+
+// Words of a chat question that don't help find a place; normalized on load
+const QUESTION_STOPWORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'it', 'its', 'this', 'that', 'there', 'any', 'some', 'of', 'in', 'at',
+  'on', 'to', 'for', 'near', 'around', 'with', 'and', 'or', 'do', 'does', 'can', 'i', 'me', 'my', 'we', 'you',
+  'what', 'which', 'where', 'how', 'who', 'tell', 'about', 'more', 'find', 'show', 'please', 'good', 'best',
+  'first', 'second', 'third', 'one', 'place', 'places', 'restaurant', 'restaurants', 'food', 'eat', 'serve',
+  'serves', 'halal', 'muslim', 'friendly', 'certified', 'really', 'still', 'open',
+].flatMap(tokenize));
+
+/**
+ * Like parseSearchQuery for a free-form question, without the filler words
+ */
+export function parseQuestion(question: string): string[][] {
+  return parseSearchQuery(question).filter(([token]) => !QUESTION_STOPWORDS.has(token));
+}
+
+const isHan = (token: string) => /\p{Script=Han}/u.test(token);
+
+// Typos tolerated: none for short words, one from 5 letters, two from 8
+function maxTypos(length: number): number {
+  return length >= 8 ? 2 : length >= 5 ? 1 : 0;
+}
+
+/**
+ * Edit distance counting adjacent swaps as one edit, or Infinity once above `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return Infinity;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return Infinity;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length] <= max ? prev[b.length] : Infinity;
+}
+
+/**
+ * 0-1: how well one query word matches one word of the place
+ */
+function matchToken(query: string, token: string): number {
+  if (token === query) return 1;
+  if (isHan(query)) return token.includes(query) ? 0.9 : 0;
+  if (token.startsWith(query) && query.length >= 2) return 0.9; // Typing in progress
+  if (query.length >= 3 && token.includes(query)) return 0.7;   // Part of a compound, e.g. "tonkotsuramen"
+  return editDistance(query, token, maxTypos(query.length)) !== Infinity ? 0.6 : 0;
+}
+
+export interface SearchField {
+  tokens: string[];
+  weight: number; // 0-1, how much a match in this field counts
+}
+
+// 0-1: the best match of one query word (or its synonyms) in any field
+function bestFieldMatch(alternatives: string[], fields: SearchField[]): number {
+  let best = 0;
+  for (const field of fields) {
+    for (const token of field.tokens) {
+      for (const word of alternatives) {
+        best = Math.max(best, matchToken(word, token) * field.weight);
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * 0-1: how well a place's fields match a parsed query; 0 unless every query word matches
+ */
+export function scoreSearchFields(query: string[][], fields: SearchField[]): number {
+  if (query.length === 0) return 0;
+
+  let total = 0;
+  for (const alternatives of query) {
+    const best = bestFieldMatch(alternatives, fields);
+    if (best === 0) return 0;
+    total += best;
+  }
+  return total / query.length;
+}
+
+/**
+ * 0-1: like scoreSearchFields, but words that match nothing only lower the score.
+ * For questions, where not every word names the place.
+ */
+export function scoreSearchFieldsLoose(query: string[][], fields: SearchField[]): number {
+  if (query.length === 0) return 0;
+  return query.reduce((total, alternatives) => total + bestFieldMatch(alternatives, fields), 0) / query.length;
+}
+
+/**
+ * The fields of a place that free-text search looks at
+ */
+export function placeSearchFields(place: {
+  name: string;
+  address?: string | null;
+  city?: string | null;
+  cuisine_subtype?: string | null;
+  cuisine_category?: string | null;
+  tags?: string[] | null;
+}): SearchField[] {
+  return [
+    { tokens: tokenize(place.name), weight: 1 },
+    { tokens: [...tokenize(place.cuisine_subtype), ...tokenize(place.cuisine_category)], weight: 0.9 },
+    { tokens: (place.tags ?? []).flatMap(tokenize), weight: 0.7 },
+    { tokens: tokenize(place.city), weight: 0.7 },
+    { tokens: tokenize(place.address), weight: 0.5 },
+  ];
+}
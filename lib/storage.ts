@@ -2,7 +2,9 @@
  * Safe localStorage utilities with SSR support
  */
 
-import { STORAGE_KEYS, GUEST_CONFIG } from './constants';
+import { STORAGE_KEYS, GUEST_CONFIG, CHAT_HISTORY_CONFIG } from './constants';
+import { ChatConversation } from './types';
+import { Locale, isLocale } from './i18n';
 
 /**
  * Check if we're in a browser environment
@@ -58,17 +60,73 @@ export const favorites = {
     if (!current.includes(placeId)) {
       setStorageItem(STORAGE_KEYS.FAVORITES, [...current, placeId]);
     }
+    this.clearPendingRemoval(placeId);
   },
 
   /**
-   * Remove a place from favorites
+   * Remove a place from favorites. With `trackRemoval` (the local copy belongs to the
+   * signed-in account) the removal is remembered until it has been synced to the account.
    */
-  remove(placeId: string): void {
+  remove(placeId: string, trackRemoval: boolean = false): void {
     const current = this.getAll();
     setStorageItem(
       STORAGE_KEYS.FAVORITES,
       current.filter((id) => id !== placeId)
     );
+    if (!trackRemoval) return;
+    const pending = this.getPendingRemovals();
+    if (!pending.includes(placeId)) {
+      setStorageItem(STORAGE_KEYS.FAVORITES_PENDING_REMOVALS, [...pending, placeId]);
+    }
+  },
+
+  /**
+   * Replace the local copy with the list synced from an account
+   */
+  replaceAll(placeIds: string[], ownerId: string): void {
+    setStorageItem(STORAGE_KEYS.FAVORITES, placeIds);
+    setStorageItem(STORAGE_KEYS.FAVORITES_OWNER, ownerId);
+  },
+
+  /**
+   * The account the local copy belongs to, or null for a guest's own favorites
+   */
+  getOwner(): string | null {
+    return getStorageItem<string | null>(STORAGE_KEYS.FAVORITES_OWNER, null);
+  },
+
+  /**
+   * Forget the local copy and its pending removals (e.g. when its account signs out)
+   */
+  clear(): void {
+    if (!isBrowser) return;
+    try {
+      localStorage.removeItem(STORAGE_KEYS.FAVORITES);
+      localStorage.removeItem(STORAGE_KEYS.FAVORITES_PENDING_REMOVALS);
+      localStorage.removeItem(STORAGE_KEYS.FAVORITES_OWNER);
+    } catch {
+      // Ignore errors
+    }
+  },
+
+  /**
+   * Place IDs removed locally that the account doesn't know about yet
+   */
+  getPendingRemovals(): string[] {
+    return getStorageItem<string[]>(STORAGE_KEYS.FAVORITES_PENDING_REMOVALS, []);
+  },
+
+  /**
+   * Forget a pending removal once it has been synced (or the place was re-added)
+   */
+  clearPendingRemoval(placeId: string): void {
+    const pending = this.getPendingRemovals();
+    if (pending.includes(placeId)) {
+      setStorageItem(
+        STORAGE_KEYS.FAVORITES_PENDING_REMOVALS,
+        pending.filter((id) => id !== placeId)
+      );
+    }
   },
 
   /**
@@ -117,6 +175,16 @@ export const guestQueries = {
     setStorageItem(STORAGE_KEYS.GUEST_QUERIES_USED, current + 1);
   },
 
+  /**
+   * Align the local count with the quota the server reports as remaining
+   */
+  syncRemaining(remaining: number): void {
+    setStorageItem(
+      STORAGE_KEYS.GUEST_QUERIES_USED,
+      Math.max(0, GUEST_CONFIG.MAX_FREE_QUERIES - remaining)
+    );
+  },
+
   /**
    * Reset guest query count (for testing or admin purposes)
    */
@@ -156,3 +224,66 @@ export const mapPosition = {
     }
   },
 };
+
+// Saved chats of guests; signed-in users keep theirs in their account
+export const chatConversations = {
+  /**
+   * All saved conversations, most recently active first
+   */
+  getAll(): ChatConversation[] {
+    return getStorageItem<ChatConversation[]>(STORAGE_KEYS.CHAT_CONVERSATIONS, []);
+  },
+
+  get(id: string): ChatConversation | null {
+    return this.getAll().find((c) => c.id === id) ?? null;
+  },
+
+  /**
+   * Insert or replace a conversation and move it to the top.
+   * The oldest are dropped beyond CHAT_HISTORY_CONFIG.MAX_GUEST_CONVERSATIONS.
+   */
+  save(conversation: ChatConversation): void {
+    const rest = this.getAll().filter((c) => c.id !== conversation.id);
+    setStorageItem(
+      STORAGE_KEYS.CHAT_CONVERSATIONS,
+      [conversation, ...rest].slice(0, CHAT_HISTORY_CONFIG.MAX_GUEST_CONVERSATIONS)
+    );
+  },
+
+  rename(id: string, title: string): void {
+    setStorageItem(
+      STORAGE_KEYS.CHAT_CONVERSATIONS,
+      this.getAll().map((c) => (c.id === id ? { ...c, title } : c))
+    );
+  },
+
+  remove(id: string): void {
+    setStorageItem(
+      STORAGE_KEYS.CHAT_CONVERSATIONS,
+      this.getAll().filter((c) => c.id !== id)
+    );
+  },
+
+  /**
+   * The conversation shown in the chat panel, restored after a reload
+   */
+  getActiveId(): string | null {
+    return getStorageItem<string | null>(STORAGE_KEYS.ACTIVE_CONVERSATION, null);
+  },
+
+  setActiveId(id: string | null): void {
+    setStorageItem(STORAGE_KEYS.ACTIVE_CONVERSATION, id);
+  },
+};
+
+// Interface language chosen by the user; unset means "follow the browser"
+export const localePreference = {
+  get(): Locale | null {
+    const value = getStorageItem<unknown>(STORAGE_KEYS.LOCALE, null);
+    return isLocale(value) ? value : null;
+  },
+
+  set(locale: Locale): void {
+    setStorageItem(STORAGE_KEYS.LOCALE, locale);
+  },
+};
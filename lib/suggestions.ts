@@ -0,0 +1,101 @@
+/**
+ * Helpers for turning moderated place suggestions into places rows
+ */
+
+import { LatLng, Place, PlaceInsert, PlaceSuggestion, PlaceUpdate } from './types';
+import { safeHttpUrl } from './utils';
+
+// Broad categories offered by the suggest form; anything else is treated as a subtype
+const CUISINE_CATEGORIES = ['Japanese', 'Indian', 'Middle Eastern', 'Turkish', 'Indonesian', 'Malaysian'];
+
+// Japanese dishes offered by the suggest form
+const JAPANESE_SUBTYPES = ['Ramen', 'Sushi', 'Yakiniku', 'Curry'];
+
+// Form values that carry no real information
+const UNKNOWN_VALUES = ['other', 'unknown'];
+
+function cleanValue(value: string | null): string | null {
+  if (!value) return null;
+  return UNKNOWN_VALUES.includes(value.toLowerCase()) ? null : value;
+}
+
+function isGoogleMapsUrl(url: string): boolean {
+  return /google\.[a-z.]+\/maps|maps\.app\.goo\.gl|goo\.gl\/maps/i.test(url);
+}
+
+/**
+ * Split the free-form cuisine type into category/subtype columns
+ */
+function toCuisineColumns(cuisineType: string | null): Pick<PlaceInsert, 'cuisine_category' | 'cuisine_subtype'> {
+  const cuisine = cleanValue(cuisineType);
+  if (!cuisine) return { cuisine_category: null, cuisine_subtype: null };
+  if (CUISINE_CATEGORIES.includes(cuisine)) return { cuisine_category: cuisine, cuisine_subtype: null };
+  if (JAPANESE_SUBTYPES.includes(cuisine)) return { cuisine_category: 'Japanese', cuisine_subtype: cuisine };
+  return { cuisine_category: null, cuisine_subtype: cuisine };
+}
+
+/**
+ * Look up coordinates for a suggestion's address with the Geocoding API.
+ * Returns null when the address can't be resolved.
+ */
+export async function geocodeSuggestion(suggestion: PlaceSuggestion, apiKey: string): Promise<LatLng | null> {
+  const address = [suggestion.address, suggestion.city, 'Japan'].filter(Boolean).join(', ');
+  const params = new URLSearchParams({ address, region: 'jp', key: apiKey });
+
+  const response = await fetch(`https://maps.googleapis.com/maps/api/geocode/json?${params}`);
+  if (!response.ok) {
+    console.error('Geocoding failed:', response.status);
+    return null;
+  }
+
+  const data = await response.json();
+  const location = data.status === 'OK' ? data.results?.[0]?.geometry?.location : null;
+  return location ? { lat: location.lat, lng: location.lng } : null;
+}
+
+/**
+ * Build a new places row from an approved suggestion at the given coordinates
+ */
+export function suggestionToPlaceInsert(suggestion: PlaceSuggestion, location?: LatLng): PlaceInsert {
+  // Submitted anonymously, so anything but an http(s) link is dropped
+  const website = safeHttpUrl(suggestion.website);
+  return {
+    name: suggestion.name,
+    lat: location?.lat ?? null,
+    lng: location?.lng ?? null,
+    address: suggestion.address,
+    city: suggestion.city,
+    country: 'Japan',
+    halal_status: cleanValue(suggestion.halal_status),
+    phone: suggestion.phone,
+    website_url: website && !isGoogleMapsUrl(website) ? website : null,
+    google_maps_url: website && isGoogleMapsUrl(website) ? website : null,
+    ...toCuisineColumns(suggestion.cuisine_type),
+  };
+}
+
+/**
+ * Build an update that fills the gaps of an existing place with suggestion data.
+ * Values already on the place are never overwritten.
+ */
+export function suggestionToPlaceUpdate(place: Place, suggestion: PlaceSuggestion): PlaceUpdate {
+  const candidate = suggestionToPlaceInsert(suggestion);
+  const update: PlaceUpdate = {};
+  const fillable = [
+    'address',
+    'city',
+    'halal_status',
+    'phone',
+    'website_url',
+    'google_maps_url',
+    'cuisine_category',
+    'cuisine_subtype',
+  ] as const;
+
+  for (const key of fillable) {
+    if (!place[key] && candidate[key]) {
+      update[key] = candidate[key];
+    }
+  }
+  return update;
+}
@@ -0,0 +1,19 @@
+import { createClient } from '@supabase/supabase-js';
+import { Database } from './supabase';
+
+/**
+ * Service-role client for trusted server code (admin routes only).
+ * Bypasses RLS, so never import this from a client component.
+ */
+export function createAdminClient() {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+    }
+  );
+}
@@ -33,6 +33,16 @@ export interface Database {
                     price_level: string | null
                     opening_hours: Json | null
                     tags: string[] | null
+                    certifying_body: string | null
+                    certificate_number: string | null
+                    certification_scope: string | null
+                    certified_on: string | null
+                    certification_expires_on: string | null
+                    certification_url: string | null
+                    halal_flags: string[] | null
+                    last_verified_on: string | null
+                    verification_issue: string | null
+                    effective_halal_status: string | null
                 }
                 Insert: {
                     id?: string
@@ -54,6 +64,16 @@ export interface Database {
                     price_level?: string | null
                     opening_hours?: Json | null
                     tags?: string[] | null
+                    certifying_body?: string | null
+                    certificate_number?: string | null
+                    certification_scope?: string | null
+                    certified_on?: string | null
+                    certification_expires_on?: string | null
+                    certification_url?: string | null
+                    halal_flags?: string[] | null
+                    last_verified_on?: string | null
+                    verification_issue?: string | null
+                    effective_halal_status?: never
                 }
                 Update: {
                     id?: string
@@ -75,8 +95,272 @@ export interface Database {
                     price_level?: string | null
                     opening_hours?: Json | null
                     tags?: string[] | null
+                    certifying_body?: string | null
+                    certificate_number?: string | null
+                    certification_scope?: string | null
+                    certified_on?: string | null
+                    certification_expires_on?: string | null
+                    certification_url?: string | null
+                    halal_flags?: string[] | null
+                    last_verified_on?: string | null
+                    verification_issue?: string | null
+                    effective_halal_status?: never
                 }
+                Relationships: []
             }
+            place_suggestions: {
+                Row: {
+                    id: string
+                    created_at: string
+                    name: string
+                    address: string
+                    city: string | null
+                    cuisine_type: string | null
+                    halal_status: string | null
+                    phone: string | null
+                    website: string | null
+                    notes: string | null
+                    submitter_email: string | null
+                    submitted_by: string | null
+                    status: 'pending' | 'approved' | 'rejected' | 'merged'
+                    reviewed_at: string | null
+                    reviewed_by: string | null
+                    review_note: string | null
+                    place_ref: string | null
+                }
+                Insert: {
+                    id?: string
+                    created_at?: string
+                    name: string
+                    address: string
+                    city?: string | null
+                    cuisine_type?: string | null
+                    halal_status?: string | null
+                    phone?: string | null
+                    website?: string | null
+                    notes?: string | null
+                    submitter_email?: string | null
+                    submitted_by?: string | null
+                    status?: 'pending' | 'approved' | 'rejected' | 'merged'
+                    reviewed_at?: string | null
+                    reviewed_by?: string | null
+                    review_note?: string | null
+                    place_ref?: string | null
+                }
+                Update: {
+                    id?: string
+                    created_at?: string
+                    name?: string
+                    address?: string
+                    city?: string | null
+                    cuisine_type?: string | null
+                    halal_status?: string | null
+                    phone?: string | null
+                    website?: string | null
+                    notes?: string | null
+                    submitter_email?: string | null
+                    submitted_by?: string | null
+                    status?: 'pending' | 'approved' | 'rejected' | 'merged'
+                    reviewed_at?: string | null
+                    reviewed_by?: string | null
+                    review_note?: string | null
+                    place_ref?: string | null
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "place_suggestions_place_ref_fkey"
+                        columns: ["place_ref"]
+                        isOneToOne: false
+                        referencedRelation: "places"
+                        referencedColumns: ["id"]
+                    }
+                ]
+            }
+            rate_limits: {
+                Row: {
+                    key: string
+                    count: number
+                    reset_at: string
+                }
+                Insert: {
+                    key: string
+                    count?: number
+                    reset_at: string
+                }
+                Update: {
+                    key?: string
+                    count?: number
+                    reset_at?: string
+                }
+                Relationships: []
+            }
+            user_favorites: {
+                Row: {
+                    user_id: string
+                    place_id: string
+                    created_at: string
+                }
+                Insert: {
+                    user_id: string
+                    place_id: string
+                    created_at?: string
+                }
+                Update: {
+                    user_id?: string
+                    place_id?: string
+                    created_at?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "user_favorites_place_id_fkey"
+                        columns: ["place_id"]
+                        isOneToOne: false
+                        referencedRelation: "places"
+                        referencedColumns: ["id"]
+                    }
+                ]
+            }
+            collections: {
+                Row: {
+                    id: string
+                    user_id: string
+                    created_at: string
+                    name: string
+                    notes: string | null
+                    position: number
+                    share_id: string
+                }
+                Insert: {
+                    id?: string
+                    user_id: string
+                    created_at?: string
+                    name: string
+                    notes?: string | null
+                    position?: number
+                    share_id?: string
+                }
+                Update: {
+                    id?: string
+                    user_id?: string
+                    created_at?: string
+                    name?: string
+                    notes?: string | null
+                    position?: number
+                    share_id?: string
+                }
+                Relationships: []
+            }
+            collection_places: {
+                Row: {
+                    collection_id: string
+                    place_id: string
+                    position: number
+                    note: string | null
+                    created_at: string
+                }
+                Insert: {
+                    collection_id: string
+                    place_id: string
+                    position?: number
+                    note?: string | null
+                    created_at?: string
+                }
+                Update: {
+                    collection_id?: string
+                    place_id?: string
+                    position?: number
+                    note?: string | null
+                    created_at?: string
+                }
+                Relationships: [
+                    {
+                        foreignKeyName: "collection_places_collection_id_fkey"
+                        columns: ["collection_id"]
+                        isOneToOne: false
+                        referencedRelation: "collections"
+                        referencedColumns: ["id"]
+                    },
+                    {
+                        foreignKeyName: "collection_places_place_id_fkey"
+                        columns: ["place_id"]
+                        isOneToOne: false
+                        referencedRelation: "places"
+                        referencedColumns: ["id"]
+                    }
+                ]
+            }
+            place_ratings: {
+                Row: {
+                    place_id: string
+                    rating: number | null
+                    user_ratings_total: number | null
+                    fetched_at: string
+                }
+                Insert: {
+                    place_id: string
+                    rating?: number | null
+                    user_ratings_total?: number | null
+                    fetched_at?: string
+                }
+                Update: {
+                    place_id?: string
+                    rating?: number | null
+                    user_ratings_total?: number | null
+                    fetched_at?: string
+                }
+                Relationships: []
+            }
+            chat_conversations: {
+                Row: {
+                    id: string
+                    user_id: string
+                    title: string
+                    messages: Json
+                    last_filter: Json
+                    created_at: string
+                    updated_at: string
+                }
+                Insert: {
+                    id?: string
+                    user_id: string
+                    title: string
+                    messages?: Json
+                    last_filter?: Json
+                    created_at?: string
+                    updated_at?: string
+                }
+                Update: {
+                    id?: string
+                    user_id?: string
+                    title?: string
+                    messages?: Json
+                    last_filter?: Json
+                    created_at?: string
+                    updated_at?: string
+                }
+                Relationships: []
+            }
+        }
+        Views: {
+            [_ in never]: never
+        }
+        Functions: {
+            increment_rate_limit: {
+                Args: {
+                    p_key: string
+                    p_window_seconds: number
+                }
+                Returns: {
+                    count: number
+                    reset_at: string
+                }[]
+            }
+        }
+        Enums: {
+            [_ in never]: never
+        }
+        CompositeTypes: {
+            [_ in never]: never
         }
     }
 }
@@ -0,0 +1,61 @@
+/**
+ * Client-side cache of loaded map tiles. A tile is skipped when it, or a
+ * complete tile containing it, was already loaded.
+ */
+
+import { Place, PlaceTileResponse } from './types';
+import { TILE_CONFIG } from './constants';
+import { ancestorTile, Tile, tileKey } from './tiles';
+
+export function createTileCache(completeKeys: string[] = []) {
+  const complete = new Set(completeKeys);
+  const fetched = new Set(completeKeys); // Includes truncated tiles, which are not fetched again
+  const inFlight = new Map<string, Promise<Place[]>>();
+
+  const isCovered = (tile: Tile): boolean => {
+    if (fetched.has(tileKey(tile))) return true;
+    for (let z = tile.z - 1; z >= TILE_CONFIG.MIN_ZOOM; z--) {
+      if (complete.has(tileKey(ancestorTile(tile, z)))) return true;
+    }
+    return false;
+  };
+
+  const fetchTile = async (tile: Tile): Promise<Place[]> => {
+    const key = tileKey(tile);
+    const res = await fetch(`/api/places/tile?z=${tile.z}&x=${tile.x}&y=${tile.y}`);
+    const data: PlaceTileResponse = await res.json();
+    if (!res.ok) throw new Error(data.error || `Failed to load tile ${key}`);
+
+    fetched.add(key);
+    if (data.complete) complete.add(key);
+    return data.places;
+  };
+
+  return {
+    /**
+     * Load the tiles not covered yet; returns the places that came in
+     */
+    async load(tiles: Tile[]): Promise<Place[]> {
+      const requests = tiles
+        .filter((tile) => !isCovered(tile))
+        .map((tile) => {
+          const key = tileKey(tile);
+          let request = inFlight.get(key);
+          if (!request) {
+            request = fetchTile(tile).finally(() => inFlight.delete(key));
+            inFlight.set(key, request);
+          }
+          return request;
+        });
+
+      const results = await Promise.allSettled(requests);
+      return results.flatMap((result) => {
+        if (result.status === 'rejected') {
+          console.error('Failed to load places tile:', result.reason);
+          return [];
+        }
+        return result.value;
+      });
+    },
+  };
+}
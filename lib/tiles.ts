@@ -0,0 +1,127 @@
+/**
+ * Web Mercator z/x/y tile math for loading places by viewport
+ */
+
+import { BoundsFilter, LatLng } from './types';
+import { TILE_CONFIG } from './constants';
+
+export interface Tile {
+  z: number;
+  x: number;
+  y: number;
+}
+
+const MAX_LATITUDE = 85.05112878; // Web Mercator cutoff
+
+function clampLat(lat: number): number {
+  return Math.min(Math.max(lat, -MAX_LATITUDE), MAX_LATITUDE);
+}
+
+// Position in tile units at zoom z (fractional)
+function lngToTileX(lng: number, z: number): number {
+  return ((lng + 180) / 360) * 2 ** z;
+}
+
+function latToTileY(lat: number, z: number): number {
+  const rad = (clampLat(lat) * Math.PI) / 180;
+  return ((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** z;
+}
+
+function tileXToLng(x: number, z: number): number {
+  return (x / 2 ** z) * 360 - 180;
+}
+
+function tileYToLat(y: number, z: number): number {
+  return (Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / 2 ** z))) * 180) / Math.PI;
+}
+
+export function tileKey({ z, x, y }: Tile): string {
+  return `${z}/${x}/${y}`;
+}
+
+/**
+ * Validate tile coordinates from untrusted input
+ */
+export function parseTile(z: unknown, x: unknown, y: unknown): Tile | null {
+  const [tz, tx, ty] = [z, x, y].map(Number);
+  if (![tz, tx, ty].every(Number.isInteger)) return null;
+  if (tz < TILE_CONFIG.MIN_ZOOM || tz > TILE_CONFIG.MAX_ZOOM) return null;
+  if (tx < 0 || ty < 0 || tx >= 2 ** tz || ty >= 2 ** tz) return null;
+  return { z: tz, x: tx, y: ty };
+}
+
+export function tileBounds({ z, x, y }: Tile): BoundsFilter {
+  return {
+    north: tileYToLat(y, z),
+    south: tileYToLat(y + 1, z),
+    west: tileXToLng(x, z),
+    east: tileXToLng(x + 1, z),
+  };
+}
+
+/**
+ * The tile at zoom z that contains this one (z must not be finer than the tile's own zoom)
+ */
+export function ancestorTile(tile: Tile, z: number): Tile {
+  const shift = tile.z - z;
+  return { z, x: tile.x >> shift, y: tile.y >> shift };
+}
+
+/**
+ * Tile zoom level used for a map zoom level
+ */
+export function tileZoomFor(mapZoom: number): number {
+  return Math.min(
+    Math.max(Math.floor(mapZoom) - TILE_CONFIG.ZOOM_OFFSET, TILE_CONFIG.MIN_ZOOM),
+    TILE_CONFIG.MAX_ZOOM
+  );
+}
+
+/**
+ * Tiles covering a viewport, at the finest level that stays within MAX_TILES_PER_VIEW
+ */
+export function tilesForBounds(bounds: BoundsFilter, mapZoom: number): Tile[] {
+  for (let z = tileZoomFor(mapZoom); ; z--) {
+    const size = 2 ** z;
+    const minX = Math.floor(lngToTileX(bounds.west, z));
+    const maxX = Math.floor(lngToTileX(bounds.east, z));
+    const minY = Math.max(0, Math.floor(latToTileY(bounds.north, z)));
+    const maxY = Math.min(size - 1, Math.floor(latToTileY(bounds.south, z)));
+
+    // A viewport across the antimeridian has east < west; wrap x around the world
+    const xs: number[] = [];
+    for (let x = minX; x <= (maxX < minX ? maxX + size : maxX) && xs.length <= size; x++) {
+      xs.push(((x % size) + size) % size);
+    }
+
+    const count = xs.length * (maxY - minY + 1);
+    if (count <= TILE_CONFIG.MAX_TILES_PER_VIEW || z <= TILE_CONFIG.MIN_ZOOM) {
+      return xs.flatMap((x) =>
+        Array.from({ length: maxY - minY + 1 }, (_, i) => ({ z, x, y: minY + i }))
+      );
+    }
+  }
+}
+
+/**
+ * Approximate viewport bounds for a center and zoom, for when there is no map yet (server render)
+ */
+export function viewportBounds(
+  center: LatLng,
+  zoom: number,
+  width: number = TILE_CONFIG.ASSUMED_VIEWPORT.width,
+  height: number = TILE_CONFIG.ASSUMED_VIEWPORT.height
+): BoundsFilter {
+  // 256px map tiles: half the viewport expressed in tile units at this zoom
+  const halfX = width / 2 / 256;
+  const halfY = height / 2 / 256;
+  const cx = lngToTileX(center.lng, zoom);
+  const cy = latToTileY(center.lat, zoom);
+
+  return {
+    north: tileYToLat(cy - halfY, zoom),
+    south: tileYToLat(cy + halfY, zoom),
+    west: tileXToLng(cx - halfX, zoom),
+    east: tileXToLng(cx + halfX, zoom),
+  };
+}
@@ -8,6 +8,75 @@ import { Database } from './supabase';
 export type Place = Database['public']['Tables']['places']['Row'];
 export type PlaceInsert = Database['public']['Tables']['places']['Insert'];
 export type PlaceUpdate = Database['public']['Tables']['places']['Update'];
+export type PlaceSuggestion = Database['public']['Tables']['place_suggestions']['Row'];
+export type PlaceSuggestionInsert = Database['public']['Tables']['place_suggestions']['Insert'];
+export type SuggestionStatus = PlaceSuggestion['status'];
+export type Collection = Database['public']['Tables']['collections']['Row'];
+export type CollectionPlace = Database['public']['Tables']['collection_places']['Row'];
+
+export type ChatConversationRow = Database['public']['Tables']['chat_conversations']['Row'];
+
+// A saved assistant conversation, as stored for accounts and in localStorage for guests
+export interface ChatConversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  last_filter: PlaceFilter;
+  created_at: string;
+  updated_at: string;
+}
+
+// History list entry; messages are loaded when a conversation is resumed
+export type ChatConversationSummary = Omit<ChatConversation, 'messages' | 'last_filter'>;
+
+// A collection with its places in list order
+export interface CollectionWithPlaces extends Collection {
+  places: CollectionPlace[];
+}
+
+// A collection as its public share page sees it; nothing about the owner
+export interface SharedCollection extends Pick<Collection, 'id' | 'name' | 'notes' | 'share_id' | 'created_at'> {
+  places: Pick<CollectionPlace, 'place_id' | 'position' | 'note'>[];
+}
+
+// Moderation actions an admin can take on a pending suggestion
+export type SuggestionReviewAction = 'approve' | 'reject' | 'merge';
+
+// Opening hours schema stored in places.opening_hours (Asia/Tokyo local time)
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export interface TimeRange {
+  open: string;  // "HH:MM"
+  close: string; // "HH:MM" - at or before `open` means the range runs past midnight
+}
+
+export interface OpeningHours {
+  weekly: Partial<Record<Weekday, TimeRange[]>>; // Missing or empty day = closed
+  holidays?: TimeRange[];                        // Japanese public holidays; omit to use weekday hours, [] = closed
+  exceptions?: Record<string, TimeRange[]>;      // "YYYY-MM-DD" overrides, [] = closed
+}
+
+// Geo types
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface NearFilter extends LatLng {
+  radius_m: number;
+}
+
+export interface BoundsFilter {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface PlaceWithDistance extends Place {
+  distance_m?: number; // Distance from the `near` center, when searching by location
+  score?: number;      // Ranking score from lib/ranking.ts, higher is better
+}
 
 // Chat types
 export interface ChatMessage {
@@ -24,11 +93,74 @@ export interface PlaceFilter {
   price_level?: string | null;
   tag?: string | null;
   keyword?: string | null;
+  query?: string | null;    // Free text, matched fuzzily over names, cuisines and areas (see lib/search-text.ts)
   favorites?: boolean | null;
   search_terms?: string[];
   halal_status?: string | null; // Filter by halal status (e.g., 'Certified')
+  open_now?: boolean | null;
+  open_at?: string | null; // ISO datetime, or "HH:MM" for its next occurrence in Tokyo
+  near?: NearFilter | null;
+  bounds?: BoundsFilter | null;
+  sort?: PlaceSort | null;  // Result order, 'relevance' when unset
+
+  // Multi-select facets: any of the values within a field, all fields together (see lib/facets.ts)
+  halal_statuses?: string[];
+  cuisine_categories?: string[];
+  cuisine_subtypes?: string[];
+  cities?: string[];
+  price_levels?: string[];
+  tags?: string[];
+  certifying_bodies?: string[];
+  halal_flags?: string[];
+
+  cuisines?: string[];               // Any of these, each matched loosely like cuisine_subtype / cuisine_category
+  exclude?: PlaceExclusions | null;  // Places matching any of these are left out
+}
+
+// What to leave out of results, e.g. "not Indian", "not in Shinjuku"
+export interface PlaceExclusions {
+  cuisines?: string[];     // Matched loosely against cuisine subtype and category
+  cities?: string[];       // Matched loosely against the city
+  tags?: string[];
+  price_levels?: string[];
 }
 
+export type FacetField =
+  | 'halal_statuses'
+  | 'cuisine_categories'
+  | 'cuisine_subtypes'
+  | 'cities'
+  | 'price_levels'
+  | 'tags'
+  | 'certifying_bodies'
+  | 'halal_flags';
+
+// Verified halal details of a place (places.halal_flags)
+export type HalalFlag = 'no_alcohol' | 'halal_meat_only' | 'prayer_space';
+
+// What a certificate covers (places.certification_scope)
+export type CertificationScope = 'restaurant' | 'menu' | 'ingredients';
+
+// Why the verification job flagged a place (places.verification_issue)
+export type VerificationIssue = 'expired' | 'stale';
+
+export interface FacetValue {
+  value: string;
+  count: number;     // Matching places if this value were (also) selected
+  selected: boolean;
+}
+
+// How search results are ordered
+export type PlaceSort = 'relevance' | 'rating' | 'distance' | 'halal';
+
+// UI actions the assistant can trigger through tool calls
+export type AssistantAction =
+  | { type: 'open_place_details'; place_name: string }
+  | { type: 'add_to_favorites'; place_name: string };
+
+// Why a request was refused with 429
+export type RateLimitReason = 'rate_limited' | 'guest_quota' | 'daily_quota';
+
 // API response types
 export interface ChatAPIResponse {
   role?: string;
@@ -36,11 +168,81 @@ export interface ChatAPIResponse {
   filter?: PlaceFilter;
   message?: string;
   recommended_place?: string;
+  actions?: AssistantAction[];
   error?: string;
+  retryAfter?: number; // Seconds, with 429 responses
+  reason?: RateLimitReason;
 }
 
 export interface PlacesSearchResponse {
+  places: PlaceWithDistance[];
+  error?: string;
+}
+
+// A search-as-you-type suggestion; places are selected, areas and cuisines become filters
+export type AutocompleteSuggestion =
+  | { type: 'place'; id: string; label: string; city: string | null; halal_status: string | null; verification_issue: string | null }
+  | { type: 'area'; label: string; count: number }
+  | { type: 'cuisine'; label: string; count: number };
+
+export interface AutocompleteResponse {
+  suggestions: AutocompleteSuggestion[];
+  error?: string;
+}
+
+export interface FacetsResponse {
+  facets: Partial<Record<FacetField, FacetValue[]>>;
+  total: number; // Places matching the whole filter
+  error?: string;
+}
+
+export interface PlaceTileResponse {
+  tile: string;      // "z/x/y"
   places: Place[];
+  complete: boolean; // False if the tile held more than MAX_PLACES_PER_TILE places
+  error?: string;
+}
+
+export interface SuggestionReviewResponse {
+  suggestion?: PlaceSuggestion;
+  place?: Place;
+  error?: string;
+}
+
+export interface FavoritesResponse {
+  placeIds: string[];
+  error?: string;
+}
+
+export interface CollectionsResponse {
+  collections: CollectionWithPlaces[];
+  error?: string;
+}
+
+export interface CollectionResponse {
+  collection?: CollectionWithPlaces;
+  error?: string;
+}
+
+export interface ChatConversationsResponse {
+  conversations: ChatConversationSummary[];
+  error?: string;
+}
+
+export interface ChatConversationResponse {
+  conversation?: ChatConversation;
+  error?: string;
+}
+
+// Google rating of a place, keyed by its Google place ID
+export interface PlaceRating {
+  place_id: string;
+  rating?: number;
+  user_ratings_total?: number;
+}
+
+export interface RatingsResponse {
+  ratings: PlaceRating[];
   error?: string;
 }
 
@@ -24,6 +24,27 @@ export function hasNonEmptyValues(obj: object): boolean {
   );
 }
 
+/**
+ * Check if a string is a UUID (row IDs, share IDs)
+ */
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+}
+
+/**
+ * The URL if it is a plain http(s) link, e.g. before rendering stored URLs as links
+ * (a javascript: URL would run when clicked)
+ */
+export function safeHttpUrl(value: string | null | undefined): string | null {
+  if (!value) return null;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:' ? value : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Safely parse JSON with a fallback
  */
@@ -0,0 +1,70 @@
+/**
+ * Certification verification job (server-only): flags places whose certificate has
+ * expired or whose halal status hasn't been verified for VERIFICATION_CONFIG.STALE_AFTER_MONTHS.
+ * Flags are stored in places.verification_issue, which lowers the status shown in the app.
+ */
+
+import { createAdminClient } from './supabase-admin';
+import { VerificationIssue } from './types';
+import { VERIFICATION_CONFIG } from './constants';
+import { tokyoDateKey } from './opening-hours';
+import { VerifiablePlace, verificationIssueOf } from './certification';
+
+type CheckedPlace = VerifiablePlace & { id: string; verification_issue: string | null };
+
+const CHECKED_COLUMNS =
+  'id, halal_status, certifying_body, certified_on, certification_expires_on, last_verified_on, verification_issue';
+
+export interface VerificationSummary {
+  checked: number;
+  expired: number; // Places flagged as expired after the run
+  stale: number;
+  changed: number; // Places whose flag was set, changed or cleared by this run
+}
+
+/**
+ * Check every place and store the flags that changed
+ */
+export async function runVerificationCheck(now: Date = new Date()): Promise<VerificationSummary> {
+  const supabase = createAdminClient();
+  const today = tokyoDateKey(now);
+
+  const places: CheckedPlace[] = [];
+  for (let from = 0; ; from += VERIFICATION_CONFIG.PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('places')
+      .select(CHECKED_COLUMNS)
+      .order('id')
+      .range(from, from + VERIFICATION_CONFIG.PAGE_SIZE - 1);
+    if (error) throw new Error(`Verification check failed: ${error.message}`);
+
+    places.push(...((data ?? []) as CheckedPlace[]));
+    if (!data || data.length < VERIFICATION_CONFIG.PAGE_SIZE) break;
+  }
+
+  // Ids to update, grouped by their new flag (null clears it)
+  const updates = new Map<VerificationIssue | null, string[]>();
+  const summary: VerificationSummary = { checked: places.length, expired: 0, stale: 0, changed: 0 };
+
+  for (const place of places) {
+    const issue = verificationIssueOf(place, today);
+    if (issue) summary[issue]++;
+    if (place.verification_issue === issue) continue;
+
+    if (!updates.has(issue)) updates.set(issue, []);
+    updates.get(issue)!.push(place.id);
+    summary.changed++;
+  }
+
+  for (const [issue, ids] of updates) {
+    for (let i = 0; i < ids.length; i += VERIFICATION_CONFIG.UPDATE_CHUNK) {
+      const { error } = await supabase
+        .from('places')
+        .update({ verification_issue: issue })
+        .in('id', ids.slice(i, i + VERIFICATION_CONFIG.UPDATE_CHUNK));
+      if (error) throw new Error(`Verification update failed: ${error.message}`);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,252 @@
+/**
+ * Arabic messages (shown right-to-left)
+ */
+
+import type { Messages } from '@/lib/i18n';
+
+export const ar: Messages = {
+  'app.description': 'دليلك الذكي للطعام الحلال في اليابان',
+
+  'common.close': 'إغلاق',
+  'common.cancel': 'إلغاء',
+  'common.save': 'حفظ',
+  'common.delete': 'حذف',
+  'common.loading': 'جارٍ التحميل...',
+  'common.view': 'عرض ←',
+
+  'halal.certified': 'حلال معتمد',
+  'halal.certified.description': 'مطعم حاصل على شهادة حلال رسمية',
+  'halal.muslimFriendly': 'مناسب للمسلمين',
+  'halal.muslimFriendly.description': 'يراعي المتطلبات الغذائية للمسلمين',
+  'halal.unverified': 'غير موثق',
+  'halal.unverified.description': 'لم يتم التحقق من حالة الحلال بعد',
+
+  'halal.flag.no_alcohol': 'لا تُقدَّم الكحول',
+  'halal.flag.halal_meat_only': 'لحوم حلال فقط',
+  'halal.flag.prayer_space': 'مصلّى',
+
+  'certification.title': 'شهادة الحلال',
+  'certification.body': 'الجهة المانحة',
+  'certification.number': 'رقم الشهادة',
+  'certification.scope': 'النطاق',
+  'certification.scope.restaurant': 'المطعم بالكامل',
+  'certification.scope.menu': 'أصناف محددة من القائمة',
+  'certification.scope.ingredients': 'المكونات فقط',
+  'certification.issued': 'تاريخ الإصدار',
+  'certification.expires': 'تاريخ الانتهاء',
+  'certification.evidence': 'عرض الشهادة',
+  'certification.none': 'لا توجد شهادة مسجلة',
+  'certification.lastVerified': 'آخر تحقق',
+  'certification.warning.expired': 'انتهت صلاحية هذه الشهادة. تحقق مع المطعم قبل الزيارة.',
+  'certification.warning.stale': 'لم يتم التحقق مؤخرًا. ربما تغيرت حالة الحلال.',
+
+  'legend.title': 'مفتاح الخريطة',
+  'legend.toggle': 'إظهار أو إخفاء مفتاح الخريطة',
+  'legend.help': 'اضغط على أي دبوس لعرض التفاصيل، أو على مجموعة مرقمة للتكبير. تأخذ المجموعات لون الحالة الأكثر شيوعًا فيها. المطاعم المعتمدة موثقة من جهات إصدار شهادات الحلال الرسمية.',
+
+  'menu.list': 'القائمة',
+  'menu.favorites': 'المفضلة',
+  'menu.promos': 'العروض',
+  'menu.featured': 'المميزة',
+  'menu.more': 'المزيد',
+
+  'auth.signIn': 'تسجيل الدخول',
+  'auth.signedIn': 'تم تسجيل الدخول',
+  'auth.signOut': 'تسجيل الخروج',
+  'auth.signUp': 'إنشاء حساب',
+  'auth.signInLink': 'تسجيل الدخول',
+  'auth.welcomeBack': 'مرحبًا بعودتك',
+  'auth.createAccount': 'إنشاء حساب',
+  'auth.signIn.subtitle': 'سجّل الدخول لاستخدام المحادثة الذكية',
+  'auth.signUp.subtitle': 'أنشئ حسابًا لتبدأ البحث عن الطعام الحلال',
+  'auth.continueWithGoogle': 'المتابعة باستخدام Google',
+  'auth.or': 'أو',
+  'auth.email': 'البريد الإلكتروني',
+  'auth.password': 'كلمة المرور',
+  'auth.password.create': 'أنشئ كلمة مرور',
+  'auth.password.enter': 'أدخل كلمة المرور',
+  'auth.signingIn': 'جارٍ تسجيل الدخول...',
+  'auth.creatingAccount': 'جارٍ إنشاء الحساب...',
+  'auth.noAccount': 'ليس لديك حساب؟',
+  'auth.haveAccount': 'لديك حساب بالفعل؟',
+  'auth.checkEmail': 'تحقق من بريدك الإلكتروني للحصول على رابط التأكيد!',
+  'auth.error.unexpected': 'حدث خطأ غير متوقع',
+  'auth.error.google': 'تعذّر تسجيل الدخول باستخدام Google',
+
+  'more.suggest': 'اقترح مكانًا',
+  'more.suggest.description': 'أضف مطعمًا إلى خريطتنا',
+  'more.share': 'مشاركة',
+  'more.share.description': 'شارك هذه الخريطة مع أصدقائك',
+  'more.shareText': 'اعثر على مطاعم حلال في طوكيو واليابان!',
+  'more.linkCopied': 'تم نسخ الرابط!',
+  'more.feedback': 'ملاحظات',
+  'more.feedback.description': 'ساعدنا على التحسين',
+  'more.language': 'اللغة',
+  'more.about': 'حول التطبيق',
+  'more.about.description': 'Tokyo Halal Map v{version}',
+  'more.website': 'زيارة Halalicious',
+  'more.website.description': 'موقعنا الرئيسي',
+  'more.footer': 'صُنع بحب للمجتمع المسلم في اليابان',
+
+  'places.cuisineFallback': 'حلال',
+  'places.reviews': '{count} مراجعة',
+  'places.reviews_one': 'مراجعة واحدة',
+
+  'chat.history': 'سجل المحادثات',
+  'chat.newChat': 'محادثة جديدة وإعادة ضبط الخريطة',
+  'chat.welcome': 'اسألني عن الطعام الحلال في طوكيو!',
+  'chat.quick.ramen': 'أفضل رامن في شينجوكو 🍜',
+  'chat.quick.yakiniku': 'ياكينيكو حلال قرب شيبويا 🥩',
+  'chat.quick.spicy': 'طعام حار في طوكيو 🌶️',
+  'chat.quick.cheap': 'أماكن غداء رخيصة 💴',
+  'chat.placeholder': 'اطرح سؤالًا...',
+  'chat.pleaseWait': 'يرجى الانتظار...',
+  'chat.send': 'إرسال',
+  'chat.thinking': 'جارٍ التفكير...',
+  'chat.retrying': 'جارٍ إعادة المحاولة...',
+  'chat.retryingIn': 'الخادم مشغول. إعادة المحاولة خلال {seconds} ث...',
+  'chat.retryingNow': 'جارٍ إعادة المحاولة الآن...',
+  'chat.loadingPlaces': 'جارٍ تحميل الأماكن...',
+  'chat.mapUpdated': 'حسنًا، لقد حدّثت الخريطة.',
+  'chat.guestQueriesLeft': 'تبقى {count} أسئلة مجانية',
+  'chat.guestQueriesLeft_one': 'يتبقى سؤال مجاني واحد',
+  'chat.signInForUnlimited': 'سجّل الدخول لأسئلة غير محدودة',
+  'chat.signInFree': 'سجّل الدخول مجانًا',
+  'chat.guestQuotaReached': 'لقد استخدمت جميع أسئلتك المجانية! سجّل الدخول مجانًا لمواصلة المحادثة وحفظ مفضلاتك.',
+  'chat.dailyQuotaReached': 'لقد بلغت حد المحادثة لهذا اليوم. يرجى المحاولة لاحقًا.',
+  'chat.error.generic': 'حدث خطأ ما.',
+  'chat.error.prefix': 'خطأ: {message}',
+  'chat.error.noResponse': 'لم يصلني رد. يرجى المحاولة مرة أخرى.',
+  'chat.error.invalidResponse': 'أعاد الخادم استجابة غير صالحة.',
+  'chat.error.connect': 'تعذّر الاتصال بخدمة الذكاء الاصطناعي. ({status})',
+  'chat.error.timeout': 'انتهت مهلة الطلب. يرجى المحاولة مرة أخرى.',
+
+  'history.guestNote': 'تُحفظ المحادثات على هذا الجهاز. سجّل الدخول لحفظها في حسابك.',
+  'history.empty': 'لا توجد محادثات محفوظة بعد.',
+  'history.chatTitle': 'عنوان المحادثة',
+  'history.saveTitle': 'حفظ العنوان',
+  'history.rename': 'إعادة تسمية',
+
+  'results.title': 'النتائج',
+  'results.sort.relevance': 'الأكثر تطابقًا',
+  'results.sort.rating': 'التقييم',
+  'results.sort.distance': 'المسافة',
+  'results.sort.halal': 'حالة الحلال',
+  'results.searching': 'جارٍ البحث...',
+  'results.empty': 'لا توجد أماكن تطابق هذه الفلاتر.',
+
+  'favorites.title': 'مفضلاتي',
+  'favorites.all': 'كل المفضلة',
+  'favorites.newList': 'قائمة جديدة',
+  'favorites.newList.placeholder': 'مثال: رحلة أوساكا',
+  'favorites.create': 'إنشاء',
+  'favorites.offline': 'غير متصل - يتم عرض المفضلة المحفوظة على هذا الجهاز',
+  'favorites.shareList': 'مشاركة القائمة',
+  'favorites.renameList': 'إعادة تسمية القائمة',
+  'favorites.deleteList': 'حذف القائمة',
+  'favorites.confirmDelete': 'حذف "{name}"؟ سيتوقف رابط المشاركة الخاص بها عن العمل.',
+  'favorites.listNotes': 'أضف ملاحظات لهذه القائمة...',
+  'favorites.listEmpty': 'هذه القائمة فارغة.',
+  'favorites.listEmpty.hint': 'أضف أماكن من كل المفضلة.',
+  'favorites.addNote': 'إضافة ملاحظة',
+  'favorites.notePrompt': 'ملاحظة لهذا المكان',
+  'favorites.moveUp': 'نقل لأعلى',
+  'favorites.moveDown': 'نقل لأسفل',
+  'favorites.removeFromList': 'إزالة من القائمة',
+  'favorites.addToList': 'إضافة إلى قائمة',
+  'favorites.empty': 'لا توجد مفضلات بعد!',
+  'favorites.empty.hint': 'اضغط على أيقونة القلب في أي مكان لحفظه.',
+  'favorites.signInForLists': 'سجّل الدخول لتنظيم مفضلاتك في قوائم يمكنك مشاركتها.',
+  'favorites.error.load': 'تعذّر تحميل القوائم',
+  'favorites.error.create': 'تعذّر إنشاء القائمة',
+  'favorites.error.update': 'تعذّر تحديث القائمة',
+  'favorites.error.delete': 'تعذّر حذف القائمة',
+  'favorites.error.save': 'تعذّر حفظ القائمة',
+
+  'filters.halal': 'حلال',
+  'filters.halal.status': 'الحالة',
+  'filters.halal.body': 'الجهة المانحة',
+  'filters.halal.flags': 'التفاصيل',
+  'filters.cuisine': 'المطبخ',
+  'filters.cuisine.category': 'الفئة',
+  'filters.cuisine.dish': 'الطبق',
+  'filters.area': 'المنطقة',
+  'filters.price': 'السعر',
+  'filters.features': 'المزايا',
+  'filters.noOptions': 'لا توجد خيارات',
+  'filters.clearMenu': 'مسح {name}',
+  'filters.excluded': 'ليس {values}',
+  'filters.removeExclusions': 'إزالة الاستثناءات',
+  'filters.nearMe': 'بالقرب مني',
+  'filters.noLocation': 'لا يوجد موقع',
+  'filters.openNow': 'مفتوح الآن',
+  'filters.clear': 'مسح',
+
+  'search.placeholder': 'ابحث عن رامن، らーめん، شيبويا...',
+  'search.label': 'البحث عن أماكن',
+  'search.clear': 'مسح البحث',
+
+  'place.addFavorite': 'إضافة إلى المفضلة',
+  'place.removeFavorite': 'إزالة من المفضلة',
+  'place.viewPhotos': 'عرض الصور',
+  'place.noImage': 'لا توجد صورة',
+  'place.loadingDetails': 'جارٍ تحميل التفاصيل...',
+  'place.detailsUnavailable': 'تفاصيل Google غير متاحة ({status})',
+  'place.missingPlaceId': 'قاعدة البيانات لا تحتوي على معرّف المكان (Place ID).',
+  'place.closed': 'مغلق',
+  'place.recentReviews': 'أحدث المراجعات',
+  'place.viewOnGoogleMaps': 'عرض على خرائط Google',
+  'place.photo': 'صورة {number}',
+  'place.previousPhoto': 'الصورة السابقة',
+  'place.nextPhoto': 'الصورة التالية',
+
+  'suggest.subtitle': 'ساعدنا في توسيع قاعدة بيانات المطاعم الحلال',
+  'suggest.name': 'اسم المطعم',
+  'suggest.name.placeholder': 'مثال: Halal Ramen Tokyo',
+  'suggest.address': 'العنوان',
+  'suggest.address.placeholder': 'العنوان الكامل في اليابان',
+  'suggest.city': 'المدينة/المنطقة',
+  'suggest.city.placeholder': 'مثال: شينجوكو، طوكيو',
+  'suggest.cuisine': 'نوع المطبخ',
+  'suggest.cuisine.japanese': 'ياباني',
+  'suggest.cuisine.ramen': 'رامن',
+  'suggest.cuisine.sushi': 'سوشي',
+  'suggest.cuisine.yakiniku': 'ياكينيكو',
+  'suggest.cuisine.curry': 'كاري',
+  'suggest.cuisine.indian': 'هندي',
+  'suggest.cuisine.middleEastern': 'شرق أوسطي',
+  'suggest.cuisine.turkish': 'تركي',
+  'suggest.cuisine.indonesian': 'إندونيسي',
+  'suggest.cuisine.malaysian': 'ماليزي',
+  'suggest.cuisine.other': 'أخرى',
+  'suggest.halal.certified': 'حلال معتمد بالكامل',
+  'suggest.halal.muslimFriendly': 'مناسب للمسلمين',
+  'suggest.halal.menu': 'تتوفر قائمة حلال',
+  'suggest.halal.unknown': 'غير متأكد',
+  'suggest.select': 'اختر...',
+  'suggest.phone': 'رقم الهاتف',
+  'suggest.website': 'الموقع الإلكتروني أو رابط خرائط Google',
+  'suggest.notes': 'ملاحظات إضافية',
+  'suggest.notes.placeholder': 'أي معلومات إضافية عن المطعم...',
+  'suggest.email': 'بريدك الإلكتروني (اختياري)',
+  'suggest.email.placeholder': 'سنُعلمك عند إضافته',
+  'suggest.submit': 'إرسال الاقتراح',
+  'suggest.submitting': 'جارٍ الإرسال...',
+  'suggest.thanks': 'شكرًا لك!',
+  'suggest.thanks.description': 'تم إرسال اقتراحك. سنراجعه ونضيفه إلى الخريطة إذا استوفى معاييرنا.',
+  'suggest.done': 'تم',
+  'suggest.error.required': 'اسم المطعم والعنوان مطلوبان.',
+  'suggest.error.submit': 'تعذّر إرسال الاقتراح',
+  'suggest.error.retry': 'تعذّر الإرسال. يرجى المحاولة مرة أخرى.',
+
+  'shared.label': 'قائمة مشتركة',
+  'shared.exploreMore': 'اكتشف المزيد على {name}',
+
+  'map.askAI': 'اسأل الذكاء الاصطناعي',
+  'map.restaurant': 'مطعم',
+  'map.viewDetails': 'عرض التفاصيل',
+  'map.directions': 'الاتجاهات',
+  'map.clusterTitle': '{count} أماكن - أغلبها {status}. اضغط للتكبير.',
+  'map.error.search': 'فشل البحث. يرجى المحاولة مرة أخرى.',
+  'map.error.network': 'خطأ في الشبكة. يرجى التحقق من اتصالك.',
+};
@@ -0,0 +1,251 @@
+/**
+ * English messages: the source catalog every other language mirrors. Keys with a
+ * plural suffix (`_one`, `_other`, ...) are picked by `count` (see lib/i18n.ts).
+ */
+
+export const en = {
+  'app.description': 'Your AI-powered halal guide for Japan',
+
+  'common.close': 'Close',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.delete': 'Delete',
+  'common.loading': 'Loading...',
+  'common.view': 'View →',
+
+  'halal.certified': 'Halal Certified',
+  'halal.certified.description': 'Officially halal certified restaurant',
+  'halal.muslimFriendly': 'Muslim Friendly',
+  'halal.muslimFriendly.description': 'Accommodates Muslim dietary needs',
+  'halal.unverified': 'Unverified',
+  'halal.unverified.description': 'Halal status not yet verified',
+
+  'halal.flag.no_alcohol': 'No alcohol served',
+  'halal.flag.halal_meat_only': 'Halal meat only',
+  'halal.flag.prayer_space': 'Prayer space',
+
+  'certification.title': 'Halal Certification',
+  'certification.body': 'Certified by',
+  'certification.number': 'Certificate No.',
+  'certification.scope': 'Covers',
+  'certification.scope.restaurant': 'Whole restaurant',
+  'certification.scope.menu': 'Selected menu items',
+  'certification.scope.ingredients': 'Ingredients only',
+  'certification.issued': 'Issued',
+  'certification.expires': 'Expires',
+  'certification.evidence': 'View certificate',
+  'certification.none': 'No certificate on record',
+  'certification.lastVerified': 'Last verified',
+  'certification.warning.expired': 'This certificate has expired. Check with the restaurant before visiting.',
+  'certification.warning.stale': 'Not verified recently. The halal status may have changed.',
+
+  'legend.title': 'Map Legend',
+  'legend.toggle': 'Toggle map legend',
+  'legend.help': 'Tap any pin for details, or a numbered cluster to zoom in. Clusters take the color of their most common status. Certified restaurants are verified by official halal certification bodies.',
+
+  'menu.list': 'List',
+  'menu.favorites': 'Favorites',
+  'menu.promos': 'Promos',
+  'menu.featured': 'Featured',
+  'menu.more': 'More',
+
+  'auth.signIn': 'Sign In',
+  'auth.signedIn': 'Signed in',
+  'auth.signOut': 'Sign Out',
+  'auth.signUp': 'Sign up',
+  'auth.signInLink': 'Sign in',
+  'auth.welcomeBack': 'Welcome Back',
+  'auth.createAccount': 'Create Account',
+  'auth.signIn.subtitle': 'Sign in to use the AI chat feature',
+  'auth.signUp.subtitle': 'Sign up to start finding halal food',
+  'auth.continueWithGoogle': 'Continue with Google',
+  'auth.or': 'or',
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+  'auth.password.create': 'Create a password',
+  'auth.password.enter': 'Enter your password',
+  'auth.signingIn': 'Signing in...',
+  'auth.creatingAccount': 'Creating account...',
+  'auth.noAccount': "Don't have an account?",
+  'auth.haveAccount': 'Already have an account?',
+  'auth.checkEmail': 'Check your email for a confirmation link!',
+  'auth.error.unexpected': 'An unexpected error occurred',
+  'auth.error.google': 'Failed to sign in with Google',
+
+  'more.suggest': 'Suggest a Place',
+  'more.suggest.description': 'Add a restaurant to our map',
+  'more.share': 'Share',
+  'more.share.description': 'Share this map with friends',
+  'more.shareText': 'Find halal restaurants in Tokyo and Japan!',
+  'more.linkCopied': 'Link copied to clipboard!',
+  'more.feedback': 'Feedback',
+  'more.feedback.description': 'Help us improve',
+  'more.language': 'Language',
+  'more.about': 'About',
+  'more.about.description': 'Tokyo Halal Map v{version}',
+  'more.website': 'Visit Halalicious',
+  'more.website.description': 'Our main website',
+  'more.footer': 'Made with love for the Muslim community in Japan',
+
+  'places.cuisineFallback': 'Halal',
+  'places.reviews': '{count} reviews',
+  'places.reviews_one': '{count} review',
+
+  'chat.history': 'Chat History',
+  'chat.newChat': 'New Chat & Reset Map',
+  'chat.welcome': 'Ask me about halal food in Tokyo!',
+  'chat.quick.ramen': 'Best ramen in Shinjuku 🍜',
+  'chat.quick.yakiniku': 'Halal yakiniku near Shibuya 🥩',
+  'chat.quick.spicy': 'Spicy food in Tokyo 🌶️',
+  'chat.quick.cheap': 'Cheap lunch places 💴',
+  'chat.placeholder': 'Ask a question...',
+  'chat.pleaseWait': 'Please wait...',
+  'chat.send': 'Send',
+  'chat.thinking': 'Thinking...',
+  'chat.retrying': 'Retrying...',
+  'chat.retryingIn': 'Server overloaded. Retrying in {seconds}s...',
+  'chat.retryingNow': 'Retrying now...',
+  'chat.loadingPlaces': 'Loading places...',
+  'chat.mapUpdated': "Okay, I've updated the map.",
+  'chat.guestQueriesLeft': '{count} free queries left',
+  'chat.guestQueriesLeft_one': '{count} free query left',
+  'chat.signInForUnlimited': 'Sign in for unlimited queries',
+  'chat.signInFree': 'Sign In Free',
+  'chat.guestQuotaReached': "You've used all your free queries! Sign in for free to keep chatting and save your favorites.",
+  'chat.dailyQuotaReached': "You've reached today's chat limit. Please try again later.",
+  'chat.error.generic': 'Something went wrong.',
+  'chat.error.prefix': 'Error: {message}',
+  'chat.error.noResponse': "I didn't get a response. Please try again.",
+  'chat.error.invalidResponse': 'Server returned an invalid response.',
+  'chat.error.connect': 'Failed to connect to AI service. ({status})',
+  'chat.error.timeout': 'Request timed out. Please try again.',
+
+  'history.guestNote': 'Chats are saved on this device. Sign in to keep them in your account.',
+  'history.empty': 'No saved chats yet.',
+  'history.chatTitle': 'Chat title',
+  'history.saveTitle': 'Save title',
+  'history.rename': 'Rename',
+
+  'results.title': 'Results',
+  'results.sort.relevance': 'Best match',
+  'results.sort.rating': 'Rating',
+  'results.sort.distance': 'Distance',
+  'results.sort.halal': 'Halal status',
+  'results.searching': 'Searching...',
+  'results.empty': 'No places match these filters.',
+
+  'favorites.title': 'My Favorites',
+  'favorites.all': 'All Favorites',
+  'favorites.newList': 'New list',
+  'favorites.newList.placeholder': 'e.g. Osaka trip',
+  'favorites.create': 'Create',
+  'favorites.offline': 'Offline - showing favorites saved on this device',
+  'favorites.shareList': 'Share list',
+  'favorites.renameList': 'Rename list',
+  'favorites.deleteList': 'Delete list',
+  'favorites.confirmDelete': 'Delete "{name}"? Its share link will stop working.',
+  'favorites.listNotes': 'Add notes for this list...',
+  'favorites.listEmpty': 'This list is empty.',
+  'favorites.listEmpty.hint': 'Add places from All Favorites.',
+  'favorites.addNote': 'Add a note',
+  'favorites.notePrompt': 'Note for this place',
+  'favorites.moveUp': 'Move up',
+  'favorites.moveDown': 'Move down',
+  'favorites.removeFromList': 'Remove from list',
+  'favorites.addToList': 'Add to list',
+  'favorites.empty': 'No favorites yet!',
+  'favorites.empty.hint': 'Click the heart icon on a place to save it.',
+  'favorites.signInForLists': 'Sign in to organize favorites into lists you can share.',
+  'favorites.error.load': 'Failed to load lists',
+  'favorites.error.create': 'Failed to create list',
+  'favorites.error.update': 'Failed to update list',
+  'favorites.error.delete': 'Failed to delete list',
+  'favorites.error.save': 'Failed to save list',
+
+  'filters.halal': 'Halal',
+  'filters.halal.status': 'Status',
+  'filters.halal.body': 'Certified by',
+  'filters.halal.flags': 'Details',
+  'filters.cuisine': 'Cuisine',
+  'filters.cuisine.category': 'Category',
+  'filters.cuisine.dish': 'Dish',
+  'filters.area': 'Area',
+  'filters.price': 'Price',
+  'filters.features': 'Features',
+  'filters.noOptions': 'No options',
+  'filters.clearMenu': 'Clear {name}',
+  'filters.excluded': 'Not {values}',
+  'filters.removeExclusions': 'Remove exclusions',
+  'filters.nearMe': 'Near Me',
+  'filters.noLocation': 'No Location',
+  'filters.openNow': 'Open Now',
+  'filters.clear': 'Clear',
+
+  'search.placeholder': 'Search ramen, らーめん, Shibuya...',
+  'search.label': 'Search places',
+  'search.clear': 'Clear search',
+
+  'place.addFavorite': 'Add to Favorites',
+  'place.removeFavorite': 'Remove from Favorites',
+  'place.viewPhotos': 'View Photos',
+  'place.noImage': 'No Image Available',
+  'place.loadingDetails': 'Loading details...',
+  'place.detailsUnavailable': 'Google Details unavailable ({status})',
+  'place.missingPlaceId': 'Database missing Place ID connection.',
+  'place.closed': 'Closed',
+  'place.recentReviews': 'Recent Reviews',
+  'place.viewOnGoogleMaps': 'View on Google Maps',
+  'place.photo': 'Photo {number}',
+  'place.previousPhoto': 'Previous photo',
+  'place.nextPhoto': 'Next photo',
+
+  'suggest.subtitle': 'Help us grow our halal restaurant database',
+  'suggest.name': 'Restaurant Name',
+  'suggest.name.placeholder': 'e.g., Halal Ramen Tokyo',
+  'suggest.address': 'Address',
+  'suggest.address.placeholder': 'Full address in Japan',
+  'suggest.city': 'City/Area',
+  'suggest.city.placeholder': 'e.g., Shinjuku, Tokyo',
+  'suggest.cuisine': 'Cuisine Type',
+  'suggest.cuisine.japanese': 'Japanese',
+  'suggest.cuisine.ramen': 'Ramen',
+  'suggest.cuisine.sushi': 'Sushi',
+  'suggest.cuisine.yakiniku': 'Yakiniku',
+  'suggest.cuisine.curry': 'Curry',
+  'suggest.cuisine.indian': 'Indian',
+  'suggest.cuisine.middleEastern': 'Middle Eastern',
+  'suggest.cuisine.turkish': 'Turkish',
+  'suggest.cuisine.indonesian': 'Indonesian',
+  'suggest.cuisine.malaysian': 'Malaysian',
+  'suggest.cuisine.other': 'Other',
+  'suggest.halal.certified': 'Fully Halal Certified',
+  'suggest.halal.muslimFriendly': 'Muslim-Friendly',
+  'suggest.halal.menu': 'Halal Menu Available',
+  'suggest.halal.unknown': 'Not Sure',
+  'suggest.select': 'Select...',
+  'suggest.phone': 'Phone Number',
+  'suggest.website': 'Website or Google Maps Link',
+  'suggest.notes': 'Additional Notes',
+  'suggest.notes.placeholder': 'Any additional information about the restaurant...',
+  'suggest.email': 'Your Email (optional)',
+  'suggest.email.placeholder': "We'll notify you when it's added",
+  'suggest.submit': 'Submit Suggestion',
+  'suggest.submitting': 'Submitting...',
+  'suggest.thanks': 'Thank You!',
+  'suggest.thanks.description': "Your suggestion has been submitted. We'll review it and add it to the map if it meets our criteria.",
+  'suggest.done': 'Done',
+  'suggest.error.required': 'Restaurant name and address are required.',
+  'suggest.error.submit': 'Failed to submit suggestion',
+  'suggest.error.retry': 'Failed to submit. Please try again.',
+
+  'shared.label': 'Shared list',
+  'shared.exploreMore': 'Explore more on {name}',
+
+  'map.askAI': 'Ask AI',
+  'map.restaurant': 'Restaurant',
+  'map.viewDetails': 'View Details',
+  'map.directions': 'Directions',
+  'map.clusterTitle': '{count} places - {status} mostly. Click to zoom in.',
+  'map.error.search': 'Search failed. Please try again.',
+  'map.error.network': 'Network error. Please check your connection.',
+};
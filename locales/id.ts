@@ -0,0 +1,252 @@
+/**
+ * Indonesian messages
+ */
+
+import type { Messages } from '@/lib/i18n';
+
+export const id: Messages = {
+  'app.description': 'Panduan makanan halal di Jepang, didukung AI',
+
+  'common.close': 'Tutup',
+  'common.cancel': 'Batal',
+  'common.save': 'Simpan',
+  'common.delete': 'Hapus',
+  'common.loading': 'Memuat...',
+  'common.view': 'Lihat →',
+
+  'halal.certified': 'Bersertifikat Halal',
+  'halal.certified.description': 'Restoran bersertifikat halal resmi',
+  'halal.muslimFriendly': 'Ramah Muslim',
+  'halal.muslimFriendly.description': 'Menyediakan makanan yang sesuai untuk Muslim',
+  'halal.unverified': 'Belum Terverifikasi',
+  'halal.unverified.description': 'Status halal belum diverifikasi',
+
+  'halal.flag.no_alcohol': 'Tidak menyajikan alkohol',
+  'halal.flag.halal_meat_only': 'Hanya daging halal',
+  'halal.flag.prayer_space': 'Tempat salat',
+
+  'certification.title': 'Sertifikasi Halal',
+  'certification.body': 'Disertifikasi oleh',
+  'certification.number': 'No. Sertifikat',
+  'certification.scope': 'Cakupan',
+  'certification.scope.restaurant': 'Seluruh restoran',
+  'certification.scope.menu': 'Menu tertentu',
+  'certification.scope.ingredients': 'Bahan saja',
+  'certification.issued': 'Diterbitkan',
+  'certification.expires': 'Berlaku hingga',
+  'certification.evidence': 'Lihat sertifikat',
+  'certification.none': 'Tidak ada sertifikat tercatat',
+  'certification.lastVerified': 'Terakhir diverifikasi',
+  'certification.warning.expired': 'Sertifikat ini sudah kedaluwarsa. Tanyakan ke restoran sebelum berkunjung.',
+  'certification.warning.stale': 'Belum diverifikasi baru-baru ini. Status halal mungkin sudah berubah.',
+
+  'legend.title': 'Keterangan Peta',
+  'legend.toggle': 'Tampilkan atau sembunyikan keterangan peta',
+  'legend.help': 'Ketuk pin mana pun untuk detail, atau klaster bernomor untuk memperbesar. Warna klaster mengikuti status yang paling banyak. Restoran bersertifikat telah diverifikasi oleh lembaga sertifikasi halal resmi.',
+
+  'menu.list': 'Daftar',
+  'menu.favorites': 'Favorit',
+  'menu.promos': 'Promo',
+  'menu.featured': 'Unggulan',
+  'menu.more': 'Lainnya',
+
+  'auth.signIn': 'Masuk',
+  'auth.signedIn': 'Sudah masuk',
+  'auth.signOut': 'Keluar',
+  'auth.signUp': 'Daftar',
+  'auth.signInLink': 'Masuk',
+  'auth.welcomeBack': 'Selamat Datang Kembali',
+  'auth.createAccount': 'Buat Akun',
+  'auth.signIn.subtitle': 'Masuk untuk menggunakan fitur chat AI',
+  'auth.signUp.subtitle': 'Daftar untuk mulai mencari makanan halal',
+  'auth.continueWithGoogle': 'Lanjutkan dengan Google',
+  'auth.or': 'atau',
+  'auth.email': 'Email',
+  'auth.password': 'Kata Sandi',
+  'auth.password.create': 'Buat kata sandi',
+  'auth.password.enter': 'Masukkan kata sandi Anda',
+  'auth.signingIn': 'Sedang masuk...',
+  'auth.creatingAccount': 'Membuat akun...',
+  'auth.noAccount': 'Belum punya akun?',
+  'auth.haveAccount': 'Sudah punya akun?',
+  'auth.checkEmail': 'Periksa email Anda untuk tautan konfirmasi!',
+  'auth.error.unexpected': 'Terjadi kesalahan yang tidak terduga',
+  'auth.error.google': 'Gagal masuk dengan Google',
+
+  'more.suggest': 'Usulkan Tempat',
+  'more.suggest.description': 'Tambahkan restoran ke peta kami',
+  'more.share': 'Bagikan',
+  'more.share.description': 'Bagikan peta ini dengan teman',
+  'more.shareText': 'Temukan restoran halal di Tokyo dan Jepang!',
+  'more.linkCopied': 'Tautan disalin ke papan klip!',
+  'more.feedback': 'Masukan',
+  'more.feedback.description': 'Bantu kami menjadi lebih baik',
+  'more.language': 'Bahasa',
+  'more.about': 'Tentang',
+  'more.about.description': 'Tokyo Halal Map v{version}',
+  'more.website': 'Kunjungi Halalicious',
+  'more.website.description': 'Situs web utama kami',
+  'more.footer': 'Dibuat dengan cinta untuk komunitas Muslim di Jepang',
+
+  'places.cuisineFallback': 'Halal',
+  'places.reviews': '{count} ulasan',
+  'places.reviews_one': '{count} ulasan',
+
+  'chat.history': 'Riwayat Chat',
+  'chat.newChat': 'Chat Baru & Atur Ulang Peta',
+  'chat.welcome': 'Tanyakan tentang makanan halal di Tokyo!',
+  'chat.quick.ramen': 'Ramen terbaik di Shinjuku 🍜',
+  'chat.quick.yakiniku': 'Yakiniku halal dekat Shibuya 🥩',
+  'chat.quick.spicy': 'Makanan pedas di Tokyo 🌶️',
+  'chat.quick.cheap': 'Tempat makan siang murah 💴',
+  'chat.placeholder': 'Ajukan pertanyaan...',
+  'chat.pleaseWait': 'Mohon tunggu...',
+  'chat.send': 'Kirim',
+  'chat.thinking': 'Sedang berpikir...',
+  'chat.retrying': 'Mencoba lagi...',
+  'chat.retryingIn': 'Server sedang sibuk. Mencoba lagi dalam {seconds} detik...',
+  'chat.retryingNow': 'Mencoba lagi sekarang...',
+  'chat.loadingPlaces': 'Memuat tempat...',
+  'chat.mapUpdated': 'Oke, peta sudah saya perbarui.',
+  'chat.guestQueriesLeft': 'Sisa {count} pertanyaan gratis',
+  'chat.guestQueriesLeft_one': 'Sisa {count} pertanyaan gratis',
+  'chat.signInForUnlimited': 'Masuk untuk pertanyaan tanpa batas',
+  'chat.signInFree': 'Masuk Gratis',
+  'chat.guestQuotaReached': 'Pertanyaan gratis Anda sudah habis! Masuk secara gratis untuk terus mengobrol dan menyimpan favorit Anda.',
+  'chat.dailyQuotaReached': 'Anda telah mencapai batas chat hari ini. Silakan coba lagi nanti.',
+  'chat.error.generic': 'Terjadi kesalahan.',
+  'chat.error.prefix': 'Kesalahan: {message}',
+  'chat.error.noResponse': 'Tidak ada jawaban. Silakan coba lagi.',
+  'chat.error.invalidResponse': 'Server mengembalikan respons yang tidak valid.',
+  'chat.error.connect': 'Gagal terhubung ke layanan AI. ({status})',
+  'chat.error.timeout': 'Waktu permintaan habis. Silakan coba lagi.',
+
+  'history.guestNote': 'Chat disimpan di perangkat ini. Masuk untuk menyimpannya di akun Anda.',
+  'history.empty': 'Belum ada chat yang disimpan.',
+  'history.chatTitle': 'Judul chat',
+  'history.saveTitle': 'Simpan judul',
+  'history.rename': 'Ganti nama',
+
+  'results.title': 'Hasil',
+  'results.sort.relevance': 'Paling sesuai',
+  'results.sort.rating': 'Rating',
+  'results.sort.distance': 'Jarak',
+  'results.sort.halal': 'Status halal',
+  'results.searching': 'Mencari...',
+  'results.empty': 'Tidak ada tempat yang sesuai dengan filter ini.',
+
+  'favorites.title': 'Favorit Saya',
+  'favorites.all': 'Semua Favorit',
+  'favorites.newList': 'Daftar baru',
+  'favorites.newList.placeholder': 'mis. Liburan ke Osaka',
+  'favorites.create': 'Buat',
+  'favorites.offline': 'Offline - menampilkan favorit yang tersimpan di perangkat ini',
+  'favorites.shareList': 'Bagikan daftar',
+  'favorites.renameList': 'Ganti nama daftar',
+  'favorites.deleteList': 'Hapus daftar',
+  'favorites.confirmDelete': 'Hapus "{name}"? Tautan berbaginya tidak akan berfungsi lagi.',
+  'favorites.listNotes': 'Tambahkan catatan untuk daftar ini...',
+  'favorites.listEmpty': 'Daftar ini kosong.',
+  'favorites.listEmpty.hint': 'Tambahkan tempat dari Semua Favorit.',
+  'favorites.addNote': 'Tambah catatan',
+  'favorites.notePrompt': 'Catatan untuk tempat ini',
+  'favorites.moveUp': 'Pindah ke atas',
+  'favorites.moveDown': 'Pindah ke bawah',
+  'favorites.removeFromList': 'Hapus dari daftar',
+  'favorites.addToList': 'Tambahkan ke daftar',
+  'favorites.empty': 'Belum ada favorit!',
+  'favorites.empty.hint': 'Klik ikon hati pada tempat untuk menyimpannya.',
+  'favorites.signInForLists': 'Masuk untuk mengelompokkan favorit ke dalam daftar yang bisa dibagikan.',
+  'favorites.error.load': 'Gagal memuat daftar',
+  'favorites.error.create': 'Gagal membuat daftar',
+  'favorites.error.update': 'Gagal memperbarui daftar',
+  'favorites.error.delete': 'Gagal menghapus daftar',
+  'favorites.error.save': 'Gagal menyimpan daftar',
+
+  'filters.halal': 'Halal',
+  'filters.halal.status': 'Status',
+  'filters.halal.body': 'Disertifikasi oleh',
+  'filters.halal.flags': 'Detail',
+  'filters.cuisine': 'Masakan',
+  'filters.cuisine.category': 'Kategori',
+  'filters.cuisine.dish': 'Hidangan',
+  'filters.area': 'Area',
+  'filters.price': 'Harga',
+  'filters.features': 'Fitur',
+  'filters.noOptions': 'Tidak ada pilihan',
+  'filters.clearMenu': 'Hapus {name}',
+  'filters.excluded': 'Bukan {values}',
+  'filters.removeExclusions': 'Hapus pengecualian',
+  'filters.nearMe': 'Di Dekat Saya',
+  'filters.noLocation': 'Tanpa Lokasi',
+  'filters.openNow': 'Buka Sekarang',
+  'filters.clear': 'Hapus',
+
+  'search.placeholder': 'Cari ramen, らーめん, Shibuya...',
+  'search.label': 'Cari tempat',
+  'search.clear': 'Hapus pencarian',
+
+  'place.addFavorite': 'Tambahkan ke Favorit',
+  'place.removeFavorite': 'Hapus dari Favorit',
+  'place.viewPhotos': 'Lihat Foto',
+  'place.noImage': 'Tidak Ada Gambar',
+  'place.loadingDetails': 'Memuat detail...',
+  'place.detailsUnavailable': 'Detail Google tidak tersedia ({status})',
+  'place.missingPlaceId': 'Database belum terhubung dengan Place ID.',
+  'place.closed': 'Tutup',
+  'place.recentReviews': 'Ulasan Terbaru',
+  'place.viewOnGoogleMaps': 'Lihat di Google Maps',
+  'place.photo': 'Foto {number}',
+  'place.previousPhoto': 'Foto sebelumnya',
+  'place.nextPhoto': 'Foto berikutnya',
+
+  'suggest.subtitle': 'Bantu kami mengembangkan database restoran halal',
+  'suggest.name': 'Nama Restoran',
+  'suggest.name.placeholder': 'mis. Halal Ramen Tokyo',
+  'suggest.address': 'Alamat',
+  'suggest.address.placeholder': 'Alamat lengkap di Jepang',
+  'suggest.city': 'Kota/Area',
+  'suggest.city.placeholder': 'mis. Shinjuku, Tokyo',
+  'suggest.cuisine': 'Jenis Masakan',
+  'suggest.cuisine.japanese': 'Jepang',
+  'suggest.cuisine.ramen': 'Ramen',
+  'suggest.cuisine.sushi': 'Sushi',
+  'suggest.cuisine.yakiniku': 'Yakiniku',
+  'suggest.cuisine.curry': 'Kari',
+  'suggest.cuisine.indian': 'India',
+  'suggest.cuisine.middleEastern': 'Timur Tengah',
+  'suggest.cuisine.turkish': 'Turki',
+  'suggest.cuisine.indonesian': 'Indonesia',
+  'suggest.cuisine.malaysian': 'Malaysia',
+  'suggest.cuisine.other': 'Lainnya',
+  'suggest.halal.certified': 'Bersertifikat Halal Penuh',
+  'suggest.halal.muslimFriendly': 'Ramah Muslim',
+  'suggest.halal.menu': 'Ada Menu Halal',
+  'suggest.halal.unknown': 'Tidak Yakin',
+  'suggest.select': 'Pilih...',
+  'suggest.phone': 'Nomor Telepon',
+  'suggest.website': 'Situs Web atau Tautan Google Maps',
+  'suggest.notes': 'Catatan Tambahan',
+  'suggest.notes.placeholder': 'Informasi lain tentang restoran ini...',
+  'suggest.email': 'Email Anda (opsional)',
+  'suggest.email.placeholder': 'Kami akan memberi tahu Anda saat sudah ditambahkan',
+  'suggest.submit': 'Kirim Usulan',
+  'suggest.submitting': 'Mengirim...',
+  'suggest.thanks': 'Terima Kasih!',
+  'suggest.thanks.description': 'Usulan Anda sudah terkirim. Kami akan meninjaunya dan menambahkannya ke peta jika memenuhi kriteria kami.',
+  'suggest.done': 'Selesai',
+  'suggest.error.required': 'Nama restoran dan alamat wajib diisi.',
+  'suggest.error.submit': 'Gagal mengirim usulan',
+  'suggest.error.retry': 'Gagal mengirim. Silakan coba lagi.',
+
+  'shared.label': 'Daftar yang dibagikan',
+  'shared.exploreMore': 'Jelajahi lebih banyak di {name}',
+
+  'map.askAI': 'Tanya AI',
+  'map.restaurant': 'Restoran',
+  'map.viewDetails': 'Lihat Detail',
+  'map.directions': 'Rute',
+  'map.clusterTitle': '{count} tempat - sebagian besar {status}. Klik untuk memperbesar.',
+  'map.error.search': 'Pencarian gagal. Silakan coba lagi.',
+  'map.error.network': 'Kesalahan jaringan. Periksa koneksi Anda.',
+};
@@ -0,0 +1,252 @@
+/**
+ * Japanese messages
+ */
+
+import type { Messages } from '@/lib/i18n';
+
+export const ja: Messages = {
+  'app.description': 'AIが案内する日本のハラールグルメガイド',
+
+  'common.close': '閉じる',
+  'common.cancel': 'キャンセル',
+  'common.save': '保存',
+  'common.delete': '削除',
+  'common.loading': '読み込み中...',
+  'common.view': '見る →',
+
+  'halal.certified': 'ハラール認証',
+  'halal.certified.description': '公式にハラール認証を受けたレストラン',
+  'halal.muslimFriendly': 'ムスリムフレンドリー',
+  'halal.muslimFriendly.description': 'ムスリムの食事制限に対応',
+  'halal.unverified': '未確認',
+  'halal.unverified.description': 'ハラール状況はまだ確認されていません',
+
+  'halal.flag.no_alcohol': 'アルコール提供なし',
+  'halal.flag.halal_meat_only': 'ハラール肉のみ使用',
+  'halal.flag.prayer_space': '礼拝スペースあり',
+
+  'certification.title': 'ハラール認証',
+  'certification.body': '認証機関',
+  'certification.number': '認証番号',
+  'certification.scope': '認証範囲',
+  'certification.scope.restaurant': '店舗全体',
+  'certification.scope.menu': '一部のメニュー',
+  'certification.scope.ingredients': '食材のみ',
+  'certification.issued': '発行日',
+  'certification.expires': '有効期限',
+  'certification.evidence': '認証書を見る',
+  'certification.none': '登録された認証はありません',
+  'certification.lastVerified': '最終確認日',
+  'certification.warning.expired': 'この認証は有効期限が切れています。ご来店前にお店にご確認ください。',
+  'certification.warning.stale': '最近確認されていません。ハラール状況が変わっている可能性があります。',
+
+  'legend.title': '地図の凡例',
+  'legend.toggle': '凡例の表示切り替え',
+  'legend.help': 'ピンをタップすると詳細を、数字のクラスターをタップすると拡大表示します。クラスターの色は最も多いステータスの色です。認証済みのレストランは公式のハラール認証機関によって確認されています。',
+
+  'menu.list': 'リスト',
+  'menu.favorites': 'お気に入り',
+  'menu.promos': 'キャンペーン',
+  'menu.featured': 'おすすめ',
+  'menu.more': 'その他',
+
+  'auth.signIn': 'ログイン',
+  'auth.signedIn': 'ログイン中',
+  'auth.signOut': 'ログアウト',
+  'auth.signUp': '新規登録',
+  'auth.signInLink': 'ログイン',
+  'auth.welcomeBack': 'おかえりなさい',
+  'auth.createAccount': 'アカウント作成',
+  'auth.signIn.subtitle': 'ログインするとAIチャットを利用できます',
+  'auth.signUp.subtitle': '登録してハラールフードを探しましょう',
+  'auth.continueWithGoogle': 'Googleで続ける',
+  'auth.or': 'または',
+  'auth.email': 'メールアドレス',
+  'auth.password': 'パスワード',
+  'auth.password.create': 'パスワードを作成',
+  'auth.password.enter': 'パスワードを入力',
+  'auth.signingIn': 'ログイン中...',
+  'auth.creatingAccount': 'アカウント作成中...',
+  'auth.noAccount': 'アカウントをお持ちでないですか？',
+  'auth.haveAccount': 'すでにアカウントをお持ちですか？',
+  'auth.checkEmail': '確認リンクをメールで送信しました。',
+  'auth.error.unexpected': '予期しないエラーが発生しました',
+  'auth.error.google': 'Googleでのログインに失敗しました',
+
+  'more.suggest': 'お店を提案',
+  'more.suggest.description': 'レストランを地図に追加',
+  'more.share': '共有',
+  'more.share.description': 'この地図を友達と共有',
+  'more.shareText': '東京・日本のハラールレストランを探そう！',
+  'more.linkCopied': 'リンクをコピーしました！',
+  'more.feedback': 'フィードバック',
+  'more.feedback.description': '改善にご協力ください',
+  'more.language': '言語',
+  'more.about': 'このアプリについて',
+  'more.about.description': 'Tokyo Halal Map v{version}',
+  'more.website': 'Halaliciousを見る',
+  'more.website.description': '公式ウェブサイト',
+  'more.footer': '日本のムスリムコミュニティのために心を込めて',
+
+  'places.cuisineFallback': 'ハラール',
+  'places.reviews': '{count}件のレビュー',
+  'places.reviews_one': '{count}件のレビュー',
+
+  'chat.history': 'チャット履歴',
+  'chat.newChat': '新しいチャット・地図をリセット',
+  'chat.welcome': '東京のハラールフードについて聞いてください！',
+  'chat.quick.ramen': '新宿のおすすめラーメン 🍜',
+  'chat.quick.yakiniku': '渋谷周辺のハラール焼肉 🥩',
+  'chat.quick.spicy': '東京の辛い料理 🌶️',
+  'chat.quick.cheap': '安いランチのお店 💴',
+  'chat.placeholder': '質問を入力...',
+  'chat.pleaseWait': 'お待ちください...',
+  'chat.send': '送信',
+  'chat.thinking': '考え中...',
+  'chat.retrying': '再試行中...',
+  'chat.retryingIn': 'サーバーが混雑しています。{seconds}秒後に再試行します...',
+  'chat.retryingNow': '再試行しています...',
+  'chat.loadingPlaces': 'お店を読み込み中...',
+  'chat.mapUpdated': '地図を更新しました。',
+  'chat.guestQueriesLeft': '無料の質問はあと{count}回',
+  'chat.guestQueriesLeft_one': '無料の質問はあと{count}回',
+  'chat.signInForUnlimited': 'ログインすると無制限に質問できます',
+  'chat.signInFree': '無料でログイン',
+  'chat.guestQuotaReached': '無料の質問をすべて使いました！無料でログインすると、チャットを続けてお気に入りを保存できます。',
+  'chat.dailyQuotaReached': '本日のチャット上限に達しました。しばらくしてからお試しください。',
+  'chat.error.generic': '問題が発生しました。',
+  'chat.error.prefix': 'エラー: {message}',
+  'chat.error.noResponse': '応答がありませんでした。もう一度お試しください。',
+  'chat.error.invalidResponse': 'サーバーから無効な応答が返されました。',
+  'chat.error.connect': 'AIサービスに接続できませんでした。({status})',
+  'chat.error.timeout': 'タイムアウトしました。もう一度お試しください。',
+
+  'history.guestNote': 'チャットはこの端末に保存されます。ログインするとアカウントに保存できます。',
+  'history.empty': '保存されたチャットはまだありません。',
+  'history.chatTitle': 'チャットのタイトル',
+  'history.saveTitle': 'タイトルを保存',
+  'history.rename': '名前を変更',
+
+  'results.title': '検索結果',
+  'results.sort.relevance': '関連度順',
+  'results.sort.rating': '評価順',
+  'results.sort.distance': '距離順',
+  'results.sort.halal': 'ハラール状況順',
+  'results.searching': '検索中...',
+  'results.empty': '条件に合うお店はありません。',
+
+  'favorites.title': 'お気に入り',
+  'favorites.all': 'すべてのお気に入り',
+  'favorites.newList': '新しいリスト',
+  'favorites.newList.placeholder': '例: 大阪旅行',
+  'favorites.create': '作成',
+  'favorites.offline': 'オフライン - この端末に保存されたお気に入りを表示しています',
+  'favorites.shareList': 'リストを共有',
+  'favorites.renameList': 'リスト名を変更',
+  'favorites.deleteList': 'リストを削除',
+  'favorites.confirmDelete': '「{name}」を削除しますか？共有リンクは使えなくなります。',
+  'favorites.listNotes': 'このリストのメモを追加...',
+  'favorites.listEmpty': 'このリストは空です。',
+  'favorites.listEmpty.hint': '「すべてのお気に入り」からお店を追加してください。',
+  'favorites.addNote': 'メモを追加',
+  'favorites.notePrompt': 'このお店のメモ',
+  'favorites.moveUp': '上へ移動',
+  'favorites.moveDown': '下へ移動',
+  'favorites.removeFromList': 'リストから削除',
+  'favorites.addToList': 'リストに追加',
+  'favorites.empty': 'お気に入りはまだありません！',
+  'favorites.empty.hint': 'お店のハートアイコンをクリックして保存しましょう。',
+  'favorites.signInForLists': 'ログインすると、お気に入りを共有できるリストに整理できます。',
+  'favorites.error.load': 'リストを読み込めませんでした',
+  'favorites.error.create': 'リストを作成できませんでした',
+  'favorites.error.update': 'リストを更新できませんでした',
+  'favorites.error.delete': 'リストを削除できませんでした',
+  'favorites.error.save': 'リストを保存できませんでした',
+
+  'filters.halal': 'ハラール',
+  'filters.halal.status': 'ステータス',
+  'filters.halal.body': '認証機関',
+  'filters.halal.flags': '詳細',
+  'filters.cuisine': '料理',
+  'filters.cuisine.category': 'カテゴリー',
+  'filters.cuisine.dish': '料理名',
+  'filters.area': 'エリア',
+  'filters.price': '価格',
+  'filters.features': '特徴',
+  'filters.noOptions': '選択肢がありません',
+  'filters.clearMenu': '{name}をクリア',
+  'filters.excluded': '{values}以外',
+  'filters.removeExclusions': '除外を解除',
+  'filters.nearMe': '現在地周辺',
+  'filters.noLocation': '位置情報なし',
+  'filters.openNow': '営業中',
+  'filters.clear': 'クリア',
+
+  'search.placeholder': 'ラーメン、ramen、渋谷などで検索...',
+  'search.label': 'お店を検索',
+  'search.clear': '検索をクリア',
+
+  'place.addFavorite': 'お気に入りに追加',
+  'place.removeFavorite': 'お気に入りから削除',
+  'place.viewPhotos': '写真を見る',
+  'place.noImage': '画像がありません',
+  'place.loadingDetails': '詳細を読み込み中...',
+  'place.detailsUnavailable': 'Googleの詳細情報を取得できません ({status})',
+  'place.missingPlaceId': 'データベースにPlace IDが登録されていません。',
+  'place.closed': '営業時間外',
+  'place.recentReviews': '最近のレビュー',
+  'place.viewOnGoogleMaps': 'Googleマップで見る',
+  'place.photo': '写真 {number}',
+  'place.previousPhoto': '前の写真',
+  'place.nextPhoto': '次の写真',
+
+  'suggest.subtitle': 'ハラールレストランのデータベース作りにご協力ください',
+  'suggest.name': 'レストラン名',
+  'suggest.name.placeholder': '例: ハラールラーメン東京',
+  'suggest.address': '住所',
+  'suggest.address.placeholder': '日本国内の住所',
+  'suggest.city': '市区町村・エリア',
+  'suggest.city.placeholder': '例: 東京都新宿区',
+  'suggest.cuisine': '料理の種類',
+  'suggest.cuisine.japanese': '和食',
+  'suggest.cuisine.ramen': 'ラーメン',
+  'suggest.cuisine.sushi': '寿司',
+  'suggest.cuisine.yakiniku': '焼肉',
+  'suggest.cuisine.curry': 'カレー',
+  'suggest.cuisine.indian': 'インド料理',
+  'suggest.cuisine.middleEastern': '中東料理',
+  'suggest.cuisine.turkish': 'トルコ料理',
+  'suggest.cuisine.indonesian': 'インドネシア料理',
+  'suggest.cuisine.malaysian': 'マレーシア料理',
+  'suggest.cuisine.other': 'その他',
+  'suggest.halal.certified': 'ハラール認証あり',
+  'suggest.halal.muslimFriendly': 'ムスリムフレンドリー',
+  'suggest.halal.menu': 'ハラールメニューあり',
+  'suggest.halal.unknown': 'わからない',
+  'suggest.select': '選択してください...',
+  'suggest.phone': '電話番号',
+  'suggest.website': 'ウェブサイトまたはGoogleマップのリンク',
+  'suggest.notes': '補足情報',
+  'suggest.notes.placeholder': 'お店についてのその他の情報...',
+  'suggest.email': 'メールアドレス（任意）',
+  'suggest.email.placeholder': '追加されたらお知らせします',
+  'suggest.submit': '提案を送信',
+  'suggest.submitting': '送信中...',
+  'suggest.thanks': 'ありがとうございます！',
+  'suggest.thanks.description': 'ご提案を受け付けました。内容を確認し、基準を満たしていれば地図に追加します。',
+  'suggest.done': '完了',
+  'suggest.error.required': 'レストラン名と住所は必須です。',
+  'suggest.error.submit': '提案を送信できませんでした',
+  'suggest.error.retry': '送信できませんでした。もう一度お試しください。',
+
+  'shared.label': '共有リスト',
+  'shared.exploreMore': '{name}でもっと探す',
+
+  'map.askAI': 'AIに聞く',
+  'map.restaurant': 'レストラン',
+  'map.viewDetails': '詳細を見る',
+  'map.directions': '経路',
+  'map.clusterTitle': '{count}件 - 主に{status}。クリックで拡大します。',
+  'map.error.search': '検索に失敗しました。もう一度お試しください。',
+  'map.error.network': 'ネットワークエラーです。接続を確認してください。',
+};
@@ -0,0 +1,252 @@
+/**
+ * Malay messages
+ */
+
+import type { Messages } from '@/lib/i18n';
+
+export const ms: Messages = {
+  'app.description': 'Panduan makanan halal di Jepun, dikuasakan AI',
+
+  'common.close': 'Tutup',
+  'common.cancel': 'Batal',
+  'common.save': 'Simpan',
+  'common.delete': 'Padam',
+  'common.loading': 'Memuatkan...',
+  'common.view': 'Lihat →',
+
+  'halal.certified': 'Disahkan Halal',
+  'halal.certified.description': 'Restoran yang disahkan halal secara rasmi',
+  'halal.muslimFriendly': 'Mesra Muslim',
+  'halal.muslimFriendly.description': 'Menyediakan makanan yang sesuai untuk Muslim',
+  'halal.unverified': 'Belum Disahkan',
+  'halal.unverified.description': 'Status halal belum disahkan',
+
+  'halal.flag.no_alcohol': 'Tiada alkohol dihidangkan',
+  'halal.flag.halal_meat_only': 'Daging halal sahaja',
+  'halal.flag.prayer_space': 'Ruang solat',
+
+  'certification.title': 'Pensijilan Halal',
+  'certification.body': 'Disahkan oleh',
+  'certification.number': 'No. Sijil',
+  'certification.scope': 'Liputan',
+  'certification.scope.restaurant': 'Seluruh restoran',
+  'certification.scope.menu': 'Menu terpilih',
+  'certification.scope.ingredients': 'Bahan sahaja',
+  'certification.issued': 'Dikeluarkan',
+  'certification.expires': 'Tamat tempoh',
+  'certification.evidence': 'Lihat sijil',
+  'certification.none': 'Tiada sijil dalam rekod',
+  'certification.lastVerified': 'Kali terakhir disahkan',
+  'certification.warning.expired': 'Sijil ini telah tamat tempoh. Semak dengan restoran sebelum berkunjung.',
+  'certification.warning.stale': 'Belum disahkan baru-baru ini. Status halal mungkin telah berubah.',
+
+  'legend.title': 'Petunjuk Peta',
+  'legend.toggle': 'Tunjuk atau sembunyikan petunjuk peta',
+  'legend.help': 'Ketik mana-mana pin untuk butiran, atau kelompok bernombor untuk zum masuk. Warna kelompok mengikut status yang paling banyak. Restoran yang disahkan telah disemak oleh badan pensijilan halal rasmi.',
+
+  'menu.list': 'Senarai',
+  'menu.favorites': 'Kegemaran',
+  'menu.promos': 'Promosi',
+  'menu.featured': 'Pilihan',
+  'menu.more': 'Lagi',
+
+  'auth.signIn': 'Log Masuk',
+  'auth.signedIn': 'Telah log masuk',
+  'auth.signOut': 'Log Keluar',
+  'auth.signUp': 'Daftar',
+  'auth.signInLink': 'Log masuk',
+  'auth.welcomeBack': 'Selamat Kembali',
+  'auth.createAccount': 'Cipta Akaun',
+  'auth.signIn.subtitle': 'Log masuk untuk menggunakan sembang AI',
+  'auth.signUp.subtitle': 'Daftar untuk mula mencari makanan halal',
+  'auth.continueWithGoogle': 'Teruskan dengan Google',
+  'auth.or': 'atau',
+  'auth.email': 'E-mel',
+  'auth.password': 'Kata Laluan',
+  'auth.password.create': 'Cipta kata laluan',
+  'auth.password.enter': 'Masukkan kata laluan anda',
+  'auth.signingIn': 'Sedang log masuk...',
+  'auth.creatingAccount': 'Sedang mencipta akaun...',
+  'auth.noAccount': 'Belum mempunyai akaun?',
+  'auth.haveAccount': 'Sudah mempunyai akaun?',
+  'auth.checkEmail': 'Semak e-mel anda untuk pautan pengesahan!',
+  'auth.error.unexpected': 'Ralat yang tidak dijangka berlaku',
+  'auth.error.google': 'Gagal log masuk dengan Google',
+
+  'more.suggest': 'Cadangkan Tempat',
+  'more.suggest.description': 'Tambah restoran ke peta kami',
+  'more.share': 'Kongsi',
+  'more.share.description': 'Kongsi peta ini dengan rakan',
+  'more.shareText': 'Cari restoran halal di Tokyo dan Jepun!',
+  'more.linkCopied': 'Pautan disalin ke papan keratan!',
+  'more.feedback': 'Maklum Balas',
+  'more.feedback.description': 'Bantu kami menambah baik',
+  'more.language': 'Bahasa',
+  'more.about': 'Perihal',
+  'more.about.description': 'Tokyo Halal Map v{version}',
+  'more.website': 'Lawati Halalicious',
+  'more.website.description': 'Laman web utama kami',
+  'more.footer': 'Dibuat dengan kasih sayang untuk komuniti Muslim di Jepun',
+
+  'places.cuisineFallback': 'Halal',
+  'places.reviews': '{count} ulasan',
+  'places.reviews_one': '{count} ulasan',
+
+  'chat.history': 'Sejarah Sembang',
+  'chat.newChat': 'Sembang Baharu & Set Semula Peta',
+  'chat.welcome': 'Tanya saya tentang makanan halal di Tokyo!',
+  'chat.quick.ramen': 'Ramen terbaik di Shinjuku 🍜',
+  'chat.quick.yakiniku': 'Yakiniku halal berhampiran Shibuya 🥩',
+  'chat.quick.spicy': 'Makanan pedas di Tokyo 🌶️',
+  'chat.quick.cheap': 'Tempat makan tengah hari yang murah 💴',
+  'chat.placeholder': 'Tanya soalan...',
+  'chat.pleaseWait': 'Sila tunggu...',
+  'chat.send': 'Hantar',
+  'chat.thinking': 'Sedang berfikir...',
+  'chat.retrying': 'Mencuba semula...',
+  'chat.retryingIn': 'Pelayan sibuk. Mencuba semula dalam {seconds}s...',
+  'chat.retryingNow': 'Mencuba semula sekarang...',
+  'chat.loadingPlaces': 'Memuatkan tempat...',
+  'chat.mapUpdated': 'Baik, saya telah mengemas kini peta.',
+  'chat.guestQueriesLeft': '{count} soalan percuma lagi',
+  'chat.guestQueriesLeft_one': '{count} soalan percuma lagi',
+  'chat.signInForUnlimited': 'Log masuk untuk soalan tanpa had',
+  'chat.signInFree': 'Log Masuk Percuma',
+  'chat.guestQuotaReached': 'Anda telah menggunakan semua soalan percuma! Log masuk secara percuma untuk terus bersembang dan menyimpan kegemaran anda.',
+  'chat.dailyQuotaReached': 'Anda telah mencapai had sembang hari ini. Sila cuba lagi kemudian.',
+  'chat.error.generic': 'Sesuatu tidak kena.',
+  'chat.error.prefix': 'Ralat: {message}',
+  'chat.error.noResponse': 'Tiada jawapan diterima. Sila cuba lagi.',
+  'chat.error.invalidResponse': 'Pelayan memberikan jawapan yang tidak sah.',
+  'chat.error.connect': 'Gagal menyambung ke perkhidmatan AI. ({status})',
+  'chat.error.timeout': 'Permintaan tamat masa. Sila cuba lagi.',
+
+  'history.guestNote': 'Sembang disimpan pada peranti ini. Log masuk untuk menyimpannya dalam akaun anda.',
+  'history.empty': 'Belum ada sembang yang disimpan.',
+  'history.chatTitle': 'Tajuk sembang',
+  'history.saveTitle': 'Simpan tajuk',
+  'history.rename': 'Namakan semula',
+
+  'results.title': 'Keputusan',
+  'results.sort.relevance': 'Paling sepadan',
+  'results.sort.rating': 'Penilaian',
+  'results.sort.distance': 'Jarak',
+  'results.sort.halal': 'Status halal',
+  'results.searching': 'Mencari...',
+  'results.empty': 'Tiada tempat yang sepadan dengan penapis ini.',
+
+  'favorites.title': 'Kegemaran Saya',
+  'favorites.all': 'Semua Kegemaran',
+  'favorites.newList': 'Senarai baharu',
+  'favorites.newList.placeholder': 'cth. Percutian ke Osaka',
+  'favorites.create': 'Cipta',
+  'favorites.offline': 'Luar talian - menunjukkan kegemaran yang disimpan pada peranti ini',
+  'favorites.shareList': 'Kongsi senarai',
+  'favorites.renameList': 'Namakan semula senarai',
+  'favorites.deleteList': 'Padam senarai',
+  'favorites.confirmDelete': 'Padam "{name}"? Pautan kongsinya tidak akan berfungsi lagi.',
+  'favorites.listNotes': 'Tambah nota untuk senarai ini...',
+  'favorites.listEmpty': 'Senarai ini kosong.',
+  'favorites.listEmpty.hint': 'Tambah tempat daripada Semua Kegemaran.',
+  'favorites.addNote': 'Tambah nota',
+  'favorites.notePrompt': 'Nota untuk tempat ini',
+  'favorites.moveUp': 'Alih ke atas',
+  'favorites.moveDown': 'Alih ke bawah',
+  'favorites.removeFromList': 'Buang daripada senarai',
+  'favorites.addToList': 'Tambah ke senarai',
+  'favorites.empty': 'Belum ada kegemaran!',
+  'favorites.empty.hint': 'Klik ikon hati pada sesuatu tempat untuk menyimpannya.',
+  'favorites.signInForLists': 'Log masuk untuk menyusun kegemaran ke dalam senarai yang boleh dikongsi.',
+  'favorites.error.load': 'Gagal memuatkan senarai',
+  'favorites.error.create': 'Gagal mencipta senarai',
+  'favorites.error.update': 'Gagal mengemas kini senarai',
+  'favorites.error.delete': 'Gagal memadam senarai',
+  'favorites.error.save': 'Gagal menyimpan senarai',
+
+  'filters.halal': 'Halal',
+  'filters.halal.status': 'Status',
+  'filters.halal.body': 'Disahkan oleh',
+  'filters.halal.flags': 'Butiran',
+  'filters.cuisine': 'Masakan',
+  'filters.cuisine.category': 'Kategori',
+  'filters.cuisine.dish': 'Hidangan',
+  'filters.area': 'Kawasan',
+  'filters.price': 'Harga',
+  'filters.features': 'Ciri-ciri',
+  'filters.noOptions': 'Tiada pilihan',
+  'filters.clearMenu': 'Kosongkan {name}',
+  'filters.excluded': 'Bukan {values}',
+  'filters.removeExclusions': 'Buang pengecualian',
+  'filters.nearMe': 'Berhampiran Saya',
+  'filters.noLocation': 'Tiada Lokasi',
+  'filters.openNow': 'Dibuka Sekarang',
+  'filters.clear': 'Kosongkan',
+
+  'search.placeholder': 'Cari ramen, らーめん, Shibuya...',
+  'search.label': 'Cari tempat',
+  'search.clear': 'Kosongkan carian',
+
+  'place.addFavorite': 'Tambah ke Kegemaran',
+  'place.removeFavorite': 'Buang daripada Kegemaran',
+  'place.viewPhotos': 'Lihat Foto',
+  'place.noImage': 'Tiada Gambar',
+  'place.loadingDetails': 'Memuatkan butiran...',
+  'place.detailsUnavailable': 'Butiran Google tidak tersedia ({status})',
+  'place.missingPlaceId': 'Pangkalan data tiada sambungan Place ID.',
+  'place.closed': 'Tutup',
+  'place.recentReviews': 'Ulasan Terkini',
+  'place.viewOnGoogleMaps': 'Lihat di Google Maps',
+  'place.photo': 'Foto {number}',
+  'place.previousPhoto': 'Foto sebelumnya',
+  'place.nextPhoto': 'Foto seterusnya',
+
+  'suggest.subtitle': 'Bantu kami mengembangkan pangkalan data restoran halal',
+  'suggest.name': 'Nama Restoran',
+  'suggest.name.placeholder': 'cth. Halal Ramen Tokyo',
+  'suggest.address': 'Alamat',
+  'suggest.address.placeholder': 'Alamat penuh di Jepun',
+  'suggest.city': 'Bandar/Kawasan',
+  'suggest.city.placeholder': 'cth. Shinjuku, Tokyo',
+  'suggest.cuisine': 'Jenis Masakan',
+  'suggest.cuisine.japanese': 'Jepun',
+  'suggest.cuisine.ramen': 'Ramen',
+  'suggest.cuisine.sushi': 'Sushi',
+  'suggest.cuisine.yakiniku': 'Yakiniku',
+  'suggest.cuisine.curry': 'Kari',
+  'suggest.cuisine.indian': 'India',
+  'suggest.cuisine.middleEastern': 'Timur Tengah',
+  'suggest.cuisine.turkish': 'Turki',
+  'suggest.cuisine.indonesian': 'Indonesia',
+  'suggest.cuisine.malaysian': 'Malaysia',
+  'suggest.cuisine.other': 'Lain-lain',
+  'suggest.halal.certified': 'Disahkan Halal Sepenuhnya',
+  'suggest.halal.muslimFriendly': 'Mesra Muslim',
+  'suggest.halal.menu': 'Ada Menu Halal',
+  'suggest.halal.unknown': 'Tidak Pasti',
+  'suggest.select': 'Pilih...',
+  'suggest.phone': 'Nombor Telefon',
+  'suggest.website': 'Laman Web atau Pautan Google Maps',
+  'suggest.notes': 'Nota Tambahan',
+  'suggest.notes.placeholder': 'Sebarang maklumat lain tentang restoran ini...',
+  'suggest.email': 'E-mel Anda (pilihan)',
+  'suggest.email.placeholder': 'Kami akan memaklumkan anda apabila ia ditambah',
+  'suggest.submit': 'Hantar Cadangan',
+  'suggest.submitting': 'Menghantar...',
+  'suggest.thanks': 'Terima Kasih!',
+  'suggest.thanks.description': 'Cadangan anda telah dihantar. Kami akan menyemaknya dan menambahkannya ke peta jika ia memenuhi kriteria kami.',
+  'suggest.done': 'Selesai',
+  'suggest.error.required': 'Nama restoran dan alamat diperlukan.',
+  'suggest.error.submit': 'Gagal menghantar cadangan',
+  'suggest.error.retry': 'Gagal menghantar. Sila cuba lagi.',
+
+  'shared.label': 'Senarai dikongsi',
+  'shared.exploreMore': 'Terokai lagi di {name}',
+
+  'map.askAI': 'Tanya AI',
+  'map.restaurant': 'Restoran',
+  'map.viewDetails': 'Lihat Butiran',
+  'map.directions': 'Arah',
+  'map.clusterTitle': '{count} tempat - kebanyakannya {status}. Klik untuk zum masuk.',
+  'map.error.search': 'Carian gagal. Sila cuba lagi.',
+  'map.error.network': 'Ralat rangkaian. Sila semak sambungan anda.',
+};
@@ -1,7 +1,15 @@
 import { createServerClient } from '@supabase/ssr';
 import { NextResponse, type NextRequest } from 'next/server';
+import { COOKIE_NAMES } from '@/lib/constants';
 
 export async function middleware(request: NextRequest) {
+  // Give guests a stable anonymous ID for server-side quotas.
+  // Set on the request too so route handlers see it on the very first visit.
+  const newAnonId = request.cookies.get(COOKIE_NAMES.ANON_ID) ? null : crypto.randomUUID();
+  if (newAnonId) {
+    request.cookies.set(COOKIE_NAMES.ANON_ID, newAnonId);
+  }
+
   let supabaseResponse = NextResponse.next({
     request,
   });
@@ -30,6 +38,16 @@ export async function middleware(request: NextRequest) {
   // Refresh session if expired - required for Server Components
   await supabase.auth.getUser();
 
+  if (newAnonId) {
+    supabaseResponse.cookies.set(COOKIE_NAMES.ANON_ID, newAnonId, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      maxAge: 60 * 60 * 24 * 365,
+      path: '/',
+    });
+  }
+
   return supabaseResponse;
 }
 
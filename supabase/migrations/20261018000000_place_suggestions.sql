@@ -0,0 +1,40 @@
+-- User-submitted place suggestions, reviewed by admins before they reach the map.
+create table if not exists public.place_suggestions (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+  name text not null,
+  address text not null,
+  city text,
+  cuisine_type text,
+  halal_status text,
+  phone text,
+  website text,
+  notes text,
+  submitter_email text,
+  submitted_by uuid references auth.users (id) on delete set null,
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected', 'merged')),
+  reviewed_at timestamptz,
+  reviewed_by uuid references auth.users (id) on delete set null,
+  review_note text,
+  -- The place created on approval, or the existing place a duplicate was merged into
+  place_ref uuid references public.places (id) on delete set null
+);
+
+create index if not exists place_suggestions_status_created_at_idx
+  on public.place_suggestions (status, created_at desc);
+
+alter table public.place_suggestions enable row level security;
+
+-- Anyone may submit; only pending rows attributed to themselves (or anonymous).
+create policy "Anyone can submit suggestions"
+  on public.place_suggestions for insert
+  to anon, authenticated
+  with check (
+    status = 'pending'
+    and reviewed_at is null
+    and place_ref is null
+    and (submitted_by is null or submitted_by = auth.uid())
+  );
+
+-- Reads and review updates go through the service role in the admin API.
@@ -0,0 +1,29 @@
+-- Fixed-window counters for server-side API quotas (see lib/rate-limit.ts).
+create table if not exists public.rate_limits (
+  key text primary key,
+  count integer not null default 0,
+  reset_at timestamptz not null
+);
+
+-- No policies: only the service role can touch counters.
+alter table public.rate_limits enable row level security;
+
+-- Atomically bump a counter, starting a new window once the old one has expired.
+create or replace function public.increment_rate_limit(p_key text, p_window_seconds integer)
+returns table (count integer, reset_at timestamptz)
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.rate_limits as r (key, count, reset_at)
+  values (p_key, 1, now() + make_interval(secs => p_window_seconds))
+  on conflict (key) do update set
+    count = case when r.reset_at <= now() then 1 else r.count + 1 end,
+    reset_at = case when r.reset_at <= now() then now() + make_interval(secs => p_window_seconds) else r.reset_at end
+  returning r.count, r.reset_at;
+$$;
+
+revoke execute on function public.increment_rate_limit(text, integer) from public, anon, authenticated;
+
+-- Expired rows are harmless but can be pruned periodically:
+-- delete from public.rate_limits where reset_at < now() - interval '1 day';
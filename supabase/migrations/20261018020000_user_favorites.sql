@@ -0,0 +1,24 @@
+-- Favorites of signed-in users, synced across devices. Guests keep theirs in localStorage.
+create table if not exists public.user_favorites (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  place_id uuid not null references public.places (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, place_id)
+);
+
+alter table public.user_favorites enable row level security;
+
+create policy "Users can read their favorites"
+  on public.user_favorites for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can add their favorites"
+  on public.user_favorites for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users can remove their favorites"
+  on public.user_favorites for delete
+  to authenticated
+  using (user_id = auth.uid());
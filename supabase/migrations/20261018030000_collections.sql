@@ -0,0 +1,46 @@
+-- Named lists of places ("Osaka trip", "Lunch near office") owned by signed-in users.
+-- Each list has an unguessable share_id for its public read-only page at /shared/<share_id>.
+create table if not exists public.collections (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  name text not null check (char_length(name) between 1 and 100),
+  notes text,
+  position integer not null default 0,
+  share_id uuid not null unique default gen_random_uuid()
+);
+
+create index if not exists collections_user_id_position_idx
+  on public.collections (user_id, position);
+
+create table if not exists public.collection_places (
+  collection_id uuid not null references public.collections (id) on delete cascade,
+  place_id uuid not null references public.places (id) on delete cascade,
+  position integer not null default 0,
+  note text,
+  created_at timestamptz not null default now(),
+  primary key (collection_id, place_id)
+);
+
+alter table public.collections enable row level security;
+alter table public.collection_places enable row level security;
+
+create policy "Users manage their collections"
+  on public.collections for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users manage places in their collections"
+  on public.collection_places for all
+  to authenticated
+  using (exists (
+    select 1 from public.collections c
+    where c.id = collection_id and c.user_id = auth.uid()
+  ))
+  with check (exists (
+    select 1 from public.collections c
+    where c.id = collection_id and c.user_id = auth.uid()
+  ));
+
+-- Shared pages are read through the service role by share_id, so no public policy is needed.
@@ -0,0 +1,10 @@
+-- Cached Google ratings keyed by Google place ID, refreshed by /api/places/ratings after a TTL.
+create table if not exists public.place_ratings (
+  place_id text primary key,
+  rating numeric(2, 1),
+  user_ratings_total integer,
+  fetched_at timestamptz not null default now()
+);
+
+alter table public.place_ratings enable row level security;
+-- No policies: only the service role (server) reads and writes the cache.
@@ -0,0 +1,23 @@
+-- Saved assistant conversations of signed-in users (guests keep theirs in localStorage).
+-- Messages are stored as one JSON array per conversation, along with the last filter the
+-- assistant applied so resuming a chat restores the map.
+create table if not exists public.chat_conversations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null check (char_length(title) between 1 and 100),
+  messages jsonb not null default '[]'::jsonb,
+  last_filter jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists chat_conversations_user_id_updated_at_idx
+  on public.chat_conversations (user_id, updated_at desc);
+
+alter table public.chat_conversations enable row level security;
+
+create policy "Users manage their conversations"
+  on public.chat_conversations for all
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
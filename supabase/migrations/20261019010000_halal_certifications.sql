@@ -0,0 +1,20 @@
+-- Structured halal certification on each place, next to the free-text halal_status.
+-- certifying_body holds a short code (JHA, JMA, MUI, ...; full names in lib/constants.ts),
+-- halal_flags the verified details listed in HALAL_FLAGS.
+alter table public.places
+  add column if not exists certifying_body text,
+  add column if not exists certificate_number text,
+  add column if not exists certification_scope text
+    check (certification_scope in ('restaurant', 'menu', 'ingredients')),
+  add column if not exists certified_on date,
+  add column if not exists certification_expires_on date,
+  add column if not exists certification_url text, -- Evidence: the certificate or the body's registry entry
+  add column if not exists halal_flags text[]
+    check (halal_flags <@ array['no_alcohol', 'halal_meat_only', 'prayer_space']::text[]);
+
+alter table public.places
+  add constraint places_certification_dates_check
+  check (certification_expires_on is null or certified_on is null or certification_expires_on >= certified_on);
+
+create index if not exists places_certifying_body_idx on public.places (certifying_body);
+create index if not exists places_halal_flags_idx on public.places using gin (halal_flags);
@@ -0,0 +1,11 @@
+-- Expiry and staleness tracking for halal certification. last_verified_on is when someone
+-- last confirmed the place's halal status; verification_issue is set by the verification
+-- job (/api/admin/verification) and lowers the status shown in the app while it is set.
+alter table public.places
+  add column if not exists last_verified_on date,
+  add column if not exists verification_issue text
+    check (verification_issue in ('expired', 'stale'));
+
+create index if not exists places_verification_issue_idx
+  on public.places (verification_issue)
+  where verification_issue is not null;
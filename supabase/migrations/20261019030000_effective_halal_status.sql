@@ -0,0 +1,15 @@
+-- The halal status the app shows and filters on: halal_status, lowered one level while the
+-- verification job has flagged the place (see getHalalStatusConfig in lib/constants.ts).
+-- Certified places become Muslim-Friendly; anything else flagged becomes unverified (null).
+alter table public.places
+  add column if not exists effective_halal_status text
+    generated always as (
+      case
+        when verification_issue is null then halal_status
+        when halal_status ilike '%fully%' or halal_status ilike '%certified%' then 'Muslim-Friendly'
+        else null
+      end
+    ) stored;
+
+create index if not exists places_effective_halal_status_idx
+  on public.places (effective_halal_status);